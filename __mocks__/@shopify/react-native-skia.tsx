@@ -17,12 +17,14 @@ export const Canvas = ({ children }: { children?: React.ReactNode }) =>
 export const Group = ({
   children,
   clip,
+  origin,
   transform,
 }: {
   children?: React.ReactNode;
   clip?: unknown;
+  origin?: unknown;
   transform?: unknown;
-}) => React.createElement('skia-group', { clip, transform }, children);
+}) => React.createElement('skia-group', { clip, origin, transform }, children);
 
 /**
  * Mock Skia image element used by the Jest environment.
@@ -35,13 +37,88 @@ export const MockSkiaImage = (props: Record<string, unknown>) =>
  */
 export const Image = (props: Record<string, unknown>) => React.createElement(MockSkiaImage, props);
 
+/**
+ * Mock atlas element used by the Jest environment.
+ */
+export const Atlas = (props: Record<string, unknown>) => React.createElement('skia-atlas', props);
+
+/**
+ * Mock color filter element used by the Jest environment.
+ */
+export const BlendColor = (props: Record<string, unknown>) =>
+  React.createElement('skia-blend-color', props);
+
+/**
+ * Mock runtime shader image filter element.
+ */
+export const RuntimeShader = (props: Record<string, unknown>) =>
+  React.createElement('skia-runtime-shader', props);
+
+/**
+ * Mock drop shadow image filter element.
+ */
+export const Shadow = (props: Record<string, unknown>) => React.createElement('skia-shadow', props);
+
+/**
+ * Sampling enums mirroring Skia's values.
+ */
+export const FilterMode = { Nearest: 0, Linear: 1 } as const;
+
+/**
+ * Mipmap enum mirroring Skia's values.
+ */
+export const MipmapMode = { None: 0, Nearest: 1, Linear: 2 } as const;
+
+/**
+ * Pixel format enums used by `readPixels`.
+ */
+export const ColorType = { RGBA_8888: 4 } as const;
+
+/**
+ * Alpha format enum mirroring Skia's values.
+ */
+export const AlphaType = { Opaque: 1, Premul: 2, Unpremul: 3 } as const;
+
+/**
+ * Clip operation enum mirroring Skia's values.
+ */
+export const ClipOp = { Difference: 0, Intersect: 1 } as const;
+
+/**
+ * Encoded image format enum mirroring Skia's values.
+ */
+export const ImageFormat = { JPEG: 3, PNG: 4, WEBP: 6 } as const;
+
 /**
  * Minimal Skia namespace surface needed inside tests.
  */
 export const Skia = {
   XYWHRect: (x: number, y: number, w: number, h: number) => ({ x, y, w, h }),
+  RSXform: (scos: number, ssin: number, tx: number, ty: number) => ({ scos, ssin, tx, ty }),
+  RuntimeEffect: {
+    Make: jest.fn((source: string) => ({ source })),
+  },
+  // Only parses #rrggbb; anything else becomes opaque black
+  Color: (color: unknown) => {
+    const match = typeof color === 'string' ? /^#([0-9a-f]{6})$/i.exec(color) : null;
+    if (!match) {
+      return new Float32Array([0, 0, 0, 1]);
+    }
+    const value = parseInt(match[1]!, 16);
+    return new Float32Array([
+      (value >> 16) / 255,
+      ((value >> 8) & 0xff) / 255,
+      (value & 0xff) / 255,
+      1,
+    ]);
+  },
 };
 
+/**
+ * Mock for Skia's data loader; resolves to null unless a test overrides it.
+ */
+export const loadData = jest.fn(() => Promise.resolve(null));
+
 /**
  * Re-export of the mocked useImage hook.
  */
@@ -13,6 +13,12 @@ export let documentDirectory: string | null = DEFAULT_DOCUMENT_DIR;
 /** Mock value for expo-file-system cacheDirectory. */
 export let cacheDirectory: string | null = DEFAULT_CACHE_DIR;
 
+/** Mock value for expo-file-system EncodingType. */
+export const EncodingType = {
+  UTF8: 'utf8',
+  Base64: 'base64',
+} as const;
+
 /**
  * Overrides the writable directories used by the mock environment.
  */
@@ -72,14 +78,18 @@ export const makeDirectoryAsync = async (uri: string, _options?: { intermediates
 /**
  * Writes text data into a mock file.
  */
-export const writeAsStringAsync = async (uri: string, contents: string) => {
+export const writeAsStringAsync = async (
+  uri: string,
+  contents: string,
+  _options?: { encoding?: string },
+) => {
   store.set(uri, { isDirectory: false, data: contents });
 };
 
 /**
  * Reads text data from a mock file.
  */
-export const readAsStringAsync = async (uri: string) => {
+export const readAsStringAsync = async (uri: string, _options?: { encoding?: string }) => {
   const entry = store.get(uri);
   if (!entry || entry.isDirectory) {
     throw new Error(`File not found: ${uri}`);
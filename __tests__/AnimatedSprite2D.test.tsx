@@ -1,5 +1,6 @@
 import React, { createRef } from 'react';
 import { act, create, type ReactTestRenderer } from 'react-test-renderer';
+import './helpers/spriteFixtures';
 import { AnimatedSprite2D } from '../src/AnimatedSprite2D';
 import type {
   AnimatedSprite2DHandle,
@@ -8,8 +9,12 @@ import type {
 } from '../src/editor/animatedSprite2dTypes';
 import { AnimatedSprite2DView } from '../src/AnimatedSprite2DView';
 import { useAnimatedSpriteController } from '../src/editor/hooks/animatedSprite2d/useAnimatedSpriteController';
+import { useSpriteResourceReady } from '../src/hooks/useSpriteResourceReady';
 
 jest.mock('../src/editor/hooks/animatedSprite2d/useAnimatedSpriteController');
+jest.mock('../src/hooks/useSpriteResourceReady', () => ({
+  useSpriteResourceReady: jest.fn(() => true),
+}));
 jest.mock('../src/AnimatedSprite2DView', () => ({
   AnimatedSprite2DView: jest.fn(() => null),
 }));
@@ -18,6 +23,9 @@ const mockController = useAnimatedSpriteController as jest.MockedFunction<
   typeof useAnimatedSpriteController
 >;
 const mockView = AnimatedSprite2DView as jest.MockedFunction<typeof AnimatedSprite2DView>;
+const mockResourceReady = useSpriteResourceReady as jest.MockedFunction<
+  typeof useSpriteResourceReady
+>;
 
 const buildFrame = (overrides?: Partial<AnimatedSpriteFrame>): AnimatedSpriteFrame => ({
   id: overrides?.id ?? 'frame-0',
@@ -38,17 +46,48 @@ const setupControllerMock = () => {
     setAnimationName: jest.fn(),
     playing: false,
     setPlaying: jest.fn(),
+    suspended: false,
     sequence: [0, 1, 2],
     timelineCursor: 0,
     setTimelineCursor: jest.fn(),
     resetTimelineAccumulator: jest.fn(),
+    seekTime: jest.fn(),
+    getPlaybackPosition: jest.fn(),
+    advance: jest.fn(),
+    direction: 'forward' as const,
+    setDirection: jest.fn(),
+    speedScale: 1,
+    setSpeedScale: jest.fn(),
+    queue: jest.fn(),
+    playSequence: jest.fn(),
+    clearQueue: jest.fn(),
     forcedFrameIndex: null,
     resolvedFrameIndex: 0,
     currentFrame: framesResource.frames[0],
     frameImage: null,
     canvasSize: { width: 128, height: 96 },
     drawOrigin: { x: 4, y: 6 },
+    contentRect: { x: 0, y: 0, width: 128, height: 96 },
+    boxTransform: null,
     scale: 1,
+    pixelPerfect: false,
+    driver: 'js' as const,
+    effectiveCursor: 0,
+    cursorRevision: 0,
+    reportExternalCursor: jest.fn(),
+    completeExternalPlayback: jest.fn(),
+    syncExternalCursor: jest.fn(),
+    modulate: null,
+    opacity: 1,
+    blendMode: null,
+    effects: null,
+    palette: null,
+    paletteSwap: null,
+    setModulate: jest.fn(),
+    setOpacity: jest.fn(),
+    setBlendMode: jest.fn(),
+    setEffects: jest.fn(),
+    setPalette: jest.fn(),
   };
   mockController.mockReturnValue(controllerState);
   return controllerState;
@@ -137,4 +176,40 @@ describe('AnimatedSprite2D', () => {
     expect(ref.current?.getCurrentAnimation()).toBe('idle');
     expect(ref.current?.isPlaying()).toBe(false);
   });
+
+  it('applies play options for direction, speed and starting frame', () => {
+    const state = setupControllerMock();
+    const ref = createRef<AnimatedSprite2DHandle>();
+
+    renderComponent(<AnimatedSprite2D ref={ref} frames={framesResource} />);
+
+    act(() => {
+      ref.current?.play('door', { direction: 'reverse', speedScale: 2, fromFrame: 2 });
+    });
+    expect(state.setAnimationName).toHaveBeenCalledWith('door');
+    expect(state.setDirection).toHaveBeenCalledWith('reverse');
+    expect(state.setSpeedScale).toHaveBeenCalledWith(2);
+    expect(state.setTimelineCursor).toHaveBeenLastCalledWith(2);
+    expect(state.setPlaying).toHaveBeenLastCalledWith(true);
+  });
+
+  it('renders the placeholder until the frame images are ready', () => {
+    setupControllerMock();
+    const onReady = jest.fn();
+    mockResourceReady.mockReturnValue(false);
+
+    const renderer = renderComponent(
+      <AnimatedSprite2D frames={framesResource} onReady={onReady} placeholder="loading" />,
+    );
+
+    expect(mockResourceReady).toHaveBeenCalledWith(framesResource, { onReady });
+    expect(renderer.toJSON()).toBe('loading');
+    expect(mockView).not.toHaveBeenCalled();
+
+    mockResourceReady.mockReturnValue(true);
+    act(() => {
+      renderer.update(<AnimatedSprite2D frames={framesResource} placeholder="loading" />);
+    });
+    expect(mockView).toHaveBeenCalledTimes(1);
+  });
 });
@@ -39,4 +39,26 @@ describe('DefaultSpriteTemplate', () => {
     expect(imported?.frames?.[0].id).toBeDefined();
     expect(imported?.animations).toEqual({ idle: [0] });
   });
+
+  it('round-trips playback mode and loop count', () => {
+    const snapshot: SpriteEditorSnapshot = {
+      frames: [
+        { id: 'frame-a', x: 0, y: 0, w: 16, h: 16 },
+        { id: 'frame-b', x: 16, y: 0, w: 16, h: 16 },
+      ],
+      animations: { breathe: [0, 1] },
+      animationsMeta: {
+        breathe: { loop: true, playbackMode: 'pingpong', loopCount: 3 },
+      },
+      selected: [],
+      meta: {},
+    };
+
+    const imported = DefaultSpriteTemplate.fromJSON(DefaultSpriteTemplate.toJSON(snapshot));
+
+    expect(imported?.animationsMeta?.breathe).toMatchObject({
+      playbackMode: 'pingpong',
+      loopCount: 3,
+    });
+  });
 });
@@ -0,0 +1,157 @@
+import React from 'react';
+import { act, create, type ReactTestRenderer } from 'react-test-renderer';
+import { SpriteBatch } from '../src/SpriteBatch';
+import type {
+  AnimatedSpriteFrame,
+  SpriteFramesResource,
+} from '../src/editor/animatedSprite2dTypes';
+import {
+  advanceSpriteBatchPlayhead,
+  buildSpriteBatchDrawGroups,
+  syncSpriteBatchPlayheads,
+} from '../src/editor/utils/spriteBatch';
+
+const sheet = { width: () => 64, height: () => 16 } as any;
+
+const buildFrame = (index: number): AnimatedSpriteFrame => ({
+  id: `frame-${index}`,
+  width: 16,
+  height: 16,
+  image: { type: 'skImage', image: sheet, subset: { x: index * 16, y: 0, width: 16, height: 16 } },
+});
+
+const framesResource: SpriteFramesResource = {
+  frames: [buildFrame(0), buildFrame(1), buildFrame(2), buildFrame(3)],
+  animations: { spin: [0, 1, 2], hit: [3] },
+  animationsMeta: { spin: { fps: 10 } },
+  autoPlayAnimation: 'spin',
+};
+
+describe('spriteBatch utils', () => {
+  it('keeps playheads by key and reseeds them when the cursor changes', () => {
+    const first = syncSpriteBatchPlayheads(
+      framesResource,
+      [
+        { id: 'a', x: 0, y: 0 },
+        { id: 'b', x: 0, y: 0, cursor: 2 },
+      ],
+      new Map(),
+    );
+    advanceSpriteBatchPlayhead(framesResource, first.get('a')!, 100, 1);
+    expect(first.get('a')?.cursor).toBe(1);
+    expect(first.get('b')?.cursor).toBe(2);
+
+    const second = syncSpriteBatchPlayheads(
+      framesResource,
+      [
+        { id: 'b', x: 0, y: 0, cursor: 0 },
+        { id: 'a', x: 5, y: 5 },
+      ],
+      first,
+    );
+    expect(second.get('a')).toBe(first.get('a'));
+    expect(second.get('b')?.cursor).toBe(0);
+  });
+
+  it('groups instances by flip and pivots rotation around the frame center', () => {
+    const instances = [
+      { id: 'a', x: 50, y: 40 },
+      { id: 'b', x: 10, y: 10, frame: 3, rotation: Math.PI / 2, opacity: 0.5 },
+      { id: 'c', x: 30, y: 20, flipH: true, scale: 2 },
+    ];
+    const playheads = syncSpriteBatchPlayheads(framesResource, instances, new Map());
+    const groups = buildSpriteBatchDrawGroups(framesResource, instances, playheads);
+
+    expect(groups).toHaveLength(2);
+    const [plain, flipped] = groups;
+    expect(plain?.sprites).toEqual([
+      { x: 0, y: 0, width: 16, height: 16 },
+      { x: 48, y: 0, width: 16, height: 16 },
+    ]);
+    expect(plain?.transforms[0]).toEqual({ scos: 1, ssin: 0, tx: 42, ty: 32 });
+    const rotated = plain!.transforms[1]!;
+    expect(rotated.ssin).toBeCloseTo(1);
+    expect(rotated.tx).toBeCloseTo(18);
+    expect(rotated.ty).toBeCloseTo(2);
+    expect(plain?.opacities).toEqual([1, 0.5]);
+    expect(flipped).toMatchObject({
+      flipH: true,
+      flipV: false,
+      transforms: [{ scos: 2, ssin: -0, tx: -46, ty: 4 }],
+    });
+  });
+
+  it('positions trimmed frames by the center of their untrimmed box', () => {
+    const trimmed: SpriteFramesResource = {
+      frames: [
+        {
+          ...buildFrame(0),
+          width: 8,
+          height: 8,
+          sourceSize: { width: 16, height: 16 },
+          trimOffset: { x: 4, y: 2 },
+        },
+      ],
+      animations: {},
+    };
+    const instances = [{ id: 'a', x: 50, y: 40 }];
+    const playheads = syncSpriteBatchPlayheads(trimmed, instances, new Map());
+    const [group] = buildSpriteBatchDrawGroups(trimmed, instances, playheads);
+
+    expect(group?.transforms).toEqual([{ scos: 1, ssin: 0, tx: 46, ty: 34 }]);
+  });
+});
+
+describe('SpriteBatch', () => {
+  it('renders every instance through a single atlas', () => {
+    let renderer!: ReactTestRenderer;
+    act(() => {
+      renderer = create(
+        <SpriteBatch
+          frames={framesResource}
+          playing={false}
+          instances={[
+            { x: 8, y: 8 },
+            { x: 24, y: 8, cursor: 1 },
+            { x: 40, y: 8, animation: 'hit' },
+          ]}
+        />,
+      );
+    });
+
+    const atlases = renderer.root.findAll((node) => (node.type as unknown) === 'skia-atlas');
+    expect(atlases).toHaveLength(1);
+    expect(atlases[0]?.props.image).toBe(sheet);
+    expect(atlases[0]?.props.sprites.map((rect: { x: number }) => rect.x)).toEqual([0, 16, 48]);
+    expect(atlases[0]?.props.colors).toBeUndefined();
+    act(() => {
+      renderer.unmount();
+    });
+  });
+
+  it('fades translucent instances by keeping the sprite over its color alpha', () => {
+    let renderer!: ReactTestRenderer;
+    act(() => {
+      renderer = create(
+        <SpriteBatch
+          frames={framesResource}
+          playing={false}
+          instances={[
+            { x: 8, y: 8 },
+            { x: 24, y: 8, opacity: 0.25 },
+          ]}
+        />,
+      );
+    });
+
+    const [atlas] = renderer.root.findAll((node) => (node.type as unknown) === 'skia-atlas');
+    expect(atlas?.props.colors.map((color: Float32Array) => Array.from(color))).toEqual([
+      [1, 1, 1, 1],
+      [1, 1, 1, 0.25],
+    ]);
+    expect(atlas?.props.blendMode).toBe('srcIn');
+    act(() => {
+      renderer.unmount();
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import React from 'react';
+import TestRenderer, { act } from 'react-test-renderer';
+import {
+  SpriteClockProvider,
+  createSpriteClock,
+  useSpriteClock,
+  type SpriteClock,
+} from '../src/SpriteClockProvider';
+
+const createFrameSource = () => {
+  const pending = new Map<number, (timestamp: number) => void>();
+  let nextId = 1;
+  return {
+    scheduleFrame: jest.fn((callback: (timestamp: number) => void) => {
+      const id = nextId;
+      nextId += 1;
+      pending.set(id, callback);
+      return id;
+    }),
+    cancelScheduledFrame: jest.fn((id: number) => {
+      pending.delete(id);
+    }),
+    get pendingCount() {
+      return pending.size;
+    },
+    flush(timestamp: number) {
+      const due = Array.from(pending.values());
+      pending.clear();
+      due.forEach((callback) => callback(timestamp));
+    },
+  };
+};
+
+describe('createSpriteClock', () => {
+  it('runs every subscriber from a single scheduled frame with scaled time', () => {
+    const source = createFrameSource();
+    const clock = createSpriteClock({ timeScale: 0.5, ...source });
+    const received: number[] = [];
+    const loop = (timestamp: number) => {
+      received.push(timestamp);
+      clock.requestFrame(loop);
+    };
+    clock.requestFrame(loop);
+    clock.requestFrame(loop);
+
+    expect(source.scheduleFrame).toHaveBeenCalledTimes(1);
+
+    source.flush(1000);
+    source.flush(1100);
+
+    expect(received).toEqual([0, 0, 50, 50]);
+    expect(source.pendingCount).toBe(1);
+  });
+
+  it('holds callbacks while paused and resumes without a time jump', () => {
+    const source = createFrameSource();
+    const clock = createSpriteClock(source);
+    const received: number[] = [];
+    const loop = (timestamp: number) => {
+      received.push(timestamp);
+      clock.requestFrame(loop);
+    };
+    clock.requestFrame(loop);
+    source.flush(0);
+    source.flush(16);
+
+    clock.setPaused(true);
+    expect(source.pendingCount).toBe(0);
+
+    clock.setPaused(false);
+    source.flush(5000);
+    source.flush(5016);
+
+    expect(received).toEqual([0, 16, 16, 32]);
+  });
+});
+
+describe('SpriteClockProvider', () => {
+  it('exposes the shared clock to descendants', () => {
+    let observed: SpriteClock | null = null;
+    const Probe = () => {
+      observed = useSpriteClock();
+      return null;
+    };
+    let root: TestRenderer.ReactTestRenderer | null = null;
+    act(() => {
+      root = TestRenderer.create(
+        <SpriteClockProvider timeScale={2}>
+          <Probe />
+        </SpriteClockProvider>,
+      );
+    });
+
+    expect(observed).not.toBeNull();
+    act(() => {
+      root?.unmount();
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import React, { createRef } from 'react';
+import { act, create, type ReactTestRenderer } from 'react-test-renderer';
+import { Canvas, Skia } from '@shopify/react-native-skia';
+import { buildFrame } from './helpers/spriteFixtures';
+import { SpriteNode } from '../src/SpriteNode';
+import { resolveSpriteEffect } from '../src/SpriteEffectStack';
+import type {
+  AnimatedSprite2DHandle,
+  SpriteFramesResource,
+} from '../src/editor/animatedSprite2dTypes';
+
+const framesResource: SpriteFramesResource = {
+  frames: [buildFrame(0)],
+  animations: { idle: [0] },
+};
+
+const findType = (renderer: ReactTestRenderer, type: string) =>
+  renderer.root.findAll((node) => (node.type as unknown) === type);
+
+describe('resolveSpriteEffect', () => {
+  it('compiles each built-in shader once and clamps parameters', () => {
+    const make = Skia.RuntimeEffect.Make as jest.Mock;
+    const first = resolveSpriteEffect({ type: 'dissolve', progress: 2 });
+    const second = resolveSpriteEffect({ type: 'dissolve', progress: 0.4, seed: 3 });
+
+    expect(first).toMatchObject({ kind: 'shader', uniforms: { progress: 1, noiseScale: 8 } });
+    expect(second.kind === 'shader' && second.source).toBe(first.kind === 'shader' && first.source);
+    expect(make.mock.calls.filter(([source]) => source.includes('progress'))).toHaveLength(1);
+    expect(resolveSpriteEffect({ type: 'flash', color: '#ff0000', amount: 0.5 })).toMatchObject({
+      uniforms: { color: [1, 0, 0, 1], amount: 0.5 },
+    });
+  });
+});
+
+describe('SpriteEffectStack', () => {
+  it('nests one filter layer per effect and follows handle overrides', () => {
+    const ref = createRef<AnimatedSprite2DHandle>();
+    const custom = { uniforms: [] } as any;
+    let renderer!: ReactTestRenderer;
+    act(() => {
+      renderer = create(
+        <Canvas>
+          <SpriteNode
+            ref={ref}
+            frames={framesResource}
+            playing={false}
+            effects={[
+              { type: 'outline', width: 2 },
+              { type: 'shader', source: custom, uniforms: { time: 1 } },
+            ]}
+          />
+        </Canvas>,
+      );
+    });
+
+    const shaders = findType(renderer, 'skia-runtime-shader');
+    // the last effect wraps the others, so it renders first
+    expect(shaders.map((node) => node.props.source)).toEqual([
+      custom,
+      expect.objectContaining({ source: expect.stringContaining('outline') }),
+    ]);
+    expect(shaders[0]?.props.uniforms).toEqual({ time: 1 });
+
+    act(() => {
+      ref.current?.setEffects([{ type: 'dropShadow', dy: 4 }]);
+    });
+    expect(findType(renderer, 'skia-runtime-shader')).toHaveLength(0);
+    expect(findType(renderer, 'skia-shadow')[0]?.props).toMatchObject({ dx: 2, dy: 4, blur: 2 });
+
+    act(() => {
+      ref.current?.setEffects(null);
+    });
+    expect(findType(renderer, 'skia-shadow')).toHaveLength(0);
+    expect(findType(renderer, 'skia-image')).toHaveLength(1);
+    act(() => {
+      renderer.unmount();
+    });
+  });
+
+  it('swaps the palette before tinting and follows setPalette', () => {
+    const ref = createRef<AnimatedSprite2DHandle>();
+    const recolorable = {
+      ...framesResource,
+      meta: { palettes: { source: ['#000000'], variants: { red: ['#ff0000'] } } },
+    };
+    let renderer!: ReactTestRenderer;
+    act(() => {
+      renderer = create(
+        <Canvas>
+          <SpriteNode
+            ref={ref}
+            frames={recolorable}
+            playing={false}
+            palette="red"
+            modulate="#00ff00"
+          />
+        </Canvas>,
+      );
+    });
+
+    const shader = findType(renderer, 'skia-runtime-shader')[0];
+    expect(shader?.props.uniforms).toMatchObject({ count: 1 });
+    // the tint filters the recolored layer instead of the image itself
+    const image = findType(renderer, 'skia-image')[0]!;
+    expect(image.findAll((node) => (node.type as unknown) === 'skia-blend-color')).toHaveLength(0);
+    expect(findType(renderer, 'skia-blend-color')).toHaveLength(1);
+
+    act(() => {
+      ref.current?.setPalette(null);
+    });
+    expect(findType(renderer, 'skia-runtime-shader')).toHaveLength(0);
+    act(() => {
+      renderer.unmount();
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import React, { createRef } from 'react';
+import { act, create, type ReactTestRenderer } from 'react-test-renderer';
+import { Canvas } from '@shopify/react-native-skia';
+import { buildFrame } from './helpers/spriteFixtures';
+import { SpriteNode } from '../src/SpriteNode';
+import type {
+  AnimatedSprite2DHandle,
+  SpriteFramesResource,
+} from '../src/editor/animatedSprite2dTypes';
+
+const framesResource: SpriteFramesResource = {
+  frames: [buildFrame(0), buildFrame(1)],
+  animations: { idle: [0, 1] },
+};
+
+describe('SpriteNode', () => {
+  it('draws into the surrounding canvas and keeps the imperative handle', () => {
+    const ref = createRef<AnimatedSprite2DHandle>();
+    let renderer!: ReactTestRenderer;
+    act(() => {
+      renderer = create(
+        <Canvas>
+          <SpriteNode ref={ref} frames={framesResource} playing={false} x={10} y={20} />
+        </Canvas>,
+      );
+    });
+
+    const canvases = renderer.root.findAll((node) => (node.type as unknown) === 'skia-canvas');
+    expect(canvases).toHaveLength(1);
+    const groups = renderer.root.findAll((node) => (node.type as unknown) === 'skia-group');
+    expect(groups[0]?.props.transform).toEqual([{ translateX: 10 }, { translateY: 20 }]);
+    const image = () => renderer.root.find((node) => (node.type as unknown) === 'skia-image');
+    expect(image().props.x).toBe(0);
+
+    act(() => {
+      ref.current?.seekFrame(1);
+    });
+    expect(image().props.x).toBe(-32);
+    expect(ref.current?.getCurrentAnimation()).toBe('idle');
+    act(() => {
+      renderer.unmount();
+    });
+  });
+
+  it('applies tint, opacity and blend mode, adjustable through the handle', () => {
+    const ref = createRef<AnimatedSprite2DHandle>();
+    let renderer!: ReactTestRenderer;
+    act(() => {
+      renderer = create(
+        <Canvas>
+          <SpriteNode
+            ref={ref}
+            frames={framesResource}
+            playing={false}
+            modulate="#ff0000"
+            opacity={0.5}
+          />
+        </Canvas>,
+      );
+    });
+
+    const image = () => renderer.root.find((node) => (node.type as unknown) === 'skia-image');
+    const tint = () =>
+      renderer.root.findAll((node) => (node.type as unknown) === 'skia-blend-color');
+    expect(image().props.opacity).toBe(0.5);
+    expect(image().props.blendMode).toBeUndefined();
+    expect(tint()[0]?.props).toMatchObject({ color: '#ff0000', mode: 'modulate' });
+
+    act(() => {
+      ref.current?.setOpacity(2);
+      ref.current?.setBlendMode('screen');
+      ref.current?.setModulate(null);
+    });
+    expect(image().props.opacity).toBeUndefined();
+    expect(image().props.blendMode).toBe('screen');
+    expect(tint()).toHaveLength(0);
+    act(() => {
+      renderer.unmount();
+    });
+  });
+
+  it('rotates around the resource origin and grows the box to fit', () => {
+    let renderer!: ReactTestRenderer;
+    act(() => {
+      renderer = create(
+        <Canvas>
+          <SpriteNode
+            frames={{ ...framesResource, meta: { origin: { x: 16, y: 32 } } }}
+            playing={false}
+            rotation={Math.PI / 2}
+          />
+        </Canvas>,
+      );
+    });
+
+    const groups = renderer.root.findAll((node) => (node.type as unknown) === 'skia-group');
+    const rotated = groups.find((group) => group.props.origin)!;
+    // turned around its bottom-center, the 32×32 box spans x 16..48 and y 16..48
+    expect(rotated.props.origin.x).toBeCloseTo(0);
+    expect(rotated.props.origin.y).toBeCloseTo(16);
+    expect(rotated.props.transform).toEqual([{ rotate: Math.PI / 2 }, { skewX: 0 }, { skewY: 0 }]);
+    const clip = groups[groups.indexOf(rotated) + 1]?.props.clip;
+    expect(clip.x).toBeCloseTo(-16);
+    expect(clip.y).toBeCloseTo(-16);
+    act(() => {
+      renderer.unmount();
+    });
+  });
+
+  it('samples with nearest neighbour and snaps scale and origin in pixel-perfect mode', () => {
+    let renderer!: ReactTestRenderer;
+    act(() => {
+      renderer = create(
+        <Canvas>
+          <SpriteNode
+            frames={framesResource}
+            playing={false}
+            scale={2.5}
+            offset={{ x: 0.3, y: 0 }}
+            pixelPerfect={{ integerScale: true }}
+          />
+        </Canvas>,
+      );
+    });
+
+    const image = renderer.root.find((node) => (node.type as unknown) === 'skia-image');
+    expect(image.props.sampling).toEqual({ filter: 0, mipmap: 0 });
+    // scale 2.5 snaps to 2, so the 96px sheet draws 192px wide
+    expect(image.props.width).toBe(192);
+    // 0.3 × 2 lands on 0.5 with the mocked pixel ratio of 2
+    expect(image.props.x).toBe(0.5);
+    act(() => {
+      renderer.unmount();
+    });
+  });
+});
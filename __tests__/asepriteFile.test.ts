@@ -0,0 +1,286 @@
+import { deflateSync } from 'zlib';
+import CanvasKitInit from 'canvaskit-wasm';
+import { JsiSkApi } from '@shopify/react-native-skia/lib/commonjs/skia/web/JsiSkia';
+import {
+  buildAsepriteSheet,
+  flattenAsepriteFrame,
+  parseAsepriteFile,
+} from '../src/editor/utils/asepriteFile';
+import { encodeBase64 } from '../src/editor/utils/base64';
+import { inflateZlib } from '../src/editor/utils/inflate';
+import type { RenderSpriteFrameOptions } from '../src/renderSpriteFrame';
+import { importAsepriteFile } from '../src/storage/asepriteImport';
+import { configureSpriteStorage } from '../src/storage/spriteStorage';
+
+jest.mock('expo-file-system/legacy');
+
+const mockFs = jest.requireMock(
+  'expo-file-system/legacy',
+) as typeof import('../__mocks__/expo-file-system/legacy');
+
+const RED = [255, 0, 0, 255];
+const BLUE = [0, 0, 255, 255];
+const CLEAR = [0, 0, 0, 0];
+
+const createWriter = () => {
+  const bytes: number[] = [];
+  const writer = {
+    bytes,
+    byte: (value: number) => {
+      bytes.push(value & 0xff);
+      return writer;
+    },
+    word: (value: number) => writer.byte(value).byte(value >> 8),
+    dword: (value: number) => writer.word(value).word(value >>> 16),
+    raw: (values: ArrayLike<number>) => {
+      Array.from(values).forEach(writer.byte);
+      return writer;
+    },
+    string: (text: string) => writer.word(text.length).raw(Buffer.from(text)),
+    zeros: (count: number) => writer.raw(new Uint8Array(count)),
+  };
+  return writer;
+};
+
+type Writer = ReturnType<typeof createWriter>;
+
+const chunk = (type: number, body: (writer: Writer) => void) => {
+  const data = createWriter();
+  body(data);
+  return createWriter()
+    .dword(data.bytes.length + 6)
+    .word(type)
+    .raw(data.bytes).bytes;
+};
+
+const layerChunk = (name: string, flags: number, options: { type?: number; level?: number } = {}) =>
+  chunk(0x2004, (writer) =>
+    writer
+      .word(flags)
+      .word(options.type ?? 0)
+      .word(options.level ?? 0)
+      .word(0)
+      .word(0)
+      .word(0)
+      .byte(255)
+      .zeros(3)
+      .string(name),
+  );
+
+const celChunk = (
+  layer: number,
+  x: number,
+  y: number,
+  width: number,
+  pixels: number[],
+  options: { opacity?: number; bytesPerPixel?: number } = {},
+) =>
+  chunk(0x2005, (writer) =>
+    writer
+      .word(layer)
+      .word(x)
+      .word(y)
+      .byte(options.opacity ?? 255)
+      .word(2)
+      .word(0)
+      .zeros(5)
+      .word(width)
+      .word(pixels.length / width / (options.bytesPerPixel ?? 4))
+      .raw(deflateSync(Uint8Array.from(pixels))),
+  );
+
+const linkedCelChunk = (layer: number, frame: number) =>
+  chunk(0x2005, (writer) =>
+    writer.word(layer).word(0).word(0).byte(255).word(1).word(0).zeros(5).word(frame),
+  );
+
+const buildFile = (
+  width: number,
+  height: number,
+  depth: number,
+  frames: { duration: number; chunks: number[][] }[],
+) => {
+  const writer = createWriter();
+  const body = frames.flatMap(({ duration, chunks }) => {
+    const data = chunks.flat();
+    return createWriter()
+      .dword(data.length + 16)
+      .word(0xf1fa)
+      .word(chunks.length)
+      .word(duration)
+      .zeros(2)
+      .dword(chunks.length)
+      .raw(data).bytes;
+  });
+  writer
+    .dword(128 + body.length)
+    .word(0xa5e0)
+    .word(frames.length)
+    .word(width)
+    .word(height)
+    .word(depth)
+    // layer opacity is valid
+    .dword(1)
+    .word(100)
+    .zeros(8)
+    .byte(0)
+    .zeros(3)
+    .word(0)
+    .zeros(94);
+  return Uint8Array.from([...writer.bytes, ...body]);
+};
+
+// 2×1 RGBA sprite: a visible base layer, a hidden layer, a hidden group with a visible child,
+// and a half-transparent top layer
+const rgbaFile = buildFile(2, 1, 32, [
+  {
+    duration: 100,
+    chunks: [
+      layerChunk('base', 1),
+      layerChunk('hidden', 0),
+      layerChunk('fx', 0, { type: 1 }),
+      layerChunk('glow', 1, { level: 1 }),
+      layerChunk('top', 1),
+      celChunk(0, 0, 0, 2, [...RED, ...RED]),
+      celChunk(1, 0, 0, 2, [...BLUE, ...BLUE]),
+      celChunk(3, 0, 0, 2, [...BLUE, ...BLUE]),
+      celChunk(4, 1, 0, 1, BLUE, { opacity: 128 }),
+      chunk(0x2018, (writer) =>
+        writer.word(1).zeros(8).word(0).word(1).byte(2).word(4).zeros(10).string('blink'),
+      ),
+      chunk(0x2022, (writer) =>
+        writer
+          .dword(1)
+          .dword(2)
+          .dword(0)
+          .string('hitbox')
+          .dword(0)
+          .dword(0)
+          .dword(0)
+          .dword(2)
+          .dword(1)
+          .dword(1)
+          .dword(0),
+      ),
+    ],
+  },
+  { duration: 200, chunks: [linkedCelChunk(0, 0)] },
+]);
+
+describe('inflateZlib', () => {
+  it('matches zlib for stored, fixed and dynamic blocks', () => {
+    const text = Buffer.from('sprite '.repeat(200) + 'sheet 0123456789'.repeat(50));
+    [0, 1, 9].forEach((level) => {
+      expect(Buffer.from(inflateZlib(deflateSync(text, { level })))).toEqual(text);
+    });
+    expect(() => inflateZlib(Uint8Array.from([1, 2, 3]))).toThrow('Not a zlib stream.');
+  });
+});
+
+describe('parseAsepriteFile', () => {
+  it('reads layers, tags and slices and flattens visible layers', () => {
+    const file = parseAsepriteFile(rgbaFile);
+
+    expect(file.layers.map((layer) => layer.name)).toEqual(['base', 'hidden', 'fx', 'glow', 'top']);
+    expect(file.frames.map((frame) => frame.duration)).toEqual([100, 200]);
+    expect(file.tags).toEqual([
+      { name: 'blink', from: 0, to: 1, direction: 'pingpong', repeat: 4 },
+    ]);
+    expect(file.slices).toEqual([
+      {
+        name: 'hitbox',
+        keys: [{ frame: 0, bounds: { x: 0, y: 0, w: 2, h: 1 }, pivot: { x: 1, y: 0 } }],
+      },
+    ]);
+    // the top layer's blue blends half over the red base
+    expect(Array.from(flattenAsepriteFrame(file, 0))).toEqual([...RED, 127, 0, 128, 255]);
+    // the linked cel repeats the base layer only
+    expect(Array.from(flattenAsepriteFrame(file, 1))).toEqual([...RED, ...RED]);
+  });
+
+  it('resolves indexed colors and the transparent index', () => {
+    const file = parseAsepriteFile(
+      buildFile(3, 1, 8, [
+        {
+          duration: 100,
+          chunks: [
+            chunk(0x2019, (writer) =>
+              writer
+                .dword(3)
+                .dword(0)
+                .dword(2)
+                .zeros(8)
+                .word(0)
+                .raw(CLEAR)
+                .word(0)
+                .raw(RED)
+                .word(0)
+                .raw(BLUE),
+            ),
+            layerChunk('pixels', 1),
+            celChunk(0, 0, 0, 3, [2, 0, 1], { bytesPerPixel: 1 }),
+          ],
+        },
+      ]),
+    );
+
+    expect(Array.from(flattenAsepriteFrame(file, 0))).toEqual([...BLUE, ...CLEAR, ...RED]);
+  });
+
+  it('rejects other files', () => {
+    expect(() => parseAsepriteFile(new Uint8Array(128))).toThrow(
+      'Not an Aseprite file: wrong magic number.',
+    );
+  });
+});
+
+describe('importAsepriteFile', () => {
+  let skia: NonNullable<RenderSpriteFrameOptions['skia']>;
+
+  beforeAll(async () => {
+    // the web build declares its own copy of the Skia types
+    skia = JsiSkApi(await CanvasKitInit()) as unknown as typeof skia;
+  });
+
+  beforeEach(() => {
+    mockFs.__resetMockFileSystem();
+    configureSpriteStorage();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('lays frames out in a grid and writes the sheet', async () => {
+    const sheet = buildAsepriteSheet(parseAsepriteFile(rgbaFile));
+    expect([sheet.width, sheet.height]).toEqual([4, 1]);
+    expect(sheet.json.frames).toMatchObject([
+      { frame: { x: 0, y: 0, w: 2, h: 1 } },
+      { frame: { x: 2, y: 0, w: 2, h: 1 } },
+    ]);
+
+    jest.spyOn(Date, 'now').mockReturnValue(1000);
+    mockFs.__writeMockFile(
+      'file:///mock/documents/app_files/hero.aseprite',
+      encodeBase64(rgbaFile),
+    );
+    const data = await importAsepriteFile('file:///mock/documents/app_files/hero.aseprite', {
+      skia,
+    });
+
+    const sheetUri = 'file:///mock/documents/sprites/exports/hero-sheet-1000.png';
+    expect(data?.frames).toEqual([
+      { x: 0, y: 0, w: 2, h: 1, duration: 100, imageUri: sheetUri },
+      { x: 2, y: 0, w: 2, h: 1, duration: 200, imageUri: sheetUri },
+    ]);
+    expect(data?.animations).toEqual({ blink: [0, 1] });
+    expect(data?.animationsMeta?.blink).toEqual({
+      fps: 10,
+      multipliers: [1, 2],
+      playbackMode: 'pingpong',
+      loopCount: 2,
+    });
+    expect(data?.meta?.slices).toHaveLength(1);
+    await expect(mockFs.readAsStringAsync(sheetUri)).resolves.toMatch(/^iVBORw0KGgo/);
+  });
+});
@@ -0,0 +1,150 @@
+import {
+  importAsepriteJson,
+  isAsepriteJson,
+  type AsepriteJson,
+} from '../src/editor/utils/asepriteJson';
+import { cleanSpriteData } from '../src/editor/utils/cleanSpriteData';
+import type { SpriteData } from '../src/spriteTypes';
+
+const SHEET = 'file:///sheets/hero.png';
+
+const cell = (index: number, duration: number) => ({
+  frame: { x: index * 16, y: 0, w: 16, h: 16 },
+  rotated: false,
+  trimmed: false,
+  spriteSourceSize: { x: 0, y: 0, w: 16, h: 16 },
+  sourceSize: { w: 16, h: 16 },
+  duration,
+});
+
+const hash: AsepriteJson = {
+  frames: {
+    'hero 0.aseprite': cell(0, 100),
+    'hero 1.aseprite': cell(1, 100),
+    'hero 2.aseprite': cell(2, 200),
+    'hero 3.aseprite': {
+      frame: { x: 48, y: 0, w: 10, h: 12 },
+      trimmed: true,
+      spriteSourceSize: { x: 3, y: 4, w: 10, h: 12 },
+      sourceSize: { w: 16, h: 16 },
+      duration: 50,
+    },
+  },
+  meta: {
+    app: 'https://www.aseprite.org/',
+    version: '1.3.7',
+    image: 'hero.png',
+    frameTags: [
+      { name: 'walk', from: 0, to: 2, direction: 'forward', repeat: '3' },
+      { name: 'back', from: 0, to: 2, direction: 'reverse' },
+      { name: 'bounce', from: 1, to: 3, direction: 'pingpong', repeat: '4' },
+    ],
+    slices: [
+      {
+        name: 'hitbox',
+        color: '#0000ffff',
+        keys: [{ frame: 0, bounds: { x: 2, y: 2, w: 12, h: 14 }, pivot: { x: 6, y: 14 } }],
+      },
+    ],
+  },
+};
+
+describe('importAsepriteJson', () => {
+  it('detects Aseprite exports but not sprite data', () => {
+    expect(isAsepriteJson(hash)).toBe(true);
+    expect(isAsepriteJson({ frames: Object.values(hash.frames) })).toBe(true);
+    expect(isAsepriteJson({ frames: [{ x: 0, y: 0, w: 16, h: 16 }] })).toBe(false);
+    expect(isAsepriteJson({ frames: [] })).toBe(false);
+  });
+
+  it('maps frames, tags and durations from the hash format', () => {
+    const data = importAsepriteJson(hash, SHEET);
+
+    expect(data.frames[0]).toEqual({ x: 0, y: 0, w: 16, h: 16, duration: 100, imageUri: SHEET });
+    expect(data.frames[3]).toEqual({
+      x: 48,
+      y: 0,
+      w: 10,
+      h: 12,
+      duration: 50,
+      imageUri: SHEET,
+      sourceSize: { w: 16, h: 16 },
+      trimOffset: { x: 3, y: 4 },
+    });
+    expect(data.animations).toEqual({ walk: [0, 1, 2], back: [2, 1, 0], bounce: [1, 2, 3] });
+    expect(data.animationsMeta).toEqual({
+      walk: { fps: 10, multipliers: [1, 1, 2], loopCount: 3 },
+      back: { fps: 10, multipliers: [2, 1, 1] },
+      // every duration differs, so the first one sets the fps
+      bounce: { fps: 10, multipliers: [1, 2, 0.5], playbackMode: 'pingpong', loopCount: 2 },
+    });
+    expect(data.meta?.slices).toEqual([
+      {
+        name: 'hitbox',
+        color: '#0000ffff',
+        keys: [{ frame: 0, bounds: { x: 2, y: 2, w: 12, h: 14 }, pivot: { x: 6, y: 14 } }],
+      },
+    ]);
+  });
+
+  it('unrolls ping-pong tags with an odd repeat so they stop on the far frame', () => {
+    const data = importAsepriteJson(
+      {
+        ...hash,
+        meta: {
+          ...hash.meta,
+          frameTags: [
+            { name: 'swing', from: 1, to: 3, direction: 'pingpong', repeat: '3' },
+            { name: 'sway', from: 1, to: 3, direction: 'pingpong_reverse', repeat: '1' },
+          ],
+        },
+      },
+      SHEET,
+    );
+
+    expect(data.animations).toEqual({ swing: [1, 2, 3, 2, 1, 2, 3], sway: [3, 2, 1] });
+    expect(data.animationsMeta).toEqual({
+      swing: { fps: 5, multipliers: [0.5, 1, 0.25, 1, 0.5, 1, 0.25], loopCount: 1 },
+      sway: { fps: 20, multipliers: [1, 4, 2], loopCount: 1 },
+    });
+  });
+
+  it('reads the array format and falls back to one animation without tags', () => {
+    const json = JSON.stringify({
+      frames: [
+        { filename: 'a', ...cell(0, 40) },
+        { filename: 'b', ...cell(1, 40) },
+      ],
+      meta: { app: 'https://www.aseprite.org/', frameTags: [] },
+    });
+    const data = importAsepriteJson(json, SHEET);
+
+    expect(data.frames.map((frame) => frame.x)).toEqual([0, 16]);
+    expect(data.animations).toEqual({ default: [0, 1] });
+    expect(data.animationsMeta).toEqual({ default: { fps: 25 } });
+    expect(data).not.toHaveProperty('meta');
+  });
+
+  it('keeps the timing through cleanSpriteData', () => {
+    const cleaned = cleanSpriteData(
+      importAsepriteJson(hash, SHEET) as SpriteData & Record<string, unknown>,
+    );
+
+    expect(cleaned.frames[0]).not.toHaveProperty('duration');
+    expect(cleaned.animationsMeta?.walk).toMatchObject({ fps: 10, multipliers: [1, 1, 2] });
+    expect(cleaned.meta?.slices).toHaveLength(1);
+  });
+
+  it('rejects other JSON and tags outside the frames', () => {
+    expect(() => importAsepriteJson({ frames: [] } as AsepriteJson, SHEET)).toThrow(
+      'Not an Aseprite sprite sheet JSON',
+    );
+    const broken = {
+      ...hash,
+      meta: { frameTags: [{ name: 'run', from: 2, to: 9 }] },
+    };
+    expect(() => importAsepriteJson(broken, SHEET)).toThrow(
+      'Frame tag "run" (2-9) is outside the 4 frames.',
+    );
+  });
+});
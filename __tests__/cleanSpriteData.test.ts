@@ -38,4 +38,91 @@ describe('cleanSpriteData', () => {
     expect(result.frames).toHaveLength(0);
     expect(result.animations).toEqual({});
   });
+
+  it('keeps timeline events that fall inside the cleaned sequence', () => {
+    const result = cleanSpriteData(
+      baseData({
+        animationsMeta: {
+          idle: {
+            events: [
+              { index: 1, name: 'footstep' },
+              { index: 0, name: 'start' },
+              { index: 1, name: 'footstep' },
+              { index: 5, name: 'outOfRange' },
+              { index: 0, name: '' },
+            ],
+          },
+        },
+      }),
+    );
+
+    expect(result.animationsMeta?.idle?.events).toEqual([
+      { index: 0, name: 'start' },
+      { index: 1, name: 'footstep' },
+    ]);
+  });
+
+  it('keeps playback modes and drops invalid loop counts', () => {
+    const result = cleanSpriteData(
+      baseData({
+        animationsMeta: {
+          idle: { loop: false, playbackMode: 'pingpong', loopCount: 2.5 },
+        },
+      }),
+    );
+
+    expect(result.animationsMeta?.idle).toMatchObject({
+      loop: true,
+      playbackMode: 'pingpong',
+      loopCount: 2,
+    });
+
+    const invalid = cleanSpriteData(
+      baseData({
+        animationsMeta: {
+          idle: { playbackMode: 'bounce' as never, loopCount: 0 },
+        },
+      }),
+    );
+
+    expect(invalid.animationsMeta?.idle?.playbackMode).toBeUndefined();
+    expect(invalid.animationsMeta?.idle?.loopCount).toBeUndefined();
+  });
+
+  it('keeps loopStart only when it points inside the sequence', () => {
+    const result = cleanSpriteData(
+      baseData({
+        animationsMeta: {
+          idle: { loopStart: 1 },
+        },
+      }),
+    );
+
+    expect(result.animationsMeta?.idle?.loopStart).toBe(1);
+
+    const outOfRange = cleanSpriteData(
+      baseData({
+        animationsMeta: {
+          idle: { loopStart: 9 },
+        },
+      }),
+    );
+
+    expect(outOfRange.animationsMeta?.idle?.loopStart).toBeUndefined();
+  });
+
+  it('drops next references to missing animations', () => {
+    const result = cleanSpriteData(
+      baseData({
+        animations: { attack: [0], idle: [1] },
+        animationsMeta: {
+          attack: { loop: false, next: 'idle' },
+          idle: { next: 'missing' },
+        },
+      }),
+    );
+
+    expect(result.animationsMeta?.attack?.next).toBe('idle');
+    expect(result.animationsMeta?.idle?.next).toBeUndefined();
+  });
 });
@@ -0,0 +1,267 @@
+import CanvasKitInit from 'canvaskit-wasm';
+import { JsiSkApi } from '@shopify/react-native-skia/lib/commonjs/skia/web/JsiSkia';
+import { AlphaType, ColorType } from '@shopify/react-native-skia';
+import { encodeGif } from '../src/editor/utils/gifEncoder';
+import { renderSpriteAnimationToGif } from '../src/renderSpriteAnimation';
+import type { RenderSpriteFrameOptions } from '../src/renderSpriteFrame';
+import { createSpriteImageCache } from '../src/spriteImageCache';
+import type { SpriteFramesResource } from '../src/editor/animatedSprite2dTypes';
+
+interface DecodedGifFrame {
+  delay: number;
+  disposal: number;
+  /** RGBA per pixel, null where the frame is transparent. */
+  pixels: (number[] | null)[];
+}
+
+interface DecodedGif {
+  width: number;
+  height: number;
+  /** NETSCAPE repeat count; null without the extension. */
+  repeats: number | null;
+  frames: DecodedGifFrame[];
+}
+
+const lzwDecode = (data: number[], minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize;
+  const output: number[] = [];
+  let dictionary: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  let bitPosition = 0;
+  const reset = () => {
+    dictionary = Array.from({ length: clearCode + 2 }, (_, code) => [code]);
+    codeSize = minCodeSize + 1;
+    previous = null;
+  };
+  reset();
+  while (bitPosition + codeSize <= data.length * 8) {
+    let code = 0;
+    for (let bit = 0; bit < codeSize; bit += 1, bitPosition += 1) {
+      code |= ((data[bitPosition >> 3]! >> (bitPosition & 7)) & 1) << bit;
+    }
+    if (code === clearCode) {
+      reset();
+      continue;
+    }
+    if (code === clearCode + 1) {
+      break;
+    }
+    const entry: number[] =
+      code < dictionary.length ? dictionary[code]! : [...previous!, previous![0]!];
+    output.push(...entry);
+    if (previous) {
+      dictionary.push([...previous, entry[0]!]);
+      if (dictionary.length === 1 << codeSize && codeSize < 12) {
+        codeSize += 1;
+      }
+    }
+    previous = entry;
+  }
+  return output;
+};
+
+const decodeGif = (bytes: Uint8Array): DecodedGif => {
+  let offset = 6;
+  const byte = () => bytes[offset++]!;
+  const short = () => byte() | (byte() << 8);
+  const blocks = () => {
+    const data: number[] = [];
+    for (let size = byte(); size > 0; size = byte()) {
+      data.push(...bytes.slice(offset, offset + size));
+      offset += size;
+    }
+    return data;
+  };
+  const width = short();
+  const height = short();
+  const tableSize = 2 << (byte() & 7);
+  offset += 2;
+  const palette = Array.from(bytes.slice(offset, offset + tableSize * 3));
+  offset += tableSize * 3;
+
+  const gif: DecodedGif = { width, height, repeats: null, frames: [] };
+  let control = { delay: 0, disposal: 0, transparent: -1 };
+  for (let kind = byte(); kind !== 0x3b; kind = byte()) {
+    if (kind === 0x21) {
+      const label = byte();
+      const data = blocks();
+      if (label === 0xf9) {
+        control = {
+          delay: data[1]! | (data[2]! << 8),
+          disposal: (data[0]! >> 2) & 7,
+          transparent: data[0]! & 1 ? data[3]! : -1,
+        };
+      } else if (label === 0xff) {
+        // "NETSCAPE2.0", then the sub-block id and the repeat count
+        gif.repeats = data[12]! | (data[13]! << 8);
+      }
+      continue;
+    }
+    offset += 9;
+    const minCodeSize = byte();
+    const indices = lzwDecode(blocks(), minCodeSize);
+    gif.frames.push({
+      delay: control.delay,
+      disposal: control.disposal,
+      pixels: indices.map((index) =>
+        index === control.transparent ? null : [...palette.slice(index * 3, index * 3 + 3), 255],
+      ),
+    });
+  }
+  return gif;
+};
+
+const RED = [255, 0, 0, 255];
+const BLUE = [0, 0, 255, 255];
+const CLEAR = [0, 0, 0, 0];
+
+describe('encodeGif', () => {
+  it('round-trips frames with transparency and drift-free delays', () => {
+    const frames = [33, 33, 34].map((duration, index) => ({
+      pixels: new Uint8Array(index === 1 ? [...BLUE, ...CLEAR] : [...RED, ...BLUE]),
+      duration,
+    }));
+    const gif = decodeGif(encodeGif(frames, { width: 2, height: 1 }));
+
+    expect(gif).toMatchObject({ width: 2, height: 1, repeats: 0 });
+    expect(gif.frames.map((frame) => frame.pixels)).toEqual([
+      [RED, BLUE],
+      [BLUE, null],
+      [RED, BLUE],
+    ]);
+    // 33 + 33 + 34 ms is 10 centiseconds in total
+    expect(gif.frames.map((frame) => frame.delay)).toEqual([3, 4, 3]);
+    expect(gif.frames[0]?.disposal).toBe(2);
+  });
+
+  it('survives LZW table resets and reduces large palettes', () => {
+    const width = 128;
+    const height = 64;
+    const pixels = new Uint8Array(width * height * 4);
+    for (let index = 0; index < width * height; index += 1) {
+      pixels.set([index % 256, (index >> 7) * 4, (index * 7) % 256, 255], index * 4);
+    }
+    const gif = decodeGif(encodeGif([{ pixels, duration: 100 }], { width, height, loopCount: 1 }));
+
+    expect(gif.repeats).toBeNull();
+    expect(gif.frames[0]?.pixels).toHaveLength(width * height);
+    // thousands of distinct colors share 256 palette slots
+    const errors = gif.frames[0]!.pixels.flatMap((color, index) =>
+      [0, 1, 2].map((channel) => Math.abs(color![channel]! - pixels[index * 4 + channel]!)),
+    );
+    const meanError = errors.reduce((sum, error) => sum + error, 0) / errors.length;
+    expect(meanError).toBeLessThan(16);
+  });
+});
+
+describe('renderSpriteAnimationToGif', () => {
+  let skia: NonNullable<RenderSpriteFrameOptions['skia']>;
+
+  beforeAll(async () => {
+    // the web build declares its own copy of the Skia types
+    skia = JsiSkApi(await CanvasKitInit()) as unknown as typeof skia;
+  });
+
+  // 3×1 sheet of red, blue and transparent pixels, one frame each
+  const loadSheet = () =>
+    Promise.resolve(
+      skia.Image.MakeImage(
+        { width: 3, height: 1, colorType: ColorType.RGBA_8888, alphaType: AlphaType.Unpremul },
+        skia.Data.fromBytes(new Uint8Array([...RED, ...BLUE, ...CLEAR])),
+        12,
+      ),
+    );
+
+  const resource: SpriteFramesResource = {
+    frames: [0, 1, 2].map((x) => ({
+      id: `frame-${x}`,
+      width: 1,
+      height: 1,
+      duration: 50,
+      image: {
+        type: 'uri' as const,
+        uri: 'file:///sheet.png',
+        subset: { x, y: 0, width: 1, height: 1 },
+      },
+    })),
+    animations: { bounce: [0, 1, 2] },
+    animationsMeta: { bounce: { playbackMode: 'pingpong', loopCount: 3, multipliers: [2] } },
+  };
+
+  const renderFrames = async (meta: NonNullable<SpriteFramesResource['animationsMeta']>) => {
+    const bytes = await renderSpriteAnimationToGif(
+      { ...resource, animationsMeta: meta },
+      { cache: createSpriteImageCache({ loadImage: loadSheet }), skia },
+    );
+    const gif = decodeGif(bytes!);
+    return { repeats: gif.repeats, pixels: gif.frames.map((frame) => frame.pixels[0]) };
+  };
+
+  it('writes finite ping-pong round trips out with real frame timing', async () => {
+    const bytes = await renderSpriteAnimationToGif(resource, {
+      cache: createSpriteImageCache({ loadImage: loadSheet }),
+      skia,
+    });
+    const gif = decodeGif(bytes!);
+
+    // three round trips, then the closing frame playback stops on
+    expect(gif.repeats).toBeNull();
+    expect(gif.frames.map((frame) => frame.pixels[0])).toEqual([
+      ...[RED, BLUE, null, BLUE],
+      ...[RED, BLUE, null, BLUE],
+      ...[RED, BLUE, null, BLUE],
+      RED,
+    ]);
+    expect(gif.frames.map((frame) => frame.delay)).toEqual([
+      ...[10, 5, 5, 5],
+      ...[10, 5, 5, 5],
+      ...[10, 5, 5, 5],
+      10,
+    ]);
+
+    await expect(renderFrames({ bounce: { playbackMode: 'pingpong' } })).resolves.toEqual({
+      repeats: 0,
+      pixels: [RED, BLUE, null, BLUE],
+    });
+  });
+
+  it('writes loopStart intros of finite and endless animations', async () => {
+    await expect(renderFrames({ bounce: { loopStart: 1, loopCount: 2 } })).resolves.toEqual({
+      repeats: null,
+      pixels: [RED, BLUE, null, BLUE, null],
+    });
+    await expect(
+      renderFrames({ bounce: { playbackMode: 'pingpong', loopStart: 1, loopCount: 1 } }),
+    ).resolves.toEqual({ repeats: null, pixels: [RED, BLUE, null, BLUE] });
+    // endless animations loop the whole GIF, so the intro comes back on every loop
+    await expect(renderFrames({ bounce: { loopStart: 1 } })).resolves.toEqual({
+      repeats: 0,
+      pixels: [RED, BLUE, null],
+    });
+    await expect(
+      renderFrames({ bounce: { playbackMode: 'pingpong', loopStart: 1 } }),
+    ).resolves.toEqual({ repeats: 0, pixels: [RED, BLUE, null] });
+  });
+
+  it('fills the background, scales and plays once without looping', async () => {
+    const once: SpriteFramesResource = {
+      ...resource,
+      animationsMeta: { bounce: { loop: false } },
+    };
+    const bytes = await renderSpriteAnimationToGif(once, {
+      scale: 2,
+      background: '#00ff00',
+      pixelPerfect: true,
+      speedScale: 2,
+      cache: createSpriteImageCache({ loadImage: loadSheet }),
+      skia,
+    });
+    const gif = decodeGif(bytes!);
+
+    expect(gif).toMatchObject({ width: 2, height: 2, repeats: null });
+    expect(gif.frames[2]?.pixels).toEqual(Array(4).fill([0, 255, 0, 255]));
+    expect(gif.frames.map((frame) => frame.delay)).toEqual([3, 2, 3]);
+    expect(gif.frames[0]?.disposal).toBe(1);
+  });
+});
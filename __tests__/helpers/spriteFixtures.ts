@@ -0,0 +1,22 @@
+import type { AnimatedSpriteFrame } from '../../src/editor/animatedSprite2dTypes';
+
+// the sprite hooks only read PixelRatio, and react-native's own entry point is Flow source
+jest.mock('react-native', () => ({
+  PixelRatio: { get: () => 2, roundToNearestPixel: (size: number) => Math.round(size * 2) / 2 },
+}));
+
+/** Stand-in SkImage: a strip of three 32×32 frames. */
+export const sheet = { width: () => 96, height: () => 32 } as any;
+
+/** Frame `index` of `sheet`, shown for 100 ms. */
+export const buildFrame = (
+  index: number,
+  overrides?: Partial<AnimatedSpriteFrame>,
+): AnimatedSpriteFrame => ({
+  id: `frame-${index}`,
+  width: 32,
+  height: 32,
+  duration: 100,
+  image: { type: 'skImage', image: sheet, subset: { x: index * 32, y: 0, width: 32, height: 32 } },
+  ...overrides,
+});
@@ -0,0 +1,272 @@
+import React, { createRef } from 'react';
+import { act, create } from 'react-test-renderer';
+import { Canvas, loadData } from '@shopify/react-native-skia';
+import { buildFrame, sheet } from './helpers/spriteFixtures';
+import { SpriteNode, type SpriteNodeProps } from '../src/SpriteNode';
+import type {
+  AnimatedSprite2DHandle,
+  SpriteFramesResource,
+} from '../src/editor/animatedSprite2dTypes';
+
+const framesResource: SpriteFramesResource = {
+  frames: [buildFrame(0), buildFrame(1), buildFrame(2)],
+  animations: { attack: [0, 1, 2], idle: [2, 1] },
+  animationsMeta: {
+    attack: { loop: false, next: 'idle', events: [{ index: 1, name: 'hit' }] },
+  },
+};
+
+const DELTAS = [16, 16, 90, 3, 250, 0, 120, 33, 400];
+
+const record = () => {
+  const ref = createRef<AnimatedSprite2DHandle>();
+  const log: string[] = [];
+  let renderer!: ReturnType<typeof create>;
+  act(() => {
+    renderer = create(
+      <Canvas>
+        <SpriteNode
+          ref={ref}
+          frames={framesResource}
+          animation={undefined}
+          autoplay="attack"
+          clock="manual"
+          onFrameChanged={({ animationName, frameIndex }) =>
+            log.push(`frame ${animationName}:${frameIndex}`)
+          }
+          onAnimationEvent={({ name, timelineIndex }) => log.push(`event ${name}@${timelineIndex}`)}
+          onAnimationFinished={(name) => log.push(`finished ${name}`)}
+        />
+      </Canvas>,
+    );
+  });
+  DELTAS.forEach((delta) => {
+    act(() => {
+      ref.current?.advance(delta);
+    });
+  });
+  act(() => {
+    renderer.unmount();
+  });
+  return log;
+};
+
+const mountManual = (
+  frames: SpriteFramesResource,
+  animation: string,
+  props: Partial<SpriteNodeProps> = {},
+) => {
+  const ref = createRef<AnimatedSprite2DHandle>();
+  const log: string[] = [];
+  let renderer!: ReturnType<typeof create>;
+  act(() => {
+    renderer = create(
+      <Canvas>
+        <SpriteNode
+          ref={ref}
+          frames={frames}
+          autoplay={animation}
+          clock="manual"
+          onFrameChanged={({ animationName, frameIndex }) =>
+            log.push(`frame ${animationName}:${frameIndex}`)
+          }
+          onAnimationEvent={({ name, timelineIndex }) => log.push(`event ${name}@${timelineIndex}`)}
+          onAnimationFinished={(name) => log.push(`finished ${name}`)}
+          {...props}
+        />
+      </Canvas>,
+    );
+  });
+  return {
+    ref,
+    log,
+    /** Advances one `frameMs` step at a time and returns the frame indices that were shown. */
+    playFrames: (count: number, frameMs = 100) => {
+      const start = log.length;
+      for (let index = 0; index < count; index += 1) {
+        act(() => {
+          ref.current?.advance(frameMs);
+        });
+      }
+      return log
+        .slice(start)
+        .map((entry) => (entry.startsWith('frame ') ? Number(entry.split(':')[1]) : entry));
+    },
+    /** Advances the clock and returns what was logged meanwhile. */
+    step: (deltaMs: number) => {
+      const start = log.length;
+      act(() => {
+        ref.current?.advance(deltaMs);
+      });
+      return log.slice(start);
+    },
+    unmount: () =>
+      act(() => {
+        renderer.unmount();
+      }),
+  };
+};
+
+describe('manual clock', () => {
+  it('only advances through advance() and replays identically', () => {
+    const requestFrame = jest.spyOn(window, 'requestAnimationFrame');
+    const first = record();
+
+    expect(requestFrame).not.toHaveBeenCalled();
+    // frame changes are reported per render, so a long step only reports where it landed
+    expect(first).toEqual([
+      'frame attack:0',
+      'event hit@1',
+      'frame attack:1',
+      'finished attack',
+      'frame idle:2',
+      'frame idle:1',
+      'frame idle:2',
+    ]);
+    expect(record()).toEqual(first);
+    requestFrame.mockRestore();
+  });
+
+  it('fires every event a long step crosses, also for frames it never shows', () => {
+    const sprite = mountManual(
+      {
+        ...framesResource,
+        animations: { walk: [0, 1, 2] },
+        animationsMeta: {
+          walk: {
+            events: [
+              { index: 0, name: 'lift' },
+              { index: 1, name: 'step' },
+              { index: 2, name: 'land' },
+            ],
+          },
+        },
+      },
+      'walk',
+    );
+
+    expect(sprite.step(250)).toEqual([
+      'event lift@0',
+      'event step@1',
+      'event land@2',
+      'frame walk:2',
+    ]);
+    // wrapping around replays the markers of the next pass
+    expect(sprite.step(150)).toEqual(['event lift@0', 'event step@1', 'frame walk:1']);
+    expect(sprite.step(250)).toEqual(['event land@2', 'event lift@0', 'frame walk:0']);
+    sprite.unmount();
+  });
+
+  it('bounces ping-pong animations and stops after loopCount round trips', () => {
+    const strip: SpriteFramesResource = {
+      frames: [0, 1, 2, 3].map((index) => buildFrame(index)),
+      animations: { bounce: [0, 1, 2, 3] },
+      animationsMeta: { bounce: { playbackMode: 'pingpong', loopCount: 2 } },
+    };
+    const sprite = mountManual(strip, 'bounce');
+
+    expect(sprite.log).toEqual(['frame bounce:0']);
+    expect(sprite.playFrames(14)).toEqual([1, 2, 3, 2, 1, 0, 1, 2, 3, 2, 1, 0, 'finished bounce']);
+    // the animation holds its first frame once finished
+    expect(sprite.playFrames(3)).toEqual([]);
+    sprite.unmount();
+
+    const reversed = mountManual(strip, 'bounce', { direction: 'reverse' });
+    expect(reversed.log).toEqual(['frame bounce:3']);
+    expect(reversed.playFrames(7)).toEqual([2, 1, 0, 1, 2, 3, 2]);
+    reversed.unmount();
+  });
+
+  it('plays the intro once and repeats from loopStart', () => {
+    const strip: SpriteFramesResource = {
+      frames: [0, 1, 2, 3, 4].map((index) => buildFrame(index)),
+      animations: { charge: [0, 1, 2, 3, 4] },
+      animationsMeta: { charge: { loopStart: 2 } },
+    };
+    const sprite = mountManual(strip, 'charge');
+    expect(sprite.playFrames(10)).toEqual([1, 2, 3, 4, 2, 3, 4, 2, 3, 4]);
+    sprite.unmount();
+
+    const counted = mountManual(
+      { ...strip, animationsMeta: { charge: { loopStart: 2, loopCount: 2 } } },
+      'charge',
+    );
+    expect(counted.playFrames(9)).toEqual([1, 2, 3, 4, 2, 3, 4, 'finished charge']);
+    counted.unmount();
+  });
+
+  it('holds playback while the frame images load', async () => {
+    let finishLoading!: (image: unknown) => void;
+    (loadData as jest.Mock).mockImplementationOnce(
+      () =>
+        new Promise((resolve) => {
+          finishLoading = resolve;
+        }),
+    );
+    const sprite = mountManual(
+      {
+        frames: [0, 1].map((index) => ({
+          ...buildFrame(index),
+          image: { type: 'uri' as const, uri: 'file:///loading-sheet.png' },
+        })),
+        animations: { intro: [0, 1] },
+        animationsMeta: { intro: { loop: false } },
+      },
+      'intro',
+      { placeholder: null },
+    );
+
+    // a once animation would have finished by now if it played behind the placeholder
+    expect(sprite.step(500)).toEqual([]);
+    await act(async () => {
+      finishLoading(sheet);
+    });
+
+    expect(sprite.step(100)).toEqual(['frame intro:1']);
+    expect(sprite.step(100)).toEqual(['finished intro']);
+    sprite.unmount();
+  });
+
+  describe('queues', () => {
+    const moves: SpriteFramesResource = {
+      frames: [0, 1, 2, 3].map((index) => buildFrame(index)),
+      animations: { walk: [0, 1], jump: [2, 3], idle: [0] },
+      animationsMeta: { jump: { loop: false, next: 'walk' } },
+    };
+
+    it('hands a looping animation to the queued one at the end of its pass', () => {
+      const sprite = mountManual(moves, 'walk');
+      sprite.step(50);
+      act(() => {
+        sprite.ref.current?.queue('jump');
+      });
+
+      expect(sprite.step(50)).toEqual(['frame walk:1']);
+      expect(sprite.step(100)).toEqual(['frame jump:2']);
+      expect(sprite.step(100)).toEqual(['frame jump:3']);
+      // onAnimationFinished runs before next takes over, within the same step
+      expect(sprite.step(100)).toEqual(['finished jump', 'frame walk:0']);
+      sprite.unmount();
+    });
+
+    it('plays sequences back to back and drops them on clearQueue', () => {
+      const sprite = mountManual(moves, 'walk');
+      act(() => {
+        sprite.ref.current?.playSequence(['jump', 'idle']);
+      });
+      expect(sprite.log).toEqual(['frame walk:0', 'frame jump:2']);
+      expect(sprite.step(100)).toEqual(['frame jump:3']);
+      // the queued animation wins over next and starts without an idle frame
+      expect(sprite.step(100)).toEqual(['finished jump', 'frame idle:0']);
+      expect(sprite.step(300)).toEqual([]);
+
+      act(() => {
+        sprite.ref.current?.playSequence(['jump', 'idle']);
+        sprite.ref.current?.clearQueue();
+      });
+      expect(sprite.log[sprite.log.length - 1]).toBe('frame jump:2');
+      expect(sprite.step(200)).toEqual(['finished jump', 'frame walk:0']);
+      sprite.unmount();
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  extractPaletteFromImage,
+  extractPaletteFromPixels,
+  normalizePaletteMeta,
+  rebasePaletteVariants,
+  resolvePaletteSwap,
+} from '../src/editor/utils/palette';
+import { resolveSpriteEffect } from '../src/SpriteEffectStack';
+
+const pixel = (r: number, g: number, b: number, a = 255) => [r, g, b, a];
+
+describe('extractPaletteFromPixels', () => {
+  it('orders opaque colors by frequency and skips translucent pixels', () => {
+    const pixels = [
+      ...pixel(255, 0, 0),
+      ...pixel(0, 0, 255),
+      ...pixel(0, 0, 255),
+      ...pixel(0, 255, 0, 128),
+      ...pixel(0, 0, 0, 0),
+    ];
+
+    expect(extractPaletteFromPixels(pixels)).toEqual(['#0000ff', '#ff0000']);
+    expect(extractPaletteFromPixels(pixels, { maxColors: 1 })).toEqual(['#0000ff']);
+  });
+
+  it('reads unpremultiplied RGBA pixels from Skia images', () => {
+    const readPixels = jest.fn(() => new Uint8Array(pixel(18, 52, 86)));
+    const image = { width: () => 1, height: () => 1, readPixels } as any;
+
+    expect(extractPaletteFromImage(image)).toEqual(['#123456']);
+    expect(readPixels).toHaveBeenCalledWith(0, 0, expect.objectContaining({ alphaType: 3 }));
+    expect(extractPaletteFromImage({ ...image, readPixels: () => null })).toEqual([]);
+  });
+});
+
+describe('palette meta', () => {
+  const meta = {
+    source: ['#000000', '#ffffff'],
+    variants: { red: ['#ff0000'], broken: ['red'] },
+  };
+
+  it('drops malformed variants and fills missing colors from the source', () => {
+    expect(normalizePaletteMeta(meta)?.variants).toEqual({ red: ['#ff0000'] });
+    expect(normalizePaletteMeta({ source: 'nope' })).toBeNull();
+    expect(resolvePaletteSwap(meta, 'red')).toEqual({
+      source: ['#000000', '#ffffff'],
+      target: ['#ff0000', '#ffffff'],
+    });
+    expect(resolvePaletteSwap(meta, 'missing')).toBeNull();
+  });
+
+  it('keeps replacements for colors that survive a new extraction', () => {
+    const palettes = normalizePaletteMeta(meta);
+    expect(rebasePaletteVariants(palettes, ['#ffffff', '#000000', '#00ff00'])).toEqual({
+      source: ['#ffffff', '#000000', '#00ff00'],
+      variants: { red: ['#ffffff', '#ff0000', '#00ff00'] },
+    });
+  });
+
+  it('pads the palette shader uniforms to the fixed array length', () => {
+    const resolved = resolveSpriteEffect({
+      type: 'palette',
+      source: ['#000000', '#ffffff'],
+      target: ['#ff0000'],
+    });
+    expect(resolved.kind).toBe('shader');
+    const uniforms = resolved.kind === 'shader' ? (resolved.uniforms as any) : null;
+    expect(uniforms.count).toBe(1);
+    expect(uniforms.targetColors).toHaveLength(32);
+    expect(uniforms.targetColors.slice(0, 2)).toEqual([
+      [1, 0, 0, 1],
+      [0, 0, 0, 0],
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+import React, { createRef } from 'react';
+import { act, create, type ReactTestRenderer } from 'react-test-renderer';
+import { Canvas } from '@shopify/react-native-skia';
+import { buildFrame } from './helpers/spriteFixtures';
+import { SpriteNode } from '../src/SpriteNode';
+import {
+  computeSequenceDurations,
+  computeTimelineElapsed,
+  measureTimeline,
+  resolveTimelinePlayback,
+  resolveTimelineTime,
+} from '../src/editor/hooks/animatedSprite2d/helpers';
+import type {
+  AnimatedSprite2DHandle,
+  SpriteFramesResource,
+} from '../src/editor/animatedSprite2dTypes';
+
+const buildResource = (meta: NonNullable<SpriteFramesResource['animationsMeta']>[string]) => ({
+  frames: [buildFrame(0), buildFrame(1), buildFrame(2)],
+  // frame 0 appears twice, so seekFrame(0) could not reach the third slot
+  animations: { walk: [0, 1, 0, 2] },
+  animationsMeta: { walk: { multipliers: [1, 2, 1, 1], ...meta } },
+});
+
+const timeline = (resource: SpriteFramesResource) => {
+  const sequence = resource.animations.walk!;
+  return {
+    durations: computeSequenceDurations(resource, 'walk', sequence, 'forward', 1),
+    playback: resolveTimelinePlayback(resource, 'walk', sequence.length, 'forward'),
+  };
+};
+
+describe('timeline timing helpers', () => {
+  it('maps times to slots across loops and back', () => {
+    const { durations, playback } = timeline(buildResource({}));
+    expect(durations).toEqual([100, 200, 100, 100]);
+    expect(measureTimeline(durations, playback)).toEqual({ firstPass: 500, cycle: 500, end: null });
+
+    const state = resolveTimelineTime(durations, playback, 1250);
+    expect(state).toEqual({ cursor: 1, step: 1, iteration: 2, accumulator: 150, finished: false });
+    expect(computeTimelineElapsed(durations, playback, state)).toBe(1250);
+  });
+
+  it('counts ping-pong round trips and rests on the end once finished', () => {
+    const { durations, playback } = timeline(
+      buildResource({ playbackMode: 'pingpong', loopCount: 2 }),
+    );
+    expect(measureTimeline(durations, playback)).toEqual({ firstPass: 900, cycle: 800, end: 1700 });
+
+    const returning = resolveTimelineTime(durations, playback, 1350);
+    expect(returning).toMatchObject({ cursor: 2, step: -1, iteration: 1, accumulator: 50 });
+    expect(computeTimelineElapsed(durations, playback, returning)).toBe(1350);
+
+    const finished = resolveTimelineTime(durations, playback, 5000);
+    expect(finished).toMatchObject({ cursor: 0, iteration: 2, finished: true });
+    expect(computeTimelineElapsed(durations, playback, finished)).toBe(1700);
+  });
+});
+
+describe('playback position', () => {
+  let frameCallbacks: FrameRequestCallback[] = [];
+
+  beforeEach(() => {
+    frameCallbacks = [];
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((callback) => {
+      frameCallbacks.push(callback);
+      return frameCallbacks.length;
+    });
+    jest.spyOn(window, 'cancelAnimationFrame').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const flushFrame = (timestamp: number) => {
+    const due = frameCallbacks;
+    frameCallbacks = [];
+    act(() => {
+      due.forEach((callback) => callback(timestamp));
+    });
+  };
+
+  it('reports progress and seeks by time or timeline index', () => {
+    const ref = createRef<AnimatedSprite2DHandle>();
+    const onProgress = jest.fn();
+    let renderer!: ReactTestRenderer;
+    act(() => {
+      renderer = create(
+        <Canvas>
+          <SpriteNode ref={ref} frames={buildResource({})} onProgress={onProgress} />
+        </Canvas>,
+      );
+    });
+
+    flushFrame(0);
+    flushFrame(350);
+    expect(onProgress).toHaveBeenLastCalledWith({
+      animationName: 'walk',
+      cursor: 2,
+      elapsed: 350,
+      total: 500,
+      iteration: 0,
+    });
+
+    act(() => {
+      ref.current?.seekTime(1250);
+    });
+    expect(ref.current?.isPlaying()).toBe(false);
+    expect(ref.current?.getPlaybackPosition()).toMatchObject({
+      cursor: 1,
+      elapsed: 1250,
+      iteration: 2,
+    });
+
+    act(() => {
+      ref.current?.seekCursor(2);
+    });
+    expect(ref.current?.getPlaybackPosition()).toMatchObject({ cursor: 2, elapsed: 300 });
+    act(() => {
+      renderer.unmount();
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import CanvasKitInit from 'canvaskit-wasm';
+import { JsiSkApi } from '@shopify/react-native-skia/lib/commonjs/skia/web/JsiSkia';
+import { AlphaType, ColorType, type SkImage } from '@shopify/react-native-skia';
+import { renderSpriteFrameToImage, type RenderSpriteFrameOptions } from '../src/renderSpriteFrame';
+import { createSpriteImageCache } from '../src/spriteImageCache';
+import type { SpriteFramesResource } from '../src/editor/animatedSprite2dTypes';
+
+const RED = [255, 0, 0, 255];
+const BLUE = [0, 0, 255, 255];
+const GREEN = [0, 255, 0, 255];
+const WHITE = [255, 255, 255, 255];
+
+let skia: NonNullable<RenderSpriteFrameOptions['skia']>;
+
+beforeAll(async () => {
+  // the web build declares its own copy of the Skia types
+  skia = JsiSkApi(await CanvasKitInit()) as unknown as typeof skia;
+});
+
+const readPixels = (image: SkImage) => {
+  const pixels = image.readPixels(0, 0, {
+    width: image.width(),
+    height: image.height(),
+    colorType: ColorType.RGBA_8888,
+    alphaType: AlphaType.Unpremul,
+  }) as Uint8Array;
+  return Array.from({ length: pixels.length / 4 }, (_, index) =>
+    Array.from(pixels.slice(index * 4, index * 4 + 4)),
+  );
+};
+
+const sheetSource = { type: 'uri' as const, uri: 'file:///sheet.png' };
+
+const resource: SpriteFramesResource = {
+  frames: [
+    {
+      id: 'strip',
+      width: 2,
+      height: 1,
+      image: { ...sheetSource, subset: { x: 0, y: 0, width: 2, height: 1 } },
+    },
+    {
+      id: 'dot',
+      width: 1,
+      height: 1,
+      image: { ...sheetSource, subset: { x: 0, y: 1, width: 1, height: 1 } },
+    },
+  ],
+  animations: { blink: [0, 1] },
+};
+
+// 2×2 sheet: a red/blue strip on top, a green pixel below it
+const loadSheet = () =>
+  Promise.resolve(
+    skia.Image.MakeImage(
+      { width: 2, height: 2, colorType: ColorType.RGBA_8888, alphaType: AlphaType.Unpremul },
+      skia.Data.fromBytes(new Uint8Array([...RED, ...BLUE, ...GREEN, 0, 0, 0, 0])),
+      8,
+    ),
+  );
+
+describe('renderSpriteFrameToImage', () => {
+  it('draws the frame subset with flips through the image cache', async () => {
+    const loadImage = jest.fn(loadSheet);
+    const cache = createSpriteImageCache({ loadImage });
+
+    const plain = await renderSpriteFrameToImage(resource, { animation: 'blink', cache, skia });
+    expect(readPixels(plain!)).toEqual([RED, BLUE]);
+
+    const flipped = await renderSpriteFrameToImage(resource, { flipH: true, cache, skia });
+    expect(readPixels(flipped!)).toEqual([BLUE, RED]);
+    expect(loadImage).toHaveBeenCalledTimes(1);
+  });
+
+  it('centers smaller frames, scales and fills the background', async () => {
+    // cursors past the end clamp to the last slot
+    const image = await renderSpriteFrameToImage(resource, {
+      cursor: 9,
+      scale: 2,
+      background: 'white',
+      pixelPerfect: true,
+      cache: createSpriteImageCache({ loadImage: loadSheet }),
+      skia,
+    });
+    expect(image?.width()).toBe(4);
+    expect(readPixels(image!)).toEqual([WHITE, GREEN, GREEN, WHITE, WHITE, GREEN, GREEN, WHITE]);
+  });
+
+  it('places trimmed frames inside their untrimmed box', async () => {
+    // the dot was trimmed from the right half of a 2×1 frame
+    const trimmed: SpriteFramesResource = {
+      frames: [
+        resource.frames[0]!,
+        { ...resource.frames[1]!, sourceSize: { width: 2, height: 1 }, trimOffset: { x: 1, y: 0 } },
+      ],
+      animations: {},
+    };
+    const cache = createSpriteImageCache({ loadImage: loadSheet });
+
+    const image = await renderSpriteFrameToImage(trimmed, { cursor: 1, cache, skia });
+    expect(readPixels(image!)).toEqual([[0, 0, 0, 0], GREEN]);
+    const flipped = await renderSpriteFrameToImage(trimmed, {
+      cursor: 1,
+      flipH: true,
+      cache,
+      skia,
+    });
+    expect(readPixels(flipped!)).toEqual([GREEN, [0, 0, 0, 0]]);
+  });
+
+  it('encodes PNG bytes and resolves to null without an image', async () => {
+    const cache = createSpriteImageCache({ loadImage: loadSheet });
+    const png = await renderSpriteFrameToImage(resource, { format: 'png', cache, skia });
+    expect(Array.from(png!.slice(0, 4))).toEqual([0x89, 0x50, 0x4e, 0x47]);
+
+    const missing = createSpriteImageCache({ loadImage: () => Promise.resolve(null) });
+    await expect(renderSpriteFrameToImage(resource, { cache: missing, skia })).resolves.toBeNull();
+    await expect(
+      renderSpriteFrameToImage({ frames: [], animations: {} }, { skia }),
+    ).resolves.toBeNull();
+  });
+});
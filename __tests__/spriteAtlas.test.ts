@@ -0,0 +1,162 @@
+import CanvasKitInit from 'canvaskit-wasm';
+import { JsiSkApi } from '@shopify/react-native-skia/lib/commonjs/skia/web/JsiSkia';
+import { AlphaType, ColorType, type SkImage } from '@shopify/react-native-skia';
+import { packRects, type RectSize } from '../src/editor/utils/maxRects';
+import { renderSpriteAtlas } from '../src/renderSpriteAtlas';
+import type { RenderSpriteFrameOptions } from '../src/renderSpriteFrame';
+import { createSpriteImageCache, type CacheableFrameImageSource } from '../src/spriteImageCache';
+import { packSpriteAtlas } from '../src/storage/spriteAtlas';
+import { configureSpriteStorage } from '../src/storage/spriteStorage';
+import type { SpriteData } from '../src/spriteTypes';
+
+jest.mock('expo-file-system/legacy');
+
+const mockFs = jest.requireMock(
+  'expo-file-system/legacy',
+) as typeof import('../__mocks__/expo-file-system/legacy');
+
+const RED = [255, 0, 0, 255];
+const BLUE = [0, 0, 255, 255];
+const GREEN = [0, 255, 0, 255];
+const CLEAR = [0, 0, 0, 0];
+
+describe('packRects', () => {
+  it('packs into the smallest power-of-two sheet without overlaps', () => {
+    const sizes: RectSize[] = [
+      { width: 10, height: 20 },
+      { width: 30, height: 6 },
+      { width: 8, height: 8 },
+      { width: 16, height: 5 },
+      { width: 3, height: 12 },
+      { width: 12, height: 12 },
+    ];
+    const { sheets, rects } = packRects(sizes, { padding: 1 });
+
+    expect(sheets).toEqual([{ width: 32, height: 32 }]);
+    rects.forEach((rect, index) => {
+      const size = sizes[index]!;
+      expect(rect.x + size.width).toBeLessThanOrEqual(32);
+      expect(rect.y + size.height).toBeLessThanOrEqual(32);
+      rects.slice(index + 1).forEach((other, offset) => {
+        const otherSize = sizes[index + offset + 1]!;
+        // padded rects must not touch
+        const apart =
+          rect.x + size.width + 1 <= other.x ||
+          other.x + otherSize.width + 1 <= rect.x ||
+          rect.y + size.height + 1 <= other.y ||
+          other.y + otherSize.height + 1 <= rect.y;
+        expect(apart).toBe(true);
+      });
+    });
+  });
+
+  it('spills into more sheets and rejects rects bigger than maxSize', () => {
+    const tiles = Array.from({ length: 5 }, () => ({ width: 16, height: 16 }));
+    const { sheets, rects } = packRects(tiles, { maxSize: 32 });
+
+    expect(sheets).toEqual([
+      { width: 32, height: 32 },
+      { width: 16, height: 16 },
+    ]);
+    expect(rects.filter((rect) => rect.sheet === 0)).toHaveLength(4);
+    expect(() => packRects([{ width: 40, height: 8 }], { maxSize: 32 })).toThrow(
+      'Rect 0 (40×8) does not fit in a 32 atlas.',
+    );
+  });
+});
+
+describe('sprite atlases', () => {
+  let skia: NonNullable<RenderSpriteFrameOptions['skia']>;
+
+  beforeAll(async () => {
+    // the web build declares its own copy of the Skia types
+    skia = JsiSkApi(await CanvasKitInit()) as unknown as typeof skia;
+  });
+
+  beforeEach(() => {
+    mockFs.__resetMockFileSystem();
+    configureSpriteStorage();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const makeImage = (width: number, height: number, pixels: number[][]) =>
+    skia.Image.MakeImage(
+      { width, height, colorType: ColorType.RGBA_8888, alphaType: AlphaType.Unpremul },
+      skia.Data.fromBytes(new Uint8Array(pixels.flat())),
+      width * 4,
+    );
+
+  // a red dot with a transparent border, and a blue/green strip
+  const loadImage = (source: CacheableFrameImageSource) =>
+    Promise.resolve(
+      source.type === 'uri' && source.uri === 'file:///dot.png'
+        ? makeImage(3, 3, [CLEAR, CLEAR, CLEAR, CLEAR, RED, CLEAR, CLEAR, CLEAR, CLEAR])
+        : makeImage(2, 1, [BLUE, GREEN]),
+    );
+
+  const data: SpriteData = {
+    frames: [
+      { x: 0, y: 0, w: 3, h: 3, imageUri: 'file:///dot.png' },
+      { x: 0, y: 0, w: 1, h: 1, imageUri: 'file:///strip.png' },
+      { x: 1, y: 0, w: 1, h: 1, imageUri: 'file:///strip.png' },
+      { x: 0, y: 0, w: 1, h: 1, imageUri: 'file:///strip.png', duration: 200 },
+    ],
+    animations: { idle: [0, 1, 2, 3] },
+  };
+
+  const readPixel = (image: SkImage, x: number, y: number) =>
+    Array.from(
+      image.readPixels(x, y, {
+        width: 1,
+        height: 1,
+        colorType: ColorType.RGBA_8888,
+        alphaType: AlphaType.Unpremul,
+      }) as Uint8Array,
+    );
+
+  it('trims frames and copies shared rects once', async () => {
+    const atlas = await renderSpriteAtlas(data, {
+      trim: true,
+      padding: 0,
+      cache: createSpriteImageCache({ loadImage }),
+      skia,
+    });
+
+    expect(atlas?.sheets.map((sheet) => [sheet.width(), sheet.height()])).toEqual([[2, 2]]);
+    const [dot, blue, green, blueAgain] = atlas!.frames;
+    expect(dot).toMatchObject({
+      w: 1,
+      h: 1,
+      sourceSize: { w: 3, h: 3 },
+      trimOffset: { x: 1, y: 1 },
+    });
+    expect(blue).not.toHaveProperty('trimOffset');
+    expect(blueAgain).toEqual({ ...blue, duration: 200 });
+    expect(
+      [dot, blue, green].map((frame) => readPixel(atlas!.sheets[0]!, frame!.x, frame!.y)),
+    ).toEqual([RED, BLUE, GREEN]);
+  });
+
+  it('writes the sheets and points every frame at them', async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const packed = await packSpriteAtlas(data, {
+      name: 'hero',
+      cache: createSpriteImageCache({ loadImage }),
+      skia,
+    });
+
+    const sheetUri = 'file:///mock/documents/sprites/exports/hero-atlas-1000/sheet_0.png';
+    expect(packed?.animations).toEqual(data.animations);
+    expect(packed?.frames.map((frame) => frame.imageUri)).toEqual(Array(4).fill(sheetUri));
+    // untrimmed frames keep their size
+    expect(packed?.frames[0]).toMatchObject({ w: 3, h: 3 });
+    expect(packed?.frames[0]).not.toHaveProperty('sourceSize');
+    await expect(mockFs.readAsStringAsync(sheetUri)).resolves.toMatch(/^iVBORw0KGgo/);
+
+    const missing = { frames: [{ x: 0, y: 0, w: 1, h: 1 }] };
+    await expect(packSpriteAtlas(missing, { skia })).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,149 @@
+import CanvasKitInit from 'canvaskit-wasm';
+import { JsiSkApi } from '@shopify/react-native-skia/lib/commonjs/skia/web/JsiSkia';
+import { JsiSkCanvas } from '@shopify/react-native-skia/lib/commonjs/skia/web/JsiSkCanvas';
+import { AlphaType, ColorType, type SkImage } from '@shopify/react-native-skia';
+import { renderSpriteContactSheet } from '../src/renderSpriteAnimation';
+import type { RenderSpriteFrameOptions } from '../src/renderSpriteFrame';
+import { createSpriteImageCache } from '../src/spriteImageCache';
+import { exportSpriteContactSheet, exportSpritePngSequence } from '../src/storage/spriteExport';
+import { configureSpriteStorage } from '../src/storage/spriteStorage';
+import { buildAnimatedSpriteFrames } from '../src/editor/utils/buildAnimatedSpriteFrames';
+import type { SpriteEditorState } from '../src/editor/types';
+
+jest.mock('expo-file-system/legacy');
+
+const mockFs = jest.requireMock(
+  'expo-file-system/legacy',
+) as typeof import('../__mocks__/expo-file-system/legacy');
+
+const RED = [255, 0, 0, 255];
+const BLUE = [0, 0, 255, 255];
+const GREEN = [0, 255, 0, 255];
+const WHITE = [255, 255, 255, 255];
+
+let skia: NonNullable<RenderSpriteFrameOptions['skia']>;
+
+beforeAll(async () => {
+  // the web build declares its own copy of the Skia types
+  skia = JsiSkApi(await CanvasKitInit()) as unknown as typeof skia;
+});
+
+beforeEach(() => {
+  mockFs.__resetMockFileSystem();
+  configureSpriteStorage();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const readRow = (image: SkImage, y: number) => {
+  const pixels = image.readPixels(0, y, {
+    width: image.width(),
+    height: 1,
+    colorType: ColorType.RGBA_8888,
+    alphaType: AlphaType.Unpremul,
+  }) as Uint8Array;
+  return Array.from({ length: pixels.length / 4 }, (_, index) =>
+    Array.from(pixels.slice(index * 4, index * 4 + 4)),
+  );
+};
+
+// 2×2 sheet: a red/blue strip on top, a green pixel below it
+const loadSheet = () =>
+  Promise.resolve(
+    skia.Image.MakeImage(
+      { width: 2, height: 2, colorType: ColorType.RGBA_8888, alphaType: AlphaType.Unpremul },
+      skia.Data.fromBytes(new Uint8Array([...RED, ...BLUE, ...GREEN, 0, 0, 0, 0])),
+      8,
+    ),
+  );
+
+const state: SpriteEditorState = {
+  frames: [
+    { id: 'strip', x: 0, y: 0, w: 2, h: 1, imageUri: 'file:///sheet.png' },
+    { id: 'dot', x: 0, y: 1, w: 1, h: 1, imageUri: 'file:///sheet.png' },
+  ],
+  animations: { blink: [0, 1], idle: [1] },
+  selected: [],
+  meta: {},
+  clipboard: [],
+  history: [],
+  future: [],
+};
+
+describe('renderSpriteContactSheet', () => {
+  it('lays out one labeled row per animation in shared cells', async () => {
+    const drawText = jest.spyOn(JsiSkCanvas.prototype, 'drawText');
+    const sheet = await renderSpriteContactSheet(buildAnimatedSpriteFrames(state)!, {
+      scale: 2,
+      padding: 2,
+      pixelPerfect: true,
+      font: skia.Font(undefined, 4),
+      cache: createSpriteImageCache({ loadImage: loadSheet }),
+      skia,
+    });
+
+    // 4×2 cells, a 5px label band and 2px gaps
+    expect([sheet?.width(), sheet?.height()]).toEqual([14, 20]);
+    expect(drawText.mock.calls.map(([text, x, y]) => [text, x, y])).toEqual([
+      ['blink', 2, 6],
+      ['idle', 2, 15],
+    ]);
+    const cells = (y: number) => readRow(sheet!, y).slice(2, 12);
+    expect(cells(7)).toEqual([RED, RED, BLUE, BLUE, WHITE, WHITE, WHITE, GREEN, GREEN, WHITE]);
+    expect(cells(16)).toEqual([WHITE, GREEN, GREEN, WHITE, ...Array(6).fill(WHITE)]);
+  });
+
+  it('shows every frame in one unlabeled row without animations', async () => {
+    const drawText = jest.spyOn(JsiSkCanvas.prototype, 'drawText');
+    const sheet = await renderSpriteContactSheet(
+      buildAnimatedSpriteFrames({ ...state, animations: {} })!,
+      {
+        padding: 0,
+        background: null,
+        cache: createSpriteImageCache({ loadImage: loadSheet }),
+        skia,
+      },
+    );
+
+    expect(drawText).not.toHaveBeenCalled();
+    expect([sheet?.width(), sheet?.height()]).toEqual([4, 1]);
+    expect(readRow(sheet!, 0).slice(0, 2)).toEqual([RED, BLUE]);
+  });
+});
+
+describe('spriteExport', () => {
+  it('writes every timeline step as a PNG into the exports directory', async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const result = await exportSpritePngSequence(state, {
+      name: 'Hero sprite',
+      cache: createSpriteImageCache({ loadImage: loadSheet }),
+      skia,
+    });
+
+    const directory = 'file:///mock/documents/sprites/exports/Hero_sprite-1000/';
+    expect(result).toEqual({
+      directory,
+      files: ['blink_000.png', 'blink_001.png', 'idle_000.png'].map((file) => directory + file),
+    });
+    // base64 of the PNG signature
+    await expect(mockFs.readAsStringAsync(result!.files[0]!)).resolves.toMatch(/^iVBORw0KGgo/);
+  });
+
+  it('writes a contact sheet and skips frames without images', async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const uri = await exportSpriteContactSheet(state, {
+      font: skia.Font(undefined, 4),
+      cache: createSpriteImageCache({ loadImage: loadSheet }),
+      skia,
+    });
+
+    expect(uri).toBe('file:///mock/documents/sprites/exports/sprite-contact-sheet-1000.png');
+    await expect(mockFs.readAsStringAsync(uri!)).resolves.toMatch(/^iVBORw0KGgo/);
+
+    const unsaved = { ...state, frames: [{ id: 'blank', x: 0, y: 0, w: 1, h: 1 }] };
+    await expect(exportSpritePngSequence(unsaved, { skia })).resolves.toBeNull();
+    await expect(exportSpriteContactSheet(unsaved, { skia })).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  createSpriteImageCache,
+  isSpriteResourceCached,
+  preloadSpriteResource,
+} from '../src/spriteImageCache';
+import type { SpriteFramesResource } from '../src/editor/animatedSprite2dTypes';
+
+const makeImage = (width: number, height: number) =>
+  ({ width: () => width, height: () => height }) as any;
+
+const uri = (name: string) => ({ type: 'uri' as const, uri: `file:///${name}.png` });
+
+describe('createSpriteImageCache', () => {
+  it('evicts least recently used images once the byte budget is exceeded', async () => {
+    const cache = createSpriteImageCache({
+      maxBytes: 2 * 10 * 10 * 4,
+      loadImage: () => Promise.resolve(makeImage(10, 10)),
+    });
+
+    await cache.load(uri('a'));
+    await cache.load(uri('b'));
+    expect(cache.get(uri('a'))).not.toBeNull();
+    await cache.load(uri('c'));
+
+    expect(cache.has(uri('a'))).toBe(true);
+    expect(cache.has(uri('b'))).toBe(false);
+    expect(cache.has(uri('c'))).toBe(true);
+    expect(cache.getStats()).toEqual({ entries: 2, bytes: 800, maxBytes: 800 });
+  });
+
+  it('keeps retained images and shares in-flight requests', async () => {
+    const loadImage = jest.fn(() => Promise.resolve(makeImage(10, 10)));
+    const cache = createSpriteImageCache({ maxBytes: 400, loadImage });
+
+    const [first, second] = await Promise.all([cache.load(uri('a')), cache.load(uri('a'))]);
+    expect(first).toBe(second);
+    expect(loadImage).toHaveBeenCalledTimes(1);
+
+    const release = cache.retain(uri('a'));
+    await cache.load(uri('b'));
+    expect(cache.has(uri('a'))).toBe(true);
+    expect(cache.has(uri('b'))).toBe(false);
+
+    release();
+    await cache.load(uri('b'));
+    expect(cache.has(uri('a'))).toBe(false);
+    expect(cache.has(uri('b'))).toBe(true);
+  });
+});
+
+describe('preloadSpriteResource', () => {
+  it('loads each distinct image once and reports failures', async () => {
+    const loadImage = jest.fn((source: { type: string; uri?: string }) =>
+      Promise.resolve(source.uri?.includes('missing') ? null : makeImage(4, 4)),
+    );
+    const cache = createSpriteImageCache({ loadImage });
+    const resource: SpriteFramesResource = {
+      frames: [
+        { id: '0', width: 4, height: 4, image: uri('sheet') },
+        { id: '1', width: 4, height: 4, image: uri('sheet') },
+        { id: '2', width: 4, height: 4, image: { type: 'require', assetId: 7 } },
+      ],
+      animations: {},
+    };
+
+    expect(isSpriteResourceCached(resource, cache)).toBe(false);
+    await expect(preloadSpriteResource(resource, cache)).resolves.toBe(true);
+    expect(loadImage).toHaveBeenCalledTimes(2);
+    expect(isSpriteResourceCached(resource, cache)).toBe(true);
+
+    const broken = { ...resource, frames: [{ ...resource.frames[0]!, image: uri('missing') }] };
+    await expect(preloadSpriteResource(broken, cache)).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+import React from 'react';
+import { act, create, type ReactTestRenderer } from 'react-test-renderer';
+import type { SpriteFramesResource } from '../src/editor/animatedSprite2dTypes';
+import { useSpriteResourceReady } from '../src/hooks/useSpriteResourceReady';
+import { createSpriteImageCache, type SpriteImageCacheInstance } from '../src/spriteImageCache';
+
+const makeImage = (width: number, height: number) =>
+  ({ width: () => width, height: () => height }) as any;
+
+const uri = (name: string) => ({ type: 'uri' as const, uri: `file:///${name}.png` });
+
+const resource: SpriteFramesResource = {
+  frames: [
+    { id: '0', width: 10, height: 10, image: uri('a') },
+    { id: '1', width: 10, height: 10, image: uri('b') },
+  ],
+  animations: {},
+};
+
+const readyStates: boolean[] = [];
+
+const Probe = ({ cache }: { cache: SpriteImageCacheInstance }) => {
+  readyStates.push(useSpriteResourceReady(resource, { cache }));
+  return null;
+};
+
+describe('useSpriteResourceReady', () => {
+  let renderer: ReactTestRenderer | null = null;
+
+  beforeEach(() => {
+    readyStates.length = 0;
+  });
+
+  afterEach(() => {
+    act(() => {
+      renderer?.unmount();
+    });
+    renderer = null;
+  });
+
+  it('keeps a resource cached at mount ready when the cache trims', async () => {
+    const loadImage = jest.fn(() => Promise.resolve(makeImage(10, 10)));
+    const cache = createSpriteImageCache({ loadImage });
+    await cache.load(uri('a'));
+    await cache.load(uri('b'));
+
+    act(() => {
+      renderer = create(<Probe cache={cache} />);
+    });
+    expect(readyStates[0]).toBe(true);
+
+    act(() => {
+      cache.setMaxBytes(0);
+    });
+    act(() => {
+      renderer!.update(<Probe cache={cache} />);
+    });
+
+    expect(cache.has(uri('a'))).toBe(true);
+    expect(cache.has(uri('b'))).toBe(true);
+    expect(readyStates[readyStates.length - 1]).toBe(true);
+    expect(loadImage).toHaveBeenCalledTimes(2);
+
+    act(() => {
+      renderer!.unmount();
+    });
+    renderer = null;
+    cache.setMaxBytes(0);
+    expect(cache.getStats().entries).toBe(0);
+  });
+
+  it('retains images it loaded until unmount', async () => {
+    const cache = createSpriteImageCache({
+      maxBytes: 0,
+      loadImage: () => Promise.resolve(makeImage(10, 10)),
+    });
+
+    await act(async () => {
+      renderer = create(<Probe cache={cache} />);
+    });
+
+    expect(readyStates[0]).toBe(false);
+    expect(readyStates[readyStates.length - 1]).toBe(true);
+    expect(cache.getStats().entries).toBe(2);
+  });
+});
@@ -0,0 +1,200 @@
+import React, { forwardRef, useImperativeHandle } from 'react';
+import TestRenderer, { act, ReactTestRenderer } from 'react-test-renderer';
+import { Canvas } from '@shopify/react-native-skia';
+import { buildFrame } from './helpers/spriteFixtures';
+import { SpriteNode } from '../src/SpriteNode';
+import type { AnimatedSprite2DHandle } from '../src/editor/animatedSprite2dTypes';
+import type { SpriteStateMachineDefinition } from '../src/spriteTypes';
+import {
+  useSpriteStateMachine,
+  type SpriteStateMachineResult,
+  type UseSpriteStateMachineOptions,
+} from '../src/hooks/useSpriteStateMachine';
+import { normalizeSpriteStateMachine } from '../src/editor/utils/spriteStateMachine';
+
+const definition: SpriteStateMachineDefinition = {
+  initialState: 'idle',
+  states: {
+    idle: { animation: 'idle' },
+    walk: { animation: 'walk' },
+    run: { animation: 'run' },
+    hurt: { animation: 'hurt' },
+  },
+  transitions: [
+    { from: '*', to: 'hurt', conditions: [{ parameter: 'hurt' }] },
+    { from: 'hurt', to: 'idle', waitForFinish: true },
+    { from: 'idle', to: 'walk', conditions: [{ parameter: 'speed', operator: '>', value: 0 }] },
+    { from: 'walk', to: 'run', conditions: [{ parameter: 'speed', operator: '>=', value: 5 }] },
+    { from: 'walk', to: 'idle', conditions: [{ parameter: 'speed', operator: '<=', value: 0 }] },
+  ],
+  parameters: { speed: 0, hurt: false },
+};
+
+const renderMachine = (options: UseSpriteStateMachineOptions) => {
+  const ref = React.createRef<SpriteStateMachineResult>();
+  const Harness = forwardRef<SpriteStateMachineResult>((_props, forwardedRef) => {
+    const machine = useSpriteStateMachine(options);
+    useImperativeHandle(forwardedRef, () => machine, [machine]);
+    return null;
+  });
+  Harness.displayName = 'SpriteStateMachineTestHarness';
+
+  let root: ReactTestRenderer | null = null;
+  act(() => {
+    root = TestRenderer.create(<Harness ref={ref} />);
+  });
+  return {
+    get machine() {
+      if (!ref.current) {
+        throw new Error('State machine not ready');
+      }
+      return ref.current;
+    },
+    unmount() {
+      act(() => {
+        root?.unmount();
+      });
+    },
+  };
+};
+
+describe('useSpriteStateMachine', () => {
+  it('follows parameter transitions through chained states', () => {
+    const onStateChange = jest.fn();
+    const harness = renderMachine({ definition, onStateChange });
+
+    expect(harness.machine.state).toBe('idle');
+    expect(harness.machine.spriteProps.animation).toBe('idle');
+
+    act(() => {
+      harness.machine.setParameter('speed', 6);
+    });
+
+    expect(harness.machine.state).toBe('run');
+    expect(onStateChange).toHaveBeenCalledWith('run', 'idle');
+    harness.unmount();
+  });
+
+  it('waits for the current animation to finish before leaving the state', () => {
+    const harness = renderMachine({ definition });
+
+    act(() => {
+      harness.machine.setParameters({ hurt: true });
+    });
+    expect(harness.machine.state).toBe('hurt');
+
+    act(() => {
+      harness.machine.setParameter('hurt', false);
+    });
+    expect(harness.machine.state).toBe('hurt');
+
+    act(() => {
+      harness.machine.handleAnimationFinished('idle');
+    });
+    expect(harness.machine.state).toBe('hurt');
+
+    act(() => {
+      harness.machine.spriteProps.onAnimationFinished('hurt');
+    });
+    expect(harness.machine.state).toBe('idle');
+    harness.unmount();
+  });
+
+  it('plays each entered state through the sprite handle', () => {
+    const play = jest.fn();
+    const spriteRef = { current: { play } as any };
+    const harness = renderMachine({ definition, spriteRef });
+
+    expect(play).toHaveBeenLastCalledWith('idle', { fromFrame: 0 });
+
+    act(() => {
+      harness.machine.setState('idle');
+    });
+    expect(play).toHaveBeenCalledTimes(2);
+
+    act(() => {
+      harness.machine.setParameter('speed', 1);
+    });
+    expect(play).toHaveBeenLastCalledWith('walk', { fromFrame: 0 });
+    harness.unmount();
+  });
+
+  it('restarts a shared animation through spriteProps when a state is entered', () => {
+    const combo: SpriteStateMachineDefinition = {
+      initialState: 'attack',
+      states: {
+        attack: { animation: 'swing' },
+        combo: { animation: 'swing' },
+        idle: { animation: 'idle' },
+      },
+      transitions: [
+        { from: 'attack', to: 'combo', conditions: [{ parameter: 'combo' }] },
+        { from: 'combo', to: 'idle', waitForFinish: true },
+      ],
+      parameters: { combo: false },
+    };
+    const frames = {
+      frames: [buildFrame(0), buildFrame(1), buildFrame(2)],
+      animations: { swing: [0, 1], idle: [2] },
+      animationsMeta: { swing: { loop: false } },
+    };
+    const spriteRef = React.createRef<AnimatedSprite2DHandle>();
+    const machineRef = React.createRef<SpriteStateMachineResult>();
+    const Harness = () => {
+      const machine = useSpriteStateMachine({ definition: combo });
+      useImperativeHandle(machineRef, () => machine, [machine]);
+      return (
+        <Canvas>
+          <SpriteNode ref={spriteRef} frames={frames} clock="manual" {...machine.spriteProps} />
+        </Canvas>
+      );
+    };
+    const step = (ms: number) => {
+      act(() => {
+        spriteRef.current!.advance(ms);
+      });
+    };
+
+    let root!: ReactTestRenderer;
+    act(() => {
+      root = TestRenderer.create(<Harness />);
+    });
+    step(200);
+    expect(spriteRef.current!.getPlaybackPosition().cursor).toBe(1);
+
+    act(() => {
+      machineRef.current!.setParameter('combo', true);
+    });
+    expect(machineRef.current!.state).toBe('combo');
+    expect(spriteRef.current!.getPlaybackPosition().cursor).toBe(0);
+
+    step(200);
+    expect(machineRef.current!.state).toBe('idle');
+    act(() => {
+      root.unmount();
+    });
+  });
+});
+
+describe('normalizeSpriteStateMachine', () => {
+  it('drops states without animations and transitions that reference them', () => {
+    const normalized = normalizeSpriteStateMachine(
+      {
+        initialState: 'missing',
+        states: { idle: { animation: 'idle' }, jump: { animation: 'jump' } },
+        transitions: [
+          { from: 'idle', to: 'jump', conditions: [{ parameter: 'jump' }, { value: 1 }] },
+          { from: '*', to: 'idle', waitForFinish: true },
+        ],
+      },
+      ['idle'],
+    );
+
+    expect(normalized).toEqual({
+      initialState: 'idle',
+      states: { idle: { animation: 'idle' } },
+      transitions: [{ from: '*', to: 'idle', waitForFinish: true }],
+    });
+    expect(normalizeSpriteStateMachine({ states: {} })).toBeNull();
+  });
+});
@@ -0,0 +1,205 @@
+import React, { createRef } from 'react';
+import { act, create, type ReactTestRenderer } from 'react-test-renderer';
+import { buildFrame, sheet } from './helpers/spriteFixtures';
+import { AnimatedSprite2D } from '../src/AnimatedSprite2D';
+import { AnimatedSprite2DView, type AnimatedSprite2DViewLayout } from '../src/AnimatedSprite2DView';
+import { SpriteClockProvider } from '../src/SpriteClockProvider';
+import type {
+  AnimatedSprite2DHandle,
+  SpriteFramesResource,
+} from '../src/editor/animatedSprite2dTypes';
+
+type FrameCallback = (frameInfo: { timeSincePreviousFrame: number | null }) => void;
+
+const mockFrameLoop: { callback: FrameCallback | null; active: boolean } = {
+  callback: null,
+  active: false,
+};
+
+jest.mock('react-native-reanimated', () => {
+  const { useRef } = jest.requireActual('react');
+  return {
+    useSharedValue: (initial: unknown) => useRef({ value: initial }).current,
+    useDerivedValue: (compute: () => unknown) => ({
+      get value() {
+        return compute();
+      },
+    }),
+    useFrameCallback: (callback: FrameCallback) => {
+      mockFrameLoop.callback = callback;
+      return useRef({
+        setActive: (active: boolean) => {
+          mockFrameLoop.active = active;
+        },
+      }).current;
+    },
+    runOnJS:
+      (fn: (...args: unknown[]) => void) =>
+      (...args: unknown[]) =>
+        fn(...args),
+  };
+});
+
+jest.mock('../src/AnimatedSprite2DView', () => ({
+  AnimatedSprite2DView: jest.fn(() => null),
+}));
+
+const mockView = AnimatedSprite2DView as jest.MockedFunction<typeof AnimatedSprite2DView>;
+
+const framesResource: SpriteFramesResource = {
+  frames: [buildFrame(0), buildFrame(1), buildFrame(2)],
+  animations: { attack: [0, 1], combo: [0, 1], idle: [2] },
+  animationsMeta: {
+    attack: { loop: false, fps: 10, events: [{ index: 1, name: 'hit' }] },
+    combo: { loop: false, fps: 10, next: 'idle' },
+  },
+};
+
+const lastViewProps = () => mockView.mock.calls[mockView.mock.calls.length - 1]?.[0];
+
+const lastLayout = (): AnimatedSprite2DViewLayout => {
+  const layout = lastViewProps()?.animatedLayout;
+  if (!layout) {
+    throw new Error('UI-thread layout not rendered');
+  }
+  return layout;
+};
+
+const advance = (ms: number) => {
+  act(() => {
+    mockFrameLoop.callback?.({ timeSincePreviousFrame: ms });
+  });
+};
+
+describe('AnimatedSprite2D playbackDriver="ui"', () => {
+  let renderer: ReactTestRenderer | null = null;
+
+  afterEach(() => {
+    act(() => {
+      renderer?.unmount();
+    });
+    renderer = null;
+    mockFrameLoop.callback = null;
+    mockFrameLoop.active = false;
+  });
+
+  it('advances frames on the frame callback without re-rendering the view', () => {
+    const onFrameChanged = jest.fn();
+    const onAnimationEvent = jest.fn();
+    act(() => {
+      renderer = create(
+        <AnimatedSprite2D
+          frames={framesResource}
+          animation="attack"
+          playbackDriver="ui"
+          onFrameChanged={onFrameChanged}
+          onAnimationEvent={onAnimationEvent}
+        />,
+      );
+    });
+
+    expect(mockFrameLoop.active).toBe(true);
+    expect(lastLayout().x.value).toBe(0);
+    const renders = mockView.mock.calls.length;
+
+    advance(99);
+    expect(lastLayout().x.value).toBe(0);
+    advance(1);
+
+    expect(lastLayout().x.value).toBe(-32);
+    expect(onFrameChanged).toHaveBeenLastCalledWith({ animationName: 'attack', frameIndex: 1 });
+    expect(onAnimationEvent).toHaveBeenCalledWith({
+      animationName: 'attack',
+      name: 'hit',
+      frameIndex: 1,
+      timelineIndex: 1,
+    });
+    expect(mockView.mock.calls.length).toBe(renders);
+  });
+
+  it('finishes a non-repeating animation on the UI thread', () => {
+    const ref = createRef<AnimatedSprite2DHandle>();
+    const onAnimationFinished = jest.fn();
+    act(() => {
+      renderer = create(
+        <AnimatedSprite2D
+          ref={ref}
+          frames={framesResource}
+          autoplay="attack"
+          playbackDriver="ui"
+          onAnimationFinished={onAnimationFinished}
+        />,
+      );
+    });
+
+    advance(200);
+
+    expect(onAnimationFinished).toHaveBeenCalledWith('attack');
+    expect(ref.current?.getCurrentAnimation()).toBe('attack');
+    expect(lastLayout().x.value).toBe(-32);
+  });
+
+  it('hands queued playback to the JS driver at the reported cursor', () => {
+    const ref = createRef<AnimatedSprite2DHandle>();
+    const onAnimationEvent = jest.fn();
+    act(() => {
+      renderer = create(
+        <AnimatedSprite2D
+          ref={ref}
+          frames={framesResource}
+          animation="attack"
+          playbackDriver="ui"
+          onAnimationEvent={onAnimationEvent}
+        />,
+      );
+    });
+    advance(100);
+
+    act(() => {
+      ref.current?.queue('idle');
+    });
+
+    expect(lastViewProps()?.animatedLayout).toBeUndefined();
+    expect(lastViewProps()?.frame?.id).toBe('frame-1');
+    expect(onAnimationEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it('uses the JS driver for animations that chain into next', () => {
+    act(() => {
+      renderer = create(
+        <AnimatedSprite2D frames={framesResource} animation="combo" playbackDriver="ui" />,
+      );
+    });
+
+    expect(lastViewProps()?.animatedLayout).toBeUndefined();
+  });
+
+  it('uses the JS driver under a SpriteClockProvider', () => {
+    act(() => {
+      renderer = create(
+        <SpriteClockProvider paused>
+          <AnimatedSprite2D frames={framesResource} animation="attack" playbackDriver="ui" />
+        </SpriteClockProvider>,
+      );
+    });
+
+    expect(mockFrameLoop.active).toBe(false);
+    expect(lastViewProps()?.animatedLayout).toBeUndefined();
+  });
+
+  it('falls back to the JS driver when frames come from several images', () => {
+    const mixed: SpriteFramesResource = {
+      frames: [
+        { id: 'a', width: 16, height: 16, image: { type: 'skImage', image: sheet } },
+        { id: 'b', width: 16, height: 16, image: { type: 'skImage', image: { ...sheet } } },
+      ],
+      animations: { idle: [0, 1] },
+    };
+    act(() => {
+      renderer = create(<AnimatedSprite2D frames={mixed} playbackDriver="ui" />);
+    });
+
+    expect(mockFrameLoop.callback).toBeNull();
+    expect(lastViewProps()?.animatedLayout).toBeUndefined();
+  });
+});
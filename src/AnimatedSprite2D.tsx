@@ -1,78 +1,75 @@
 /* eslint-disable jsdoc/require-jsdoc */
-import React, { forwardRef, useCallback, useImperativeHandle } from 'react';
+import React, { forwardRef } from 'react';
 import type { AnimatedSprite2DHandle, AnimatedSprite2DProps } from './editor/animatedSprite2dTypes';
 import { useAnimatedSpriteController } from './editor/hooks/animatedSprite2d/useAnimatedSpriteController';
+import { useAnimatedSpriteHandle } from './editor/hooks/animatedSprite2d/useAnimatedSpriteHandle';
 import { AnimatedSprite2DView } from './AnimatedSprite2DView';
+import { UIThreadSpriteLayout } from './UIThreadSpriteLayout';
+import { useSpriteResourceReady } from './hooks/useSpriteResourceReady';
 
 export const AnimatedSprite2D = forwardRef<AnimatedSprite2DHandle, AnimatedSprite2DProps>(
   (props, ref) => {
-    const { style, ...controllerOptions } = props;
-    const controller = useAnimatedSpriteController(controllerOptions);
+    const { style, placeholder, onReady, ...controllerOptions } = props;
     const frames = controllerOptions.frames;
+    const ready = useSpriteResourceReady(frames, { onReady });
+    // playback waits for the images, so nothing plays or finishes behind the placeholder
+    const controller = useAnimatedSpriteController({ ...controllerOptions, suspended: !ready });
+    useAnimatedSpriteHandle(ref, controller, frames);
     const {
-      animationName,
-      setAnimationName,
-      playing,
-      setPlaying,
-      sequence,
-      setTimelineCursor,
-      resetTimelineAccumulator,
       currentFrame,
       frameImage,
       canvasSize,
       drawOrigin,
       scale,
+      driver,
+      forcedFrameIndex,
+      contentRect,
+      boxTransform,
+      pixelPerfect,
+      modulate,
+      opacity,
+      blendMode,
+      effects,
+      paletteSwap,
     } = controller;
 
-    const clampFrameIndex = useCallback(
-      (index: number) => {
-        const maxIndex = Math.max(0, frames.frames.length - 1);
-        if (!Number.isFinite(index)) {
-          return 0;
-        }
-        return Math.max(0, Math.min(maxIndex, Math.floor(index)));
-      },
-      [frames.frames.length],
-    );
+    if (!ready && placeholder !== undefined) {
+      return <>{placeholder}</>;
+    }
 
-    useImperativeHandle(
-      ref,
-      () => ({
-        play: (name?: string | null) => {
-          if (name !== undefined) {
-            setAnimationName(name);
-          }
-          setPlaying(true);
-        },
-        stop: () => {
-          setPlaying(false);
-          setTimelineCursor(0);
-          resetTimelineAccumulator();
-        },
-        pause: () => {
-          setPlaying(false);
-        },
-        seekFrame: (frameIndex: number) => {
-          const normalized = clampFrameIndex(frameIndex);
-          const targetCursor = sequence.findIndex((value) => value === normalized);
-          setTimelineCursor(targetCursor >= 0 ? targetCursor : 0);
-          resetTimelineAccumulator();
-          setPlaying(false);
-        },
-        getCurrentAnimation: () => animationName,
-        isPlaying: () => playing,
-      }),
-      [
-        animationName,
-        clampFrameIndex,
-        playing,
-        resetTimelineAccumulator,
-        sequence,
-        setAnimationName,
-        setPlaying,
-        setTimelineCursor,
-      ],
-    );
+    // a `frame` prop pins the view, which the regular render path already handles
+    if (driver === 'ui' && forcedFrameIndex === null) {
+      return (
+        <UIThreadSpriteLayout
+          controller={controller}
+          frames={frames}
+          centered={props.centered}
+          offset={props.offset}
+        >
+          {(animatedLayout) => (
+            <AnimatedSprite2DView
+              frame={currentFrame}
+              frameImage={frameImage}
+              canvasSize={canvasSize}
+              drawOrigin={drawOrigin}
+              flipH={props.flipH}
+              flipV={props.flipV}
+              scale={scale}
+              contentRect={contentRect}
+              boxTransform={boxTransform}
+              pixelPerfect={pixelPerfect}
+              modulate={modulate}
+              opacity={opacity}
+              blendMode={blendMode}
+              effects={effects}
+              paletteSwap={paletteSwap}
+              animatedLayout={animatedLayout}
+              style={style}
+            />
+          )}
+        </UIThreadSpriteLayout>
+      );
+    }
 
     return (
       <AnimatedSprite2DView
@@ -83,6 +80,14 @@ export const AnimatedSprite2D = forwardRef<AnimatedSprite2DHandle, AnimatedSprit
         flipH={props.flipH}
         flipV={props.flipV}
         scale={scale}
+        contentRect={contentRect}
+        boxTransform={boxTransform}
+        pixelPerfect={pixelPerfect}
+        modulate={modulate}
+        opacity={opacity}
+        blendMode={blendMode}
+        effects={effects}
+        paletteSwap={paletteSwap}
         style={style}
       />
     );
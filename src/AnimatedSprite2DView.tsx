@@ -1,17 +1,44 @@
 /* eslint-disable jsdoc/require-jsdoc */
 import {
+  BlendColor,
   Canvas,
+  FilterMode,
   Group,
   Image as SkiaImage,
+  MipmapMode,
   Skia,
+  type Color,
   type SkImage,
+  type SkRect,
   type Transforms3d,
 } from '@shopify/react-native-skia';
-import React, { memo, useMemo } from 'react';
+import React, { memo, useMemo, type ReactElement } from 'react';
 import type { StyleProp, ViewStyle } from 'react-native';
-import type { AnimatedSpriteFrame } from './editor/animatedSprite2dTypes';
+import type { DerivedValue } from 'react-native-reanimated';
+import type {
+  AnimatedSpriteFrame,
+  SpriteBlendMode,
+  SpriteEffect,
+  SpritePaletteEffect,
+} from './editor/animatedSprite2dTypes';
+import { SpriteEffectStack } from './SpriteEffectStack';
+import {
+  computeFlipTransform,
+  computeFrameLayout,
+  type FrameRect,
+  type SpriteBoxTransformLayout,
+} from './editor/hooks/animatedSprite2d/helpers';
+
+/** Shared values that move the frame on the UI thread without re-rendering the view. */
+export interface AnimatedSprite2DViewLayout {
+  clip: DerivedValue<SkRect>;
+  x: DerivedValue<number>;
+  y: DerivedValue<number>;
+  width: DerivedValue<number>;
+  height: DerivedValue<number>;
+}
 
-export interface AnimatedSprite2DViewProps {
+export interface SpriteFrameNodeProps {
   frame: AnimatedSpriteFrame | null;
   frameImage: SkImage | null;
   canvasSize: { width: number; height: number };
@@ -19,10 +46,32 @@ export interface AnimatedSprite2DViewProps {
   flipH?: boolean;
   flipV?: boolean;
   scale?: number;
+  /** Sprite box inside the canvas that flips mirror around; defaults to the whole canvas. */
+  contentRect?: FrameRect | null;
+  /** Rotation/skew applied around its `origin` on top of flips. */
+  boxTransform?: SpriteBoxTransformLayout | null;
+  /** Nearest-neighbour sampling for crisp pixel art. */
+  pixelPerfect?: boolean;
+  /** Multiplied into the frame's colors through a `modulate` color filter. */
+  modulate?: Color | null;
+  opacity?: number;
+  blendMode?: SpriteBlendMode | null;
+  effects?: SpriteEffect[] | null;
+  /** Palette swap applied to the frame before `modulate` and `effects`. */
+  paletteSwap?: SpritePaletteEffect | null;
+  /** When set, overrides `frame`/`drawOrigin` positioning (UI-thread playback). */
+  animatedLayout?: AnimatedSprite2DViewLayout | null;
+}
+
+export interface AnimatedSprite2DViewProps extends SpriteFrameNodeProps {
   style?: StyleProp<ViewStyle>;
 }
 
-export const AnimatedSprite2DView = memo(
+/** Nearest-neighbour sampling used by `pixelPerfect` drawing. */
+export const NEAREST_SAMPLING = { filter: FilterMode.Nearest, mipmap: MipmapMode.None };
+
+/** Draws the current frame as Skia children, for use inside an existing `Canvas`. */
+export const SpriteFrameNode = memo(
   ({
     frame,
     frameImage,
@@ -31,82 +80,139 @@ export const AnimatedSprite2DView = memo(
     flipH = false,
     flipV = false,
     scale = 1,
-    style,
-  }: AnimatedSprite2DViewProps) => {
+    contentRect = null,
+    boxTransform = null,
+    pixelPerfect = false,
+    modulate = null,
+    opacity = 1,
+    blendMode = null,
+    effects = null,
+    paletteSwap = null,
+    animatedLayout,
+  }: SpriteFrameNodeProps) => {
     const resolvedScale =
       typeof scale === 'number' && Number.isFinite(scale) && scale > 0 ? scale : 1;
+    const mirrorBox = useMemo(
+      () => contentRect ?? { x: 0, y: 0, ...canvasSize },
+      [canvasSize, contentRect],
+    );
     const transforms = useMemo<Transforms3d | undefined>(() => {
-      if (!flipH && !flipV) {
-        return undefined;
-      }
-      const transform: Transforms3d = [];
-      if (flipH) {
-        transform.push({ translateX: canvasSize.width }, { scaleX: -1 });
-      }
-      if (flipV) {
-        transform.push({ translateY: canvasSize.height }, { scaleY: -1 });
-      }
-      return transform.length ? transform : undefined;
-    }, [canvasSize.height, canvasSize.width, flipH, flipV]);
-
-    const clipRect = useMemo(() => {
-      if (!frame) {
-        return null;
-      }
-      return Skia.XYWHRect(
-        drawOrigin.x,
-        drawOrigin.y,
-        frame.width * resolvedScale,
-        frame.height * resolvedScale,
-      );
-    }, [drawOrigin, frame, resolvedScale]);
+      const steps = computeFlipTransform(flipH, flipV, mirrorBox);
+      return steps.length ? steps : undefined;
+    }, [flipH, flipV, mirrorBox]);
+    const boxTransforms = useMemo<Transforms3d | undefined>(
+      () =>
+        boxTransform
+          ? [
+              { rotate: boxTransform.rotation },
+              { skewX: boxTransform.skewX },
+              { skewY: boxTransform.skewY },
+            ]
+          : undefined,
+      [boxTransform],
+    );
 
-    const translatedImage = useMemo(() => {
+    const layout = useMemo(() => {
       if (!frame || !frameImage) {
         return null;
       }
-      const subset = frame.image?.subset;
-      if (!subset) {
-        return {
-          x: drawOrigin.x,
-          y: drawOrigin.y,
-          width: frame.width * resolvedScale,
-          height: frame.height * resolvedScale,
-        };
-      }
-      const widthGetter = (frameImage as SkImage & { width?: () => number }).width;
-      const heightGetter = (frameImage as SkImage & { height?: () => number }).height;
-      const width =
-        typeof widthGetter === 'function' ? widthGetter.call(frameImage) : frame.width + subset.x;
-      const height =
-        typeof heightGetter === 'function'
-          ? heightGetter.call(frameImage)
-          : frame.height + subset.y;
-      return {
-        x: drawOrigin.x - subset.x * resolvedScale,
-        y: drawOrigin.y - subset.y * resolvedScale,
-        width: width * resolvedScale,
-        height: height * resolvedScale,
-      };
+      const { clip, image } = computeFrameLayout(frame, frameImage, drawOrigin, resolvedScale);
+      return { clip: Skia.XYWHRect(clip.x, clip.y, clip.width, clip.height), image };
     }, [drawOrigin, frame, frameImage, resolvedScale]);
 
-    return (
-      <Canvas style={[style, { width: canvasSize.width, height: canvasSize.height }]}>
-        {frame && frameImage && translatedImage && clipRect ? (
-          <Group transform={transforms} clip={clipRect}>
-            <SkiaImage
-              image={frameImage}
-              x={translatedImage.x}
-              y={translatedImage.y}
-              width={translatedImage.width}
-              height={translatedImage.height}
-              fit="contain"
-            />
-          </Group>
-        ) : null}
-      </Canvas>
+    const hasEffects = Boolean(effects?.length);
+    const paint = {
+      opacity: opacity < 1 ? opacity : undefined,
+      // with effects or a palette swap, the mode applies to the finished layer instead
+      blendMode: hasEffects || paletteSwap ? undefined : (blendMode ?? undefined),
+      sampling: pixelPerfect ? NEAREST_SAMPLING : undefined,
+    };
+    const tint = modulate !== null ? <BlendColor color={modulate} mode="modulate" /> : null;
+    // a palette swap has to match the untinted colors, so the tint moves outside of it
+    const imageTint = paletteSwap ? null : tint;
+
+    const recolor = (content: ReactElement, layerBlendMode: SpriteBlendMode | undefined) => {
+      if (!paletteSwap) {
+        return content;
+      }
+      const swapped = (
+        <SpriteEffectStack effects={[paletteSwap]} blendMode={tint ? undefined : layerBlendMode}>
+          {content}
+        </SpriteEffectStack>
+      );
+      return tint ? (
+        <Group blendMode={layerBlendMode}>
+          {tint}
+          {swapped}
+        </Group>
+      ) : (
+        swapped
+      );
+    };
+
+    const wrap = (content: ReactElement) => {
+      const filtered = hasEffects ? (
+        <SpriteEffectStack effects={effects} blendMode={blendMode ?? undefined}>
+          {recolor(content, undefined)}
+        </SpriteEffectStack>
+      ) : (
+        recolor(content, blendMode ?? undefined)
+      );
+      return boxTransform ? (
+        <Group origin={boxTransform.origin} transform={boxTransforms}>
+          {filtered}
+        </Group>
+      ) : (
+        filtered
+      );
+    };
+
+    if (animatedLayout && frameImage) {
+      return wrap(
+        <Group transform={transforms} clip={animatedLayout.clip}>
+          <SkiaImage
+            image={frameImage}
+            x={animatedLayout.x}
+            y={animatedLayout.y}
+            width={animatedLayout.width}
+            height={animatedLayout.height}
+            fit="contain"
+            {...paint}
+          >
+            {imageTint}
+          </SkiaImage>
+        </Group>,
+      );
+    }
+    if (!frame || !frameImage || !layout) {
+      return null;
+    }
+    return wrap(
+      <Group transform={transforms} clip={layout.clip}>
+        <SkiaImage
+          image={frameImage}
+          x={layout.image.x}
+          y={layout.image.y}
+          width={layout.image.width}
+          height={layout.image.height}
+          fit="contain"
+          {...paint}
+        >
+          {imageTint}
+        </SkiaImage>
+      </Group>,
     );
   },
 );
 
+SpriteFrameNode.displayName = 'SpriteFrameNode';
+
+export const AnimatedSprite2DView = memo(({ style, ...nodeProps }: AnimatedSprite2DViewProps) => (
+  <Canvas
+    style={[style, { width: nodeProps.canvasSize.width, height: nodeProps.canvasSize.height }]}
+  >
+    <SpriteFrameNode {...nodeProps} />
+  </Canvas>
+));
+
 AnimatedSprite2DView.displayName = 'AnimatedSprite2DView';
@@ -0,0 +1,76 @@
+/* eslint-disable jsdoc/require-jsdoc */
+import React, { memo, useMemo } from 'react';
+import { Atlas, Canvas, Group, Skia } from '@shopify/react-native-skia';
+import type { StyleProp, ViewStyle } from 'react-native';
+import type { SpriteFramesResource } from './editor/animatedSprite2dTypes';
+import { useFrameCache } from './editor/hooks/animatedSprite2d/useFrameCache';
+import { buildSpriteBatchDrawGroups, type SpriteBatchInstance } from './editor/utils/spriteBatch';
+import { useSpriteBatchTicker } from './hooks/useSpriteBatchTicker';
+
+export interface SpriteBatchProps {
+  frames: SpriteFramesResource;
+  instances: SpriteBatchInstance[];
+  /** Pauses every instance when false. Defaults to true. */
+  playing?: boolean;
+  speedScale?: number;
+  /** Size the canvas here; instances are positioned in canvas coordinates. */
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Draws many instances of one sprite sheet in a single `Canvas` with one atlas draw call
+ * (one per flip combination), animated by a shared ticker.
+ */
+export const SpriteBatch = memo(
+  ({ frames, instances, playing = true, speedScale = 1, style }: SpriteBatchProps) => {
+    const { playheads, revision } = useSpriteBatchTicker({
+      frames,
+      instances,
+      playing,
+      speedScale,
+    });
+    const atlasImage = useFrameCache(frames.frames[0] ?? null);
+
+    const draws = useMemo(() => {
+      void revision; // playheads are advanced in place; the revision marks a new frame
+      return buildSpriteBatchDrawGroups(frames, instances, playheads).map((group) => ({
+        key: `${group.flipH ? 'h' : ''}${group.flipV ? 'v' : ''}`,
+        transform: [
+          ...(group.flipH ? [{ scaleX: -1 }] : []),
+          ...(group.flipV ? [{ scaleY: -1 }] : []),
+        ],
+        sprites: group.sprites.map((rect) =>
+          Skia.XYWHRect(rect.x, rect.y, rect.width, rect.height),
+        ),
+        transforms: group.transforms.map(({ scos, ssin, tx, ty }) =>
+          Skia.RSXform(scos, ssin, tx, ty),
+        ),
+        colors: group.opacities.some((opacity) => opacity < 1)
+          ? group.opacities.map((opacity) => new Float32Array([1, 1, 1, opacity]))
+          : undefined,
+      }));
+    }, [frames, instances, playheads, revision]);
+
+    return (
+      <Canvas style={style}>
+        {atlasImage
+          ? draws.map((draw) => (
+              <Group key={draw.key} transform={draw.transform.length ? draw.transform : undefined}>
+                <Atlas
+                  image={atlasImage}
+                  sprites={draw.sprites}
+                  transforms={draw.transforms}
+                  colors={draw.colors}
+                  // drawAtlas blends the sprite (source) onto its color (destination); srcIn keeps
+                  // the sprite and scales it by the color's alpha
+                  blendMode={draw.colors ? 'srcIn' : undefined}
+                />
+              </Group>
+            ))
+          : null}
+      </Canvas>
+    );
+  },
+);
+
+SpriteBatch.displayName = 'SpriteBatch';
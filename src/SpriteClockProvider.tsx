@@ -0,0 +1,152 @@
+/* eslint-disable jsdoc/require-jsdoc */
+import React, { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
+
+type FrameCallback = (timestamp: number) => void;
+
+export interface SpriteClock {
+  /** Schedules `callback` for the next shared frame. The timestamp is scaled clock time. */
+  requestFrame: (callback: FrameCallback) => number;
+  cancelFrame: (id: number) => void;
+  /** Current clock time in milliseconds; frozen while paused. */
+  now: () => number;
+}
+
+export interface SpriteClockController extends SpriteClock {
+  setTimeScale: (timeScale: number) => void;
+  setPaused: (paused: boolean) => void;
+  /** Cancels the pending frame without dropping subscribers. */
+  suspend: () => void;
+}
+
+export interface CreateSpriteClockOptions {
+  timeScale?: number;
+  paused?: boolean;
+  /** Frame source, `requestAnimationFrame` by default. Nested clocks pass their parent here. */
+  scheduleFrame?: (callback: FrameCallback) => number;
+  cancelScheduledFrame?: (id: number) => void;
+}
+
+const sanitizeTimeScale = (value: number) => (Number.isFinite(value) && value > 0 ? value : 0);
+
+export const createSpriteClock = (
+  options: CreateSpriteClockOptions = {},
+): SpriteClockController => {
+  const scheduleFrame = options.scheduleFrame ?? ((callback) => requestAnimationFrame(callback));
+  const cancelScheduledFrame = options.cancelScheduledFrame ?? ((id) => cancelAnimationFrame(id));
+  const callbacks = new Map<number, FrameCallback>();
+  let nextId = 1;
+  let timeScale = sanitizeTimeScale(options.timeScale ?? 1);
+  let paused = Boolean(options.paused);
+  let time = 0;
+  let lastTimestamp: number | null = null;
+  let pendingFrame: number | null = null;
+
+  const runFrame = (timestamp: number) => {
+    pendingFrame = null;
+    if (lastTimestamp != null) {
+      time += Math.max(0, timestamp - lastTimestamp) * timeScale;
+    }
+    lastTimestamp = timestamp;
+    // callbacks re-register themselves for the following frame
+    const due = Array.from(callbacks.values());
+    callbacks.clear();
+    due.forEach((callback) => callback(time));
+    if (!callbacks.size) {
+      lastTimestamp = null;
+    }
+    schedule();
+  };
+
+  const schedule = () => {
+    if (paused || pendingFrame != null || !callbacks.size) {
+      return;
+    }
+    pendingFrame = scheduleFrame(runFrame);
+  };
+
+  const suspend = () => {
+    if (pendingFrame != null) {
+      cancelScheduledFrame(pendingFrame);
+      pendingFrame = null;
+    }
+    // the next frame after a pause or idle period starts a fresh delta
+    lastTimestamp = null;
+  };
+
+  return {
+    requestFrame: (callback) => {
+      const id = nextId;
+      nextId += 1;
+      callbacks.set(id, callback);
+      schedule();
+      return id;
+    },
+    cancelFrame: (id) => {
+      callbacks.delete(id);
+      if (!callbacks.size) {
+        suspend();
+      }
+    },
+    now: () => time,
+    setTimeScale: (value) => {
+      timeScale = sanitizeTimeScale(value);
+    },
+    setPaused: (value) => {
+      if (paused === value) {
+        return;
+      }
+      paused = value;
+      if (paused) {
+        suspend();
+      } else {
+        schedule();
+      }
+    },
+    suspend,
+  };
+};
+
+const SpriteClockContext = createContext<SpriteClock | null>(null);
+
+/** Returns the nearest {@link SpriteClockProvider} clock, or null when sprites use their own loop. */
+export const useSpriteClock = () => useContext(SpriteClockContext);
+
+export interface SpriteClockProviderProps {
+  /** Multiplies elapsed time for every descendant sprite (0.5 = slow motion). Defaults to 1. */
+  timeScale?: number;
+  /** Freezes every descendant sprite on its current frame. */
+  paused?: boolean;
+  children?: ReactNode;
+}
+
+/**
+ * Drives every descendant `AnimatedSprite2D` from one shared frame callback. Nested providers
+ * run on their parent's clock, so pausing or slowing an outer provider affects inner ones too.
+ */
+export const SpriteClockProvider = ({
+  timeScale = 1,
+  paused = false,
+  children,
+}: SpriteClockProviderProps) => {
+  const parent = useSpriteClock();
+  const [clock] = useState(() =>
+    createSpriteClock({
+      timeScale,
+      paused,
+      scheduleFrame: parent?.requestFrame,
+      cancelScheduledFrame: parent?.cancelFrame,
+    }),
+  );
+
+  useEffect(() => {
+    clock.setTimeScale(timeScale);
+  }, [clock, timeScale]);
+
+  useEffect(() => {
+    clock.setPaused(paused);
+  }, [clock, paused]);
+
+  useEffect(() => () => clock.suspend(), [clock]);
+
+  return <SpriteClockContext.Provider value={clock}>{children}</SpriteClockContext.Provider>;
+};
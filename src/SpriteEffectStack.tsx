@@ -0,0 +1,238 @@
+/* eslint-disable jsdoc/require-jsdoc */
+import React, { type ReactElement, type ReactNode } from 'react';
+import {
+  Group,
+  RuntimeShader,
+  Shadow,
+  Skia,
+  type Color,
+  type SkRuntimeEffect,
+  type Uniforms,
+} from '@shopify/react-native-skia';
+import type { SpriteBlendMode, SpriteEffect } from './editor/animatedSprite2dTypes';
+import { MAX_PALETTE_COLORS } from './editor/utils/palette';
+
+// Every built-in shader is a runtime image filter: `image` is the sprite drawn so far.
+const OUTLINE_SKSL = `
+uniform shader image;
+uniform vec4 color;
+uniform float width;
+
+half4 main(vec2 xy) {
+  vec4 base = image.eval(xy);
+  float alpha = 0.0;
+  for (int i = 0; i < 16; i++) {
+    float angle = float(i) * 0.39269908;
+    alpha = max(alpha, image.eval(xy + vec2(cos(angle), sin(angle)) * width).a);
+  }
+  vec4 outline = vec4(color.rgb * color.a, color.a) * alpha;
+  return half4(base + outline * (1.0 - base.a));
+}
+`;
+
+const FLASH_SKSL = `
+uniform shader image;
+uniform vec4 color;
+uniform float amount;
+
+half4 main(vec2 xy) {
+  vec4 base = image.eval(xy);
+  return half4(mix(base.rgb, color.rgb * base.a, amount), base.a);
+}
+`;
+
+const DISSOLVE_SKSL = `
+uniform shader image;
+uniform float progress;
+uniform float edgeWidth;
+uniform float noiseScale;
+uniform float seed;
+uniform vec4 edgeColor;
+
+float hash(vec2 p) {
+  return fract(sin(dot(p, vec2(127.1, 311.7)) + seed * 17.13) * 43758.5453);
+}
+
+float noise(vec2 p) {
+  vec2 cell = floor(p);
+  vec2 f = fract(p);
+  vec2 u = f * f * (3.0 - 2.0 * f);
+  float a = hash(cell);
+  float b = hash(cell + vec2(1.0, 0.0));
+  float c = hash(cell + vec2(0.0, 1.0));
+  float d = hash(cell + vec2(1.0, 1.0));
+  return mix(mix(a, b, u.x), mix(c, d, u.x), u.y);
+}
+
+half4 main(vec2 xy) {
+  vec4 base = image.eval(xy);
+  float n = noise(xy / noiseScale);
+  // stretched so that progress 1 also removes the edge band
+  float cutoff = progress * (1.0 + edgeWidth);
+  if (n < cutoff - edgeWidth) {
+    return half4(0.0);
+  }
+  if (n < cutoff) {
+    return half4(vec4(edgeColor.rgb * edgeColor.a, edgeColor.a) * base.a);
+  }
+  return half4(base);
+}
+`;
+
+const PALETTE_SKSL = `
+uniform shader image;
+uniform vec4 sourceColors[32];
+uniform vec4 targetColors[32];
+uniform float count;
+uniform float tolerance;
+
+half4 main(vec2 xy) {
+  vec4 base = image.eval(xy);
+  if (base.a <= 0.0) {
+    return half4(0.0);
+  }
+  vec3 color = base.rgb / base.a;
+  for (int i = 0; i < 32; i++) {
+    if (float(i) >= count) {
+      break;
+    }
+    if (distance(color, sourceColors[i].rgb) <= tolerance) {
+      vec4 target = targetColors[i];
+      return half4(vec4(target.rgb * target.a, target.a) * base.a);
+    }
+  }
+  return half4(base);
+}
+`;
+
+const BUILTIN_SOURCES = {
+  outline: OUTLINE_SKSL,
+  flash: FLASH_SKSL,
+  dissolve: DISSOLVE_SKSL,
+  palette: PALETTE_SKSL,
+};
+
+type BuiltinShaderName = keyof typeof BUILTIN_SOURCES;
+
+const compiledEffects = new Map<BuiltinShaderName, SkRuntimeEffect>();
+
+// Compiled lazily so sprites without effects never touch the runtime effect compiler
+const getBuiltinEffect = (name: BuiltinShaderName) => {
+  let effect = compiledEffects.get(name);
+  if (!effect) {
+    const compiled = Skia.RuntimeEffect.Make(BUILTIN_SOURCES[name]);
+    if (!compiled) {
+      throw new Error(`Failed to compile the built-in "${name}" sprite effect.`);
+    }
+    effect = compiled;
+    compiledEffects.set(name, effect);
+  }
+  return effect;
+};
+
+const toVec4 = (color: Color) => Array.from(Skia.Color(color));
+
+const finiteOr = (value: number | undefined, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+// uniform arrays have a fixed length, so unused slots are padded with transparent black
+const toVec4Array = (colors: Color[]) =>
+  Array.from({ length: MAX_PALETTE_COLORS }, (_, index) =>
+    index < colors.length ? toVec4(colors[index]!) : [0, 0, 0, 0],
+  );
+
+export type ResolvedSpriteEffect =
+  | { kind: 'shader'; source: SkRuntimeEffect; uniforms: Uniforms }
+  | { kind: 'dropShadow'; dx: number; dy: number; blur: number; color: Color };
+
+/** Turns an `effects` entry into the Skia image filter that draws it. */
+export const resolveSpriteEffect = (effect: SpriteEffect): ResolvedSpriteEffect => {
+  switch (effect.type) {
+    case 'outline':
+      return {
+        kind: 'shader',
+        source: getBuiltinEffect('outline'),
+        uniforms: {
+          color: toVec4(effect.color ?? 'white'),
+          width: Math.max(0, finiteOr(effect.width, 1)),
+        },
+      };
+    case 'flash':
+      return {
+        kind: 'shader',
+        source: getBuiltinEffect('flash'),
+        uniforms: {
+          color: toVec4(effect.color ?? 'white'),
+          amount: Math.max(0, Math.min(1, finiteOr(effect.amount, 1))),
+        },
+      };
+    case 'dissolve':
+      return {
+        kind: 'shader',
+        source: getBuiltinEffect('dissolve'),
+        uniforms: {
+          progress: Math.max(0, Math.min(1, finiteOr(effect.progress, 0))),
+          edgeWidth: Math.max(0, finiteOr(effect.edgeWidth, 0.05)),
+          noiseScale: Math.max(1, finiteOr(effect.noiseScale, 8)),
+          seed: finiteOr(effect.seed, 0),
+          edgeColor: toVec4(effect.edgeColor ?? '#ff8c1a'),
+        },
+      };
+    case 'dropShadow':
+      return {
+        kind: 'dropShadow',
+        dx: finiteOr(effect.dx, 2),
+        dy: finiteOr(effect.dy, 2),
+        blur: Math.max(0, finiteOr(effect.blur, 2)),
+        color: effect.color ?? 'rgba(0, 0, 0, 0.5)',
+      };
+    case 'palette': {
+      const count = Math.min(effect.source.length, effect.target.length, MAX_PALETTE_COLORS);
+      return {
+        kind: 'shader',
+        source: getBuiltinEffect('palette'),
+        uniforms: {
+          sourceColors: toVec4Array(effect.source.slice(0, count)),
+          targetColors: toVec4Array(effect.target.slice(0, count)),
+          count,
+          tolerance: Math.max(0, finiteOr(effect.tolerance, 0.01)),
+        },
+      };
+    }
+    case 'shader':
+      return { kind: 'shader', source: effect.source, uniforms: effect.uniforms ?? {} };
+  }
+};
+
+export interface SpriteEffectStackProps {
+  effects: SpriteEffect[] | null | undefined;
+  /** Composites the finished stack onto the scene; inner layers blend normally. */
+  blendMode?: SpriteBlendMode;
+  children: ReactNode;
+}
+
+/**
+ * Wraps `children` in one layer per effect, innermost first, so every effect filters the output
+ * of the previous one.
+ */
+export const SpriteEffectStack = ({ effects, blendMode, children }: SpriteEffectStackProps) => {
+  if (!effects?.length) {
+    return <>{children}</>;
+  }
+  return effects.reduce<ReactElement>(
+    (content, effect, index) => {
+      const resolved = resolveSpriteEffect(effect);
+      return (
+        <Group key={index} blendMode={index === effects.length - 1 ? blendMode : undefined}>
+          {resolved.kind === 'shader' ? (
+            <RuntimeShader source={resolved.source} uniforms={resolved.uniforms} />
+          ) : (
+            <Shadow dx={resolved.dx} dy={resolved.dy} blur={resolved.blur} color={resolved.color} />
+          )}
+          {content}
+        </Group>
+      );
+    },
+    <>{children}</>,
+  );
+};
@@ -0,0 +1,95 @@
+/* eslint-disable jsdoc/require-jsdoc */
+import React, { forwardRef, useMemo } from 'react';
+import { Group } from '@shopify/react-native-skia';
+import type { AnimatedSprite2DHandle, AnimatedSprite2DProps } from './editor/animatedSprite2dTypes';
+import { useAnimatedSpriteController } from './editor/hooks/animatedSprite2d/useAnimatedSpriteController';
+import { useAnimatedSpriteHandle } from './editor/hooks/animatedSprite2d/useAnimatedSpriteHandle';
+import { SpriteFrameNode } from './AnimatedSprite2DView';
+import { UIThreadSpriteLayout } from './UIThreadSpriteLayout';
+import { useSpriteResourceReady } from './hooks/useSpriteResourceReady';
+
+export interface SpriteNodeProps extends Omit<AnimatedSprite2DProps, 'style'> {
+  /** Left edge of the sprite's box in the parent canvas. Defaults to 0. */
+  x?: number;
+  /** Top edge of the sprite's box in the parent canvas. Defaults to 0. */
+  y?: number;
+}
+
+/**
+ * Canvas-less `AnimatedSprite2D`: renders the current frame as Skia children so sprites can be
+ * composed into an existing `Canvas`. Accepts the same props (minus `style`) and handle.
+ * `placeholder` must be Skia content here.
+ */
+export const SpriteNode = forwardRef<AnimatedSprite2DHandle, SpriteNodeProps>((props, ref) => {
+  const { x = 0, y = 0, placeholder, onReady, ...controllerOptions } = props;
+  const frames = controllerOptions.frames;
+  const ready = useSpriteResourceReady(frames, { onReady });
+  const controller = useAnimatedSpriteController({ ...controllerOptions, suspended: !ready });
+  useAnimatedSpriteHandle(ref, controller, frames);
+  const {
+    currentFrame,
+    frameImage,
+    canvasSize,
+    drawOrigin,
+    scale,
+    driver,
+    forcedFrameIndex,
+    contentRect,
+    boxTransform,
+    pixelPerfect,
+    modulate,
+    opacity,
+    blendMode,
+    effects,
+    paletteSwap,
+  } = controller;
+  const transform = useMemo(
+    () => (x || y ? [{ translateX: x }, { translateY: y }] : undefined),
+    [x, y],
+  );
+
+  if (!ready && placeholder !== undefined) {
+    return <Group transform={transform}>{placeholder}</Group>;
+  }
+
+  const nodeProps = {
+    frame: currentFrame,
+    frameImage,
+    canvasSize,
+    drawOrigin,
+    flipH: props.flipH,
+    flipV: props.flipV,
+    scale,
+    contentRect,
+    boxTransform,
+    pixelPerfect,
+    modulate,
+    opacity,
+    blendMode,
+    effects,
+    paletteSwap,
+  };
+
+  if (driver === 'ui' && forcedFrameIndex === null) {
+    return (
+      <Group transform={transform}>
+        <UIThreadSpriteLayout
+          controller={controller}
+          frames={frames}
+          centered={props.centered}
+          offset={props.offset}
+        >
+          {(animatedLayout) => <SpriteFrameNode {...nodeProps} animatedLayout={animatedLayout} />}
+        </UIThreadSpriteLayout>
+      </Group>
+    );
+  }
+
+  return (
+    <Group transform={transform}>
+      <SpriteFrameNode {...nodeProps} />
+    </Group>
+  );
+});
+
+SpriteNode.displayName = 'SpriteNode';
@@ -0,0 +1,45 @@
+/* eslint-disable jsdoc/require-jsdoc */
+import type { ReactElement } from 'react';
+import type { SpriteFramesResource } from './editor/animatedSprite2dTypes';
+import type { AnimatedSpriteControllerResult } from './editor/hooks/animatedSprite2d/useAnimatedSpriteController';
+import { useUIThreadPlayback } from './editor/hooks/animatedSprite2d/useUIThreadPlayback';
+import type { AnimatedSprite2DViewLayout } from './AnimatedSprite2DView';
+
+export interface UIThreadSpriteLayoutProps {
+  controller: AnimatedSpriteControllerResult;
+  frames: SpriteFramesResource;
+  centered?: boolean;
+  offset?: { x: number; y: number };
+  children: (layout: AnimatedSprite2DViewLayout) => ReactElement;
+}
+
+// Separate component so Reanimated hooks only run (and the module only loads) when opted in.
+export const UIThreadSpriteLayout = ({
+  controller,
+  frames,
+  centered = true,
+  offset,
+  children,
+}: UIThreadSpriteLayoutProps) =>
+  children(
+    useUIThreadPlayback({
+      frames,
+      sequence: controller.sequence,
+      animationName: controller.animationName,
+      direction: controller.direction,
+      playing: controller.playing && !controller.suspended,
+      speedScale: controller.speedScale,
+      cursor: controller.effectiveCursor,
+      cursorRevision: controller.cursorRevision,
+      frameImage: controller.frameImage,
+      canvasSize: controller.contentRect,
+      contentOffset: controller.contentRect,
+      centered,
+      scale: controller.scale,
+      offset,
+      pixelSnap: controller.pixelPerfect,
+      onCursor: controller.reportExternalCursor,
+      onFinished: controller.completeExternalPlayback,
+      onPaused: controller.syncExternalCursor,
+    }),
+  );
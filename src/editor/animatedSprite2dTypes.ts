@@ -1,6 +1,20 @@
 /* eslint-disable jsdoc/require-jsdoc */
-import type { SkImage } from '@shopify/react-native-skia';
+import type {
+  BlendMode,
+  Color,
+  SkEnum,
+  SkImage,
+  SkRuntimeEffect,
+  Uniforms,
+} from '@shopify/react-native-skia';
+import type { ReactNode } from 'react';
 import type { StyleProp, ViewStyle } from 'react-native';
+import type {
+  AnimationPlayOptions,
+  PlaybackDirection,
+  SpriteAnimationEvent,
+  SpriteAnimationPlaybackMode,
+} from '../spriteTypes';
 
 export interface FrameImageSubset {
   x: number;
@@ -33,6 +47,10 @@ export interface AnimatedSpriteFrame {
   duration?: number;
   /** Per-frame offset relative to the centered canvas. */
   offset?: { x: number; y: number };
+  /** Size before transparent borders were trimmed away; layout centers this box instead. */
+  sourceSize?: { width: number; height: number };
+  /** Position of the trimmed pixels inside `sourceSize`. */
+  trimOffset?: { x: number; y: number };
   /** Source image descriptor. */
   image: FrameImageSource;
 }
@@ -41,8 +59,18 @@ export type SpriteAnimationSequence = number[];
 
 export interface SpriteAnimationMeta {
   loop?: boolean;
+  /** Overrides `loop`; `pingpong` bounces between the ends without repeating them. */
+  playbackMode?: SpriteAnimationPlaybackMode;
+  /** Number of loops (or ping-pong round trips) before stopping; unset or 0 repeats forever. */
+  loopCount?: number;
+  /** Timeline index repeats wrap back to, leaving earlier slots as a one-shot intro. */
+  loopStart?: number;
+  /** Animation to continue with once this one finishes (ignored while it loops forever). */
+  next?: string;
   fps?: number;
   multipliers?: number[];
+  /** Named events fired when playback enters the given timeline index. */
+  events?: SpriteAnimationEvent[];
 }
 
 export type SpriteAnimationsMap = Record<string, SpriteAnimationSequence>;
@@ -62,6 +90,108 @@ export interface AnimatedSpriteFrameChangeEvent {
   frameIndex: number;
 }
 
+export interface AnimatedSpriteAnimationEvent {
+  animationName: string | null;
+  /** Event name authored in `animationsMeta[animation].events`. */
+  name: string;
+  /** Sprite-sheet frame index shown when the event fired. */
+  frameIndex: number;
+  /** Timeline position the event is attached to. */
+  timelineIndex: number;
+}
+
+export interface SpritePlaybackPosition {
+  animationName: string | null;
+  /** Timeline index on screen. */
+  cursor: number;
+  /** Milliseconds since the animation started, including completed loops. */
+  elapsed: number;
+  /** Length of the whole animation; for endless loops, of the pass up to the first repeat. */
+  total: number;
+  /** Completed loops, or round trips for ping-pong. */
+  iteration: number;
+}
+
+export type SpritePlaybackDriver = 'js' | 'ui';
+
+/** `'manual'` advances only through `advance(deltaMs)`, for game loops and replays. */
+export type SpriteClockMode = 'auto' | 'manual';
+
+export interface SpriteOutlineEffect {
+  type: 'outline';
+  /** Defaults to white. */
+  color?: Color;
+  /** Thickness in canvas pixels; defaults to 1. */
+  width?: number;
+}
+
+export interface SpriteFlashEffect {
+  type: 'flash';
+  /** Defaults to white. */
+  color?: Color;
+  /** 0 leaves the sprite unchanged, 1 (default) fills it with `color`. */
+  amount?: number;
+}
+
+export interface SpriteDissolveEffect {
+  type: 'dissolve';
+  /** 0 shows the whole sprite, 1 has dissolved it completely. */
+  progress: number;
+  /** Color of the band along the dissolving edge; defaults to orange. */
+  edgeColor?: Color;
+  /** Width of that band in noise units (0–1); defaults to 0.05. */
+  edgeWidth?: number;
+  /** Size of one noise cell in canvas pixels; defaults to 8. */
+  noiseScale?: number;
+  seed?: number;
+}
+
+export interface SpriteDropShadowEffect {
+  type: 'dropShadow';
+  /** Defaults to 2. */
+  dx?: number;
+  /** Defaults to 2. */
+  dy?: number;
+  /** Defaults to 2. */
+  blur?: number;
+  /** Defaults to half-transparent black. */
+  color?: Color;
+}
+
+export interface SpriteShaderEffect {
+  type: 'shader';
+  /** Must declare `uniform shader image;`, which receives the sprite with earlier effects applied. */
+  source: SkRuntimeEffect;
+  uniforms?: Uniforms;
+}
+
+export interface SpritePaletteEffect {
+  type: 'palette';
+  /** Colors to replace; at most 32 are used. */
+  source: Color[];
+  /** Replacement for the source color at the same index. */
+  target: Color[];
+  /** Largest RGB distance (0–1.73) that still counts as a match; defaults to 0.01. */
+  tolerance?: number;
+}
+
+/** Applied in order; each effect receives the result of the previous one. */
+export type SpriteEffect =
+  | SpriteOutlineEffect
+  | SpriteFlashEffect
+  | SpriteDissolveEffect
+  | SpriteDropShadowEffect
+  | SpritePaletteEffect
+  | SpriteShaderEffect;
+
+export interface SpritePixelPerfectOptions {
+  /** Snaps `scale` to a whole number (or 1/n below 1) so every source pixel has the same size. */
+  integerScale?: boolean;
+}
+
+/** Skia blend mode name, e.g. `'multiply'`, `'screen'` or `'plus'`. */
+export type SpriteBlendMode = SkEnum<typeof BlendMode>;
+
 export interface AnimatedSprite2DProps {
   frames: SpriteFramesResource;
   animation?: string | null;
@@ -69,21 +199,105 @@ export interface AnimatedSprite2DProps {
   playing?: boolean;
   frame?: number | null;
   speedScale?: number;
+  /** Plays the sequence backwards when `'reverse'`; `play(name, { direction })` overrides it. */
+  direction?: PlaybackDirection;
+  /** Changing it restarts the current animation from its first frame. */
+  restartKey?: string | number;
   scale?: number;
   centered?: boolean;
   flipH?: boolean;
   flipV?: boolean;
   offset?: { x: number; y: number };
+  /**
+   * Crisp pixel art: nearest-neighbour sampling and draw origins snapped to whole device pixels.
+   * Pass `{ integerScale: true }` to also force integer scale factors.
+   */
+  pixelPerfect?: boolean | SpritePixelPerfectOptions;
+  /** Clockwise rotation in radians around `pivot`. The canvas grows to fit the rotated sprite. */
+  rotation?: number;
+  /** Skew angles in radians around `pivot`, passed to Skia's `skewX`/`skewY` transforms. */
+  skew?: { x: number; y: number };
+  /**
+   * Point in frame pixels, from the frame's top-left, that rotation and skew pivot around.
+   * Defaults to `frames.meta.origin`, then the frame center.
+   */
+  pivot?: { x: number; y: number };
+  /** Color multiplied into every pixel (e.g. `'#ff4040'` for a red tint); `null` disables it. */
+  modulate?: Color | null;
+  /** 0–1; defaults to 1. */
+  opacity?: number;
+  /** How the sprite is blended onto what is already drawn; defaults to normal (`srcOver`). */
+  blendMode?: SpriteBlendMode | null;
+  /** Image effects such as outlines or a hit flash; drawn inside the sprite's canvas. */
+  effects?: SpriteEffect[] | null;
+  /**
+   * Variant of `frames.meta.palettes` to recolor the sprite with. The swap happens before
+   * `modulate` and `effects`; `null` or an unknown name draws the original colors.
+   */
+  palette?: string | null;
+  /**
+   * `'ui'` advances frames on the UI thread via react-native-reanimated instead of re-rendering
+   * every frame. Only used when all frames share one image source; otherwise `'js'` (default).
+   * Queues, `next` chains and a `SpriteClockProvider` also switch the sprite to `'js'`.
+   */
+  playbackDriver?: SpritePlaybackDriver;
+  /**
+   * `'manual'` stops the sprite from following frame callbacks (and any `SpriteClockProvider`);
+   * time passes only through the handle's `advance(deltaMs)`. Forces `playbackDriver="js"`.
+   */
+  clock?: SpriteClockMode;
   onAnimationFinished?: (name: string | null) => void;
   onFrameChanged?: (event: AnimatedSpriteFrameChangeEvent) => void;
+  onAnimationEvent?: (event: AnimatedSpriteAnimationEvent) => void;
+  /**
+   * Called on every tick while playing (every frame change with `playbackDriver="ui"`). Times
+   * follow `speedScale`.
+   */
+  onProgress?: (position: SpritePlaybackPosition) => void;
+  /** Called once every frame image of `frames` is in the shared image cache. */
+  onReady?: () => void;
+  /** Rendered instead of the sprite until every frame image has loaded. */
+  placeholder?: ReactNode;
   style?: StyleProp<ViewStyle>;
 }
 
 export interface AnimatedSprite2DHandle {
-  play: (name?: string | null) => void;
+  /**
+   * Starts playback. `fromFrame` is a timeline index; `direction` and `speedScale` stay in effect
+   * until the matching prop changes.
+   */
+  play: (name?: string | null, opts?: AnimationPlayOptions) => void;
   stop: () => void;
   pause: () => void;
   seekFrame: (frameIndex: number) => void;
+  /**
+   * Jumps to `ms` after the start of the animation, following loops, ping-pong and per-frame
+   * durations, and pauses like `seekFrame`.
+   */
+  seekTime: (ms: number) => void;
+  /** Jumps to a timeline index, which tells apart repeated uses of one sheet frame; pauses. */
+  seekCursor: (timelineIndex: number) => void;
+  getPlaybackPosition: () => SpritePlaybackPosition;
+  /**
+   * Moves a `clock="manual"` sprite forward by `deltaMs` while it is playing. The same deltas
+   * always produce the same frames and events. Ignored with the default clock.
+   */
+  advance: (deltaMs: number) => void;
+  /** Plays `name` after the current animation finishes or completes its current loop. */
+  queue: (name: string) => void;
+  /** Plays the first animation now and queues the rest. */
+  playSequence: (names: string[]) => void;
+  clearQueue: () => void;
   getCurrentAnimation: () => string | null;
   isPlaying: () => boolean;
+  /** Overrides the `modulate` prop until it changes; only this sprite re-renders. */
+  setModulate: (color: Color | null) => void;
+  /** Overrides the `opacity` prop until it changes. */
+  setOpacity: (opacity: number) => void;
+  /** Overrides the `blendMode` prop until it changes. */
+  setBlendMode: (mode: SpriteBlendMode | null) => void;
+  /** Overrides the `effects` prop until it changes; call it per frame to animate parameters. */
+  setEffects: (effects: SpriteEffect[] | null) => void;
+  /** Overrides the `palette` prop until it changes. */
+  setPalette: (palette: string | null) => void;
 }
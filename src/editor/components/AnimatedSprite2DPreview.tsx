@@ -17,6 +17,7 @@ import { IconButton } from './IconButton';
 import type { SpriteFramesResource } from '../animatedSprite2dTypes';
 import { useSpriteAnimationTicker } from '../../hooks/useSpriteAnimationTicker';
 import { getEditorStrings } from '../localization';
+import { snapIntegerScale, stepIntegerScale } from '../hooks/animatedSprite2d/helpers';
 
 const MIN_PREVIEW_HEIGHT = 420;
 const MIN_ZOOM = 0.05;
@@ -29,6 +30,8 @@ interface AnimatedSprite2DPreviewProps {
   animationName: string | null;
   mode?: 'timeline' | 'self';
   allowRendering?: boolean;
+  /** Nearest-neighbour drawing with whole-number (or 1/n) zoom levels. */
+  pixelPerfect?: boolean;
 }
 
 export const AnimatedSprite2DPreview = ({
@@ -37,6 +40,7 @@ export const AnimatedSprite2DPreview = ({
   animationName,
   mode = 'timeline',
   allowRendering = true,
+  pixelPerfect = false,
 }: AnimatedSprite2DPreviewProps) => {
   const strings = useMemo(() => getEditorStrings(), []);
   const colorScheme = useColorScheme();
@@ -97,11 +101,17 @@ export const AnimatedSprite2DPreview = ({
   const baseWidth = sceneBounds.width || 64;
   const baseHeight = sceneBounds.height || 64;
 
-  const clampZoom = useCallback((value: number, maxZoom: number) => {
-    const rounded = parseFloat(value.toFixed(2));
-    const upper = maxZoom > 0 ? maxZoom : Number.POSITIVE_INFINITY;
-    return Math.max(MIN_ZOOM, Math.min(rounded, upper));
-  }, []);
+  const clampZoom = useCallback(
+    (value: number, maxZoom: number) => {
+      const upper = maxZoom > 0 ? maxZoom : Number.POSITIVE_INFINITY;
+      if (pixelPerfect) {
+        return snapIntegerScale(Math.max(MIN_ZOOM, Math.min(value, upper)));
+      }
+      const rounded = parseFloat(value.toFixed(2));
+      return Math.max(MIN_ZOOM, Math.min(rounded, upper));
+    },
+    [pixelPerfect],
+  );
 
   const handleLayout = useCallback((event: LayoutChangeEvent) => {
     const nextWidth = event.nativeEvent.layout.width;
@@ -156,11 +166,22 @@ export const AnimatedSprite2DPreview = ({
     setAutoZoomed(true);
   }, [autoZoomed, clampZoom, maxZoomAllowed, resource, zoom]);
 
+  useEffect(() => {
+    if (pixelPerfect) {
+      setZoom((prev) => snapIntegerScale(prev));
+    }
+  }, [pixelPerfect]);
+
   const adjustZoom = useCallback(
     (delta: number) => {
-      setZoom((prev) => clampZoom(prev + delta, maxZoomAllowed));
+      setZoom((prev) =>
+        clampZoom(
+          pixelPerfect ? stepIntegerScale(prev, delta > 0 ? 1 : -1) : prev + delta,
+          maxZoomAllowed,
+        ),
+      );
     },
-    [clampZoom, maxZoomAllowed],
+    [clampZoom, maxZoomAllowed, pixelPerfect],
   );
 
   const resetZoom = useCallback(() => {
@@ -270,6 +291,7 @@ export const AnimatedSprite2DPreview = ({
                   speedScale={integration.speedScale}
                   centered
                   scale={zoom}
+                  pixelPerfect={pixelPerfect}
                 />
               </View>
             </View>
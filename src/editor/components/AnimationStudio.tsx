@@ -19,6 +19,10 @@ import type { NativeScrollEvent, NativeSyntheticEvent, ViewStyle } from 'react-n
 import * as FileSystem from 'expo-file-system/legacy';
 import * as Sharing from 'expo-sharing';
 import { cleanSpriteData } from '../utils/cleanSpriteData';
+import { importAsepriteJson, isAsepriteJson, type AsepriteJson } from '../utils/asepriteJson';
+import { encodeBase64 } from '../utils/base64';
+import { buildAnimatedSpriteFrames } from '../utils/buildAnimatedSpriteFrames';
+import { renderSpriteAnimationToGif } from '../../renderSpriteAnimation';
 import {
   saveSprite,
   listSprites,
@@ -27,9 +31,17 @@ import {
   type SpriteSummary,
   type StoredSprite,
 } from '../../storage/spriteStorage';
+import { exportSpriteContactSheet, exportSpritePngSequence } from '../../storage/spriteExport';
+import { importAsepriteFile } from '../../storage/asepriteImport';
+import { packSpriteAtlas } from '../../storage/spriteAtlas';
 import { useMetadataManager } from '../hooks/useMetadataManager';
 import { useTimelineEditor } from '../hooks/useTimelineEditor';
-import type { SpriteAnimationMeta, SpriteAnimationsMeta } from '../../spriteTypes';
+import type {
+  SpriteAnimationEvent,
+  SpriteAnimationMeta,
+  SpriteAnimationsMeta,
+  SpriteStateMachineDefinition,
+} from '../../spriteTypes';
 import { useSpriteEditor, type SpriteEditorApi } from '../hooks/useSpriteEditor';
 import type { SpriteEditorFrame } from '../types';
 import { MaterialIcons } from '@expo/vector-icons';
@@ -44,14 +56,23 @@ import {
 import { SelectableTextInput } from './SelectableTextInput';
 import { useEditorIntegration, type EditorIntegration } from '../hooks/useEditorIntegration';
 import { FileBrowserModal } from './FileBrowserModal';
+import { StateMachinePreviewModal } from './StateMachinePreviewModal';
+import { PaletteEditorModal } from './PaletteEditorModal';
 import { StoragePanel } from './StoragePanel';
 import {
   TimelinePanel,
+  type EventsFieldHandle,
   type FrameImageInfo,
   type MultiplierFieldHandle,
   type TimelineSequenceCard,
 } from './TimelinePanel';
 import { getEditorStrings, formatEditorString } from '../localization';
+import {
+  resolveLoopCount,
+  resolveLoopStart,
+  resolvePlaybackMode,
+} from '../hooks/animatedSprite2d/helpers';
+import { normalizeSpriteStateMachine } from '../utils/spriteStateMachine';
 
 /**
  * Adapter interface that lets consumers provide their own persistence layer.
@@ -83,6 +104,8 @@ export interface AnimationStudioProps {
   enableKeyboardAvoidance?: boolean;
   /** Parent scroll view ref used to nudge focused inputs into view. */
   scrollParentRef?: React.RefObject<ScrollView | null>;
+  /** Crisp pixel-art drawing with integer zoom in the preview and frame picker. */
+  pixelPerfect?: boolean;
 }
 
 const DEFAULT_ANIMATION_FPS = 5;
@@ -92,6 +115,24 @@ const DEFAULT_FRAME_MULTIPLIER = 1;
 const MIN_FRAME_MULTIPLIER = 0.1;
 const MULTIPLIER_EPSILON = 0.0001;
 const DEFAULT_PROTECTED_META_KEYS = ['displayName', 'createdAt', 'updatedAt'];
+const GIF_SCALES = [1, 2, 4];
+// URIs with a scheme (file://, content://, https://) load as they are
+const ABSOLUTE_URI_PATTERN = /^[a-z][\w+.-]*:\/\//i;
+const ASEPRITE_FILE_PATTERN = /\.(ase|aseprite)$/i;
+// images for frames, plus Aseprite files that open as a whole sprite
+const FRAME_SOURCE_EXTENSIONS = [
+  '.png',
+  '.jpg',
+  '.jpeg',
+  '.gif',
+  '.webp',
+  '.bmp',
+  '.heic',
+  '.heif',
+  '.tiff',
+  '.ase',
+  '.aseprite',
+];
 
 const defaultStorageController: SpriteStorageController = {
   saveSprite,
@@ -174,16 +215,99 @@ const multipliersEqual = (a: number[] | undefined, b: number[]) => {
   return true;
 };
 
+const normalizeEventsArray = (
+  events: SpriteAnimationEvent[] | undefined,
+  sequenceLength: number,
+): SpriteAnimationEvent[] => {
+  if (!Array.isArray(events)) {
+    return [];
+  }
+  return events
+    .filter(
+      (event) =>
+        event &&
+        typeof event.name === 'string' &&
+        event.name.length > 0 &&
+        Number.isInteger(event.index) &&
+        event.index >= 0 &&
+        event.index < sequenceLength,
+    )
+    .map((event) => ({ index: event.index, name: event.name }))
+    .sort((a, b) => a.index - b.index);
+};
+
+const eventsEqual = (
+  a: SpriteAnimationEvent[] | undefined,
+  b: SpriteAnimationEvent[] | undefined,
+) => {
+  const left = a ?? [];
+  const right = b ?? [];
+  if (left.length !== right.length) {
+    return false;
+  }
+  return left.every(
+    (event, index) => event.index === right[index]!.index && event.name === right[index]!.name,
+  );
+};
+
+const remapEventsArray = (
+  events: SpriteAnimationEvent[],
+  mapIndex: (index: number) => number | null,
+): SpriteAnimationEvent[] =>
+  events.reduce<SpriteAnimationEvent[]>((acc, event) => {
+    const nextIndex = mapIndex(event.index);
+    if (nextIndex !== null) {
+      acc.push({ index: nextIndex, name: event.name });
+    }
+    return acc;
+  }, []);
+
+const retargetNextAnimation = (
+  meta: SpriteAnimationsMeta,
+  from: string,
+  to: string | null,
+): SpriteAnimationsMeta => {
+  const result: SpriteAnimationsMeta = {};
+  Object.entries(meta).forEach(([name, entry]) => {
+    if (entry?.next !== from) {
+      result[name] = entry;
+      return;
+    }
+    const { next: _next, ...rest } = entry;
+    result[name] = to ? { ...rest, next: to } : rest;
+  });
+  return result;
+};
+
+const retargetStateMachineAnimation = (
+  definition: SpriteStateMachineDefinition,
+  from: string,
+  to: string,
+): SpriteStateMachineDefinition => {
+  const states: SpriteStateMachineDefinition['states'] = {};
+  Object.entries(definition.states).forEach(([name, state]) => {
+    states[name] = state.animation === from ? { ...state, animation: to } : state;
+  });
+  return { ...definition, states };
+};
+
 const animationMetaEquals = (a?: SpriteAnimationMeta, b?: SpriteAnimationMeta) => {
   if (!a || !b) {
     return false;
   }
   if (
     a.loop !== b.loop ||
+    a.playbackMode !== b.playbackMode ||
+    a.loopCount !== b.loopCount ||
+    a.loopStart !== b.loopStart ||
+    a.next !== b.next ||
     clampFps(a.fps ?? DEFAULT_ANIMATION_FPS) !== clampFps(b.fps ?? DEFAULT_ANIMATION_FPS)
   ) {
     return false;
   }
+  if (!eventsEqual(a.events, b.events)) {
+    return false;
+  }
   return multipliersEqual(a.multipliers, b.multipliers ?? []);
 };
 
@@ -195,11 +319,30 @@ const normalizeAnimationMetaEntry = (
   if (typeof entry?.loop === 'boolean') {
     normalized.loop = entry.loop;
   }
+  if (entry?.playbackMode) {
+    normalized.playbackMode = resolvePlaybackMode(entry);
+    normalized.loop = normalized.playbackMode !== 'once';
+  }
+  const loopCount = resolveLoopCount(entry);
+  if (loopCount > 0) {
+    normalized.loopCount = loopCount;
+  }
+  const loopStart = resolveLoopStart(entry, sequenceLength);
+  if (loopStart > 0) {
+    normalized.loopStart = loopStart;
+  }
+  if (typeof entry?.next === 'string' && entry.next.length) {
+    normalized.next = entry.next;
+  }
   normalized.fps = clampFps(entry?.fps ?? DEFAULT_ANIMATION_FPS);
   normalized.multipliers = normalizeMultipliersArray(
     Array.isArray(entry?.multipliers) ? entry.multipliers : [],
     sequenceLength,
   );
+  const events = normalizeEventsArray(entry?.events, sequenceLength);
+  if (events.length) {
+    normalized.events = events;
+  }
   return normalized;
 };
 
@@ -229,6 +372,7 @@ export const AnimationStudio = ({
   protectedMetaKeys = DEFAULT_PROTECTED_META_KEYS,
   enableKeyboardAvoidance = false,
   scrollParentRef,
+  pixelPerfect = false,
 }: AnimationStudioProps) => {
   const fallbackEditor = useSpriteEditor();
   const editor = editorProp ?? fallbackEditor;
@@ -263,6 +407,8 @@ export const AnimationStudio = ({
   const [isFramePickerVisible, setFramePickerVisible] = useState(false);
   const [framePickerVariant, setFramePickerVariant] = useState<MacWindowVariant>('default');
   const [isStorageManagerVisible, setStorageManagerVisible] = useState(false);
+  const [isStateMachineModalVisible, setStateMachineModalVisible] = useState(false);
+  const [isPaletteModalVisible, setPaletteModalVisible] = useState(false);
   const [fileActionMessage, setFileActionMessage] = useState<string | null>(null);
   const [isQuickSaving, setIsQuickSaving] = useState(false);
   const [lastStoredSummary, setLastStoredSummary] = useState<SpriteSummary | null>(null);
@@ -277,6 +423,10 @@ export const AnimationStudio = ({
   const [exportPreview, setExportPreview] = useState('');
   const [importText, setImportText] = useState('');
   const [templateStatus, setTemplateStatus] = useState<string | null>(null);
+  const [gifScale, setGifScale] = useState(1);
+  const [isGifTransparent, setGifTransparent] = useState(true);
+  const [isExportingGif, setIsExportingGif] = useState(false);
+  const [isExportingImages, setIsExportingImages] = useState(false);
   const [isMetaModalVisible, setMetaModalVisible] = useState(false);
   const [isTemplateModalVisible, setTemplateModalVisible] = useState(false);
   const [metaModalVariant, setMetaModalVariant] = useState<MacWindowVariant>('default');
@@ -409,7 +559,11 @@ export const AnimationStudio = ({
     };
   }, [fileActionMessage]);
   const [isFrameSourceBrowserVisible, setFrameSourceBrowserVisible] = useState(false);
-  const [framePickerMode, setFramePickerMode] = useState<'grid' | 'single'>('grid');
+  const [framePickerMode, setFramePickerMode] = useState<'grid' | 'single' | 'asepriteSheet'>(
+    'grid',
+  );
+  // Aseprite JSON waiting for its sheet image to be picked
+  const pendingAsepriteRef = useRef<AsepriteJson | null>(null);
   const [framePickerImage, setFramePickerImage] = useState<FrameGridImageDescriptor | null>(null);
   const [frameImageInfos, setFrameImageInfos] = useState<Record<string, FrameImageInfo>>({});
   const frameImageInfosRef = useRef(frameImageInfos);
@@ -429,8 +583,10 @@ export const AnimationStudio = ({
     timelineCursor,
   } = integration;
   const multiplierFieldRef = useRef<MultiplierFieldHandle>(null);
+  const eventsFieldRef = useRef<EventsFieldHandle>(null);
   const commitPendingMultiplier = useCallback(() => {
     multiplierFieldRef.current?.commit();
+    eventsFieldRef.current?.commit();
   }, []);
   const {
     clipboard: timelineClipboard,
@@ -498,16 +654,68 @@ export const AnimationStudio = ({
     strings.templateModal.shareDialogTitle,
   ]);
 
+  const applyAsepriteImport = useCallback(
+    (json: AsepriteJson, imageUri: string) => {
+      const data = importAsepriteJson(json, imageUri);
+      editor.importJSON(cleanSpriteData(data as any));
+      setTemplateStatus(
+        formatEditorString(strings.animationStudio.asepriteImported, {
+          count: Object.keys(data.animations ?? {}).length,
+        }),
+      );
+      setTemplateModalVisible(false);
+    },
+    [editor, strings.animationStudio.asepriteImported],
+  );
+
+  const handleOpenAsepriteFile = useCallback(
+    async (uri: string) => {
+      try {
+        const data = await importAsepriteFile(uri);
+        if (!data) {
+          throw new Error(strings.animationStudio.asepriteFileFailed);
+        }
+        editor.importJSON(cleanSpriteData(data as any));
+        setTemplateStatus(
+          formatEditorString(strings.animationStudio.asepriteImported, {
+            count: Object.keys(data.animations ?? {}).length,
+          }),
+        );
+      } catch (error) {
+        Alert.alert(strings.animationStudio.importFailedTitle, (error as Error).message);
+      }
+    },
+    [
+      editor,
+      strings.animationStudio.asepriteFileFailed,
+      strings.animationStudio.asepriteImported,
+      strings.animationStudio.importFailedTitle,
+    ],
+  );
+
   const handleImportTemplate = useCallback(() => {
     try {
       const parsed = JSON.parse(importText);
+      if (isAsepriteJson(parsed)) {
+        const image = parsed.meta?.image;
+        if (image && ABSOLUTE_URI_PATTERN.test(image)) {
+          applyAsepriteImport(parsed, image);
+          return;
+        }
+        // the sheet path is relative to the JSON file, so ask for the sheet itself
+        pendingAsepriteRef.current = parsed;
+        setTemplateModalVisible(false);
+        setFramePickerMode('asepriteSheet');
+        setFrameSourceBrowserVisible(true);
+        return;
+      }
       editor.importJSON(cleanSpriteData(parsed as any));
       setTemplateStatus(strings.animationStudio.templateImported);
       setTemplateModalVisible(false);
     } catch (error) {
       setTemplateStatus((error as Error).message);
     }
-  }, [editor, importText, strings.animationStudio.templateImported]);
+  }, [applyAsepriteImport, editor, importText, strings.animationStudio.templateImported]);
 
   const handleOpenMetaModal = useCallback(() => {
     resetMeta();
@@ -537,11 +745,15 @@ export const AnimationStudio = ({
   const templateModalExpanded = templateModalVariant === 'fullscreen';
 
   const updateAnimationMetaEntry = useCallback(
-    (name: string, mutator: (draft: SpriteAnimationMeta) => void) => {
+    (
+      name: string,
+      mutator: (draft: SpriteAnimationMeta) => void,
+      sequenceLengthOverride?: number,
+    ) => {
       if (!name) {
         return;
       }
-      const sequenceLength = animations[name]?.length ?? 0;
+      const sequenceLength = sequenceLengthOverride ?? animations[name]?.length ?? 0;
       const draft: SpriteAnimationMeta = createAnimationMetaDraft(
         animationsMeta[name],
         sequenceLength,
@@ -560,20 +772,6 @@ export const AnimationStudio = ({
     [animations, animationsMeta, editor],
   );
 
-  const setAnimationMultipliers = useCallback(
-    (name: string, values: number[]) => {
-      const sequenceLength = animations[name]?.length ?? values.length;
-      const normalized = normalizeMultipliersArray(values, sequenceLength);
-      updateAnimationMetaEntry(name, (draft) => {
-        if (multipliersEqual(draft.multipliers, normalized)) {
-          return;
-        }
-        draft.multipliers = normalized.slice();
-      });
-    },
-    [animations, updateAnimationMetaEntry],
-  );
-
   useEffect(() => {
     if (legacySettingsMigratedRef.current) {
       return;
@@ -811,6 +1009,7 @@ export const AnimationStudio = ({
   ]);
 
   const autoPlayAnimationName = editor.state.autoPlayAnimation ?? null;
+  const stateMachine = editor.state.stateMachine;
   const animationNames = useMemo(() => Object.keys(animations), [animations]);
   const currentAnimationName = activeAnimation ?? animationNames[0];
   const hasActiveAnimation = Boolean(currentAnimationName);
@@ -822,9 +1021,181 @@ export const AnimationStudio = ({
   const currentAnimationFps = currentAnimationName
     ? clampFps(animationsMeta[currentAnimationName]?.fps ?? DEFAULT_ANIMATION_FPS)
     : DEFAULT_ANIMATION_FPS;
-  const currentAnimationLoop = currentAnimationName
-    ? (animationsMeta[currentAnimationName]?.loop ?? true)
-    : true;
+  const currentPlaybackMode = resolvePlaybackMode(
+    currentAnimationName ? animationsMeta[currentAnimationName] : undefined,
+  );
+  const currentLoopCount = currentAnimationName
+    ? resolveLoopCount(animationsMeta[currentAnimationName])
+    : 0;
+  const currentAnimationLoop = currentPlaybackMode !== 'once';
+
+  const handleExportGif = useCallback(async () => {
+    const resource = buildAnimatedSpriteFrames(editor.state);
+    if (!currentAnimationName || !resource) {
+      setTemplateStatus(strings.templateModal.gifExportFailedMessage);
+      return;
+    }
+    setIsExportingGif(true);
+    try {
+      const gif = await renderSpriteAnimationToGif(resource, {
+        animation: currentAnimationName,
+        scale: gifScale,
+        background: isGifTransparent ? null : '#ffffff',
+        pixelPerfect,
+      });
+      if (!gif) {
+        setTemplateStatus(strings.templateModal.gifExportFailedMessage);
+        return;
+      }
+      const base64 = encodeBase64(gif);
+      const exportedMessage = formatEditorString(strings.templateModal.gifExportedMessage, {
+        name: currentAnimationName,
+      });
+      if (Platform.OS === 'web') {
+        const dataUrl = `data:image/gif;base64,${base64}`;
+        const supported = await Linking.canOpenURL(dataUrl);
+        if (supported) {
+          await Linking.openURL(dataUrl);
+          setTemplateStatus(exportedMessage);
+        } else {
+          setTemplateStatus(strings.templateModal.gifExportFailedMessage);
+        }
+        return;
+      }
+      const directory = FileSystem.cacheDirectory ?? FileSystem.documentDirectory;
+      if (!directory) {
+        setTemplateStatus(strings.templateModal.gifExportFailedMessage);
+        return;
+      }
+      const fileUri = `${directory}${currentAnimationName.replace(/[^\w-]+/g, '_')}-${Date.now()}.gif`;
+      await FileSystem.writeAsStringAsync(fileUri, base64, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      const canShare = await Sharing.isAvailableAsync();
+      if (canShare) {
+        await Sharing.shareAsync(fileUri, {
+          mimeType: 'image/gif',
+          dialogTitle: strings.templateModal.gifShareDialogTitle,
+        });
+      }
+      setTemplateStatus(exportedMessage);
+    } catch {
+      setTemplateStatus(strings.templateModal.gifExportFailedMessage);
+    } finally {
+      setIsExportingGif(false);
+    }
+  }, [
+    currentAnimationName,
+    editor.state,
+    gifScale,
+    isGifTransparent,
+    pixelPerfect,
+    strings.templateModal.gifExportFailedMessage,
+    strings.templateModal.gifExportedMessage,
+    strings.templateModal.gifShareDialogTitle,
+  ]);
+  const canExportGif = hasCurrentAnimationFrames && !isExportingGif;
+
+  const handleExportPngSequence = useCallback(async () => {
+    setIsExportingImages(true);
+    try {
+      const result = await exportSpritePngSequence(editor.state, {
+        name: activeSpriteName ?? undefined,
+        scale: gifScale,
+        background: isGifTransparent ? null : '#ffffff',
+        pixelPerfect,
+      });
+      setTemplateStatus(
+        result
+          ? formatEditorString(strings.templateModal.pngSequenceExportedMessage, {
+              count: result.files.length,
+              directory: result.directory,
+            })
+          : strings.templateModal.imageExportFailedMessage,
+      );
+    } catch {
+      setTemplateStatus(strings.templateModal.imageExportFailedMessage);
+    } finally {
+      setIsExportingImages(false);
+    }
+  }, [
+    activeSpriteName,
+    editor.state,
+    gifScale,
+    isGifTransparent,
+    pixelPerfect,
+    strings.templateModal.imageExportFailedMessage,
+    strings.templateModal.pngSequenceExportedMessage,
+  ]);
+
+  const handleExportContactSheet = useCallback(async () => {
+    setIsExportingImages(true);
+    try {
+      const uri = await exportSpriteContactSheet(editor.state, {
+        name: activeSpriteName ?? undefined,
+        scale: gifScale,
+        background: isGifTransparent ? null : '#ffffff',
+        pixelPerfect,
+      });
+      if (!uri) {
+        setTemplateStatus(strings.templateModal.imageExportFailedMessage);
+        return;
+      }
+      const canShare = await Sharing.isAvailableAsync();
+      if (canShare) {
+        await Sharing.shareAsync(uri, {
+          mimeType: 'image/png',
+          dialogTitle: strings.templateModal.contactSheetShareDialogTitle,
+        });
+      }
+      setTemplateStatus(strings.templateModal.contactSheetExportedMessage);
+    } catch {
+      setTemplateStatus(strings.templateModal.imageExportFailedMessage);
+    } finally {
+      setIsExportingImages(false);
+    }
+  }, [
+    activeSpriteName,
+    editor.state,
+    gifScale,
+    isGifTransparent,
+    pixelPerfect,
+    strings.templateModal.contactSheetExportedMessage,
+    strings.templateModal.contactSheetShareDialogTitle,
+    strings.templateModal.imageExportFailedMessage,
+  ]);
+
+  const handlePackAtlas = useCallback(async () => {
+    setIsExportingImages(true);
+    try {
+      const packed = await packSpriteAtlas(editor.exportJSON(), {
+        name: activeSpriteName ?? undefined,
+        trim: true,
+      });
+      if (!packed) {
+        setTemplateStatus(strings.templateModal.imageExportFailedMessage);
+        return;
+      }
+      // frames keep their order, so animations stay valid
+      editor.importJSON(packed);
+      const sheetCount = new Set(packed.frames.map((frame) => frame.imageUri)).size;
+      setTemplateStatus(
+        formatEditorString(strings.templateModal.atlasPackedMessage, { count: sheetCount }),
+      );
+    } catch (error) {
+      setTemplateStatus((error as Error).message);
+    } finally {
+      setIsExportingImages(false);
+    }
+  }, [
+    activeSpriteName,
+    editor,
+    strings.templateModal.atlasPackedMessage,
+    strings.templateModal.imageExportFailedMessage,
+  ]);
+  // these exports write into spriteStorage, which has no web backend
+  const canExportImages =
+    Platform.OS !== 'web' && editor.state.frames.length > 0 && !isExportingImages;
 
   const cancelRename = useCallback(() => {
     setRenamingAnimation(null);
@@ -852,11 +1223,20 @@ export const AnimationStudio = ({
         nextAnimations[nextName] = sourceSequence;
       }
       editor.setAnimations(nextAnimations);
-      const nextAnimationsMeta = renameRecordKey(animationsMeta, renamingAnimation, nextName);
+      const nextAnimationsMeta = retargetNextAnimation(
+        renameRecordKey(animationsMeta, renamingAnimation, nextName),
+        renamingAnimation,
+        nextName,
+      );
       editor.setAnimationsMeta(nextAnimationsMeta);
       if (autoPlayAnimationName === renamingAnimation) {
         editor.setAutoPlayAnimation(nextName);
       }
+      if (stateMachine) {
+        editor.setStateMachine(
+          retargetStateMachineAnimation(stateMachine, renamingAnimation, nextName),
+        );
+      }
       setActiveAnimation(nextName);
     }
     cancelRename();
@@ -868,6 +1248,7 @@ export const AnimationStudio = ({
     renamingAnimation,
     renameDraft,
     setActiveAnimation,
+    stateMachine,
     autoPlayAnimationName,
     strings.animationStudio.renameDuplicate,
     strings.animationStudio.renameMissing,
@@ -1061,7 +1442,7 @@ export const AnimationStudio = ({
               timelineCursor < currentSequence.length
             ? timelineCursor
             : 0;
-      if (!currentAnimationLoop) {
+      if (!currentAnimationLoop || currentLoopCount > 0) {
         if (direction === 'forward' && start === lastCursor) {
           start = 0;
         } else if (direction === 'reverse' && start === 0) {
@@ -1070,7 +1451,13 @@ export const AnimationStudio = ({
       }
       return start;
     },
-    [currentAnimationLoop, currentSequence.length, selectedTimelineIndex, timelineCursor],
+    [
+      currentAnimationLoop,
+      currentLoopCount,
+      currentSequence.length,
+      selectedTimelineIndex,
+      timelineCursor,
+    ],
   );
 
   const handlePlayFromSelection = useCallback(() => {
@@ -1195,10 +1582,28 @@ export const AnimationStudio = ({
     [currentAnimationName, updateAnimationMetaEntry],
   );
 
+  const handleAnimationLoopCountChange = useCallback(
+    (nextCount: number) => {
+      if (!currentAnimationName) {
+        return;
+      }
+      const count = resolveLoopCount({ loopCount: nextCount });
+      updateAnimationMetaEntry(currentAnimationName, (draft) => {
+        if (count > 0) {
+          draft.loopCount = count;
+        } else {
+          delete draft.loopCount;
+        }
+      });
+    },
+    [currentAnimationName, updateAnimationMetaEntry],
+  );
+
   const updateSequence = useCallback(
     (
       next: number[] | ((prev: number[]) => number[]),
       multipliersUpdater?: (prev: number[]) => number[],
+      timelineIndexMapper?: (index: number) => number | null,
     ): number[] => {
       if (!currentAnimationName) {
         return [];
@@ -1216,14 +1621,43 @@ export const AnimationStudio = ({
       } else if (prevMultipliers.length > nextSequence.length) {
         nextMultipliersArray = prevMultipliers.slice(0, nextSequence.length);
       }
-      if (multipliersUpdater) {
-        setAnimationMultipliers(currentAnimationName, nextMultipliersArray ?? prevMultipliers);
-      } else if (nextMultipliersArray) {
-        setAnimationMultipliers(currentAnimationName, nextMultipliersArray);
+      if (multipliersUpdater && !nextMultipliersArray) {
+        nextMultipliersArray = prevMultipliers;
+      }
+      const prevLoopStart = animationsMeta[currentAnimationName]?.loopStart;
+      // a removed loop start slot hands the marker to the slot that takes its place
+      const nextLoopStart =
+        timelineIndexMapper && typeof prevLoopStart === 'number'
+          ? (timelineIndexMapper(prevLoopStart) ?? prevLoopStart)
+          : null;
+      const prevEvents = animationsMeta[currentAnimationName]?.events ?? [];
+      const nextEvents =
+        timelineIndexMapper && prevEvents.length
+          ? remapEventsArray(prevEvents, timelineIndexMapper)
+          : null;
+      if (nextMultipliersArray || nextEvents || nextLoopStart !== null) {
+        updateAnimationMetaEntry(
+          currentAnimationName,
+          (draft) => {
+            if (nextMultipliersArray) {
+              draft.multipliers = normalizeMultipliersArray(
+                nextMultipliersArray,
+                nextSequence.length,
+              );
+            }
+            if (nextEvents) {
+              draft.events = nextEvents;
+            }
+            if (nextLoopStart !== null) {
+              draft.loopStart = nextLoopStart;
+            }
+          },
+          nextSequence.length,
+        );
       }
       return nextSequence;
     },
-    [animations, animationsMeta, currentAnimationName, editor, setAnimationMultipliers],
+    [animations, animationsMeta, currentAnimationName, editor, updateAnimationMetaEntry],
   );
 
   const resolveFrameImageUri = useCallback((descriptor?: FrameGridImageDescriptor | null) => {
@@ -1365,7 +1799,7 @@ export const AnimationStudio = ({
       const next = { ...animations };
       delete next[name];
       const remaining = Object.keys(next);
-      const nextAnimationsMeta = { ...animationsMeta };
+      const nextAnimationsMeta = retargetNextAnimation(animationsMeta, name, null);
       delete nextAnimationsMeta[name];
 
       // If this was the last animation, clear frames as well to avoid orphaned indices carrying over.
@@ -1382,6 +1816,9 @@ export const AnimationStudio = ({
       } else {
         editor.setAnimations(next);
         editor.setAnimationsMeta(nextAnimationsMeta);
+        if (stateMachine) {
+          editor.setStateMachine(normalizeSpriteStateMachine(stateMachine, remaining));
+        }
         if (activeAnimation === name) {
           setActiveAnimation(remaining[0]);
         }
@@ -1399,6 +1836,7 @@ export const AnimationStudio = ({
       autoPlayAnimationName,
       setActiveAnimation,
       setTimelineSelection,
+      stateMachine,
     ],
   );
 
@@ -1407,15 +1845,23 @@ export const AnimationStudio = ({
       return;
     }
     const currentFrame = frameCursor;
+    // cycles loop -> ping-pong -> once
+    const nextMode =
+      currentPlaybackMode === 'loop'
+        ? 'pingpong'
+        : currentPlaybackMode === 'pingpong'
+          ? 'once'
+          : 'loop';
     updateAnimationMetaEntry(currentAnimationName, (draft) => {
-      draft.loop = !currentAnimationLoop;
+      draft.playbackMode = nextMode;
+      draft.loop = nextMode !== 'once';
     });
     if (!isPlaying) {
       requestAnimationFrame(() => seekFrame(currentFrame));
     }
   }, [
-    currentAnimationLoop,
     currentAnimationName,
+    currentPlaybackMode,
     frameCursor,
     isPlaying,
     seekFrame,
@@ -1465,12 +1911,16 @@ export const AnimationStudio = ({
       selectedTimelineIndex !== null ? selectedTimelineIndex + 1 : currentSequence.length;
     const next = [...currentSequence];
     next.splice(insertIndex, 0, ...timelineClipboard);
-    const nextSequence = updateSequence(next, (prevMultipliers) => {
-      const result = prevMultipliers.slice();
-      const filler = new Array(timelineClipboard.length).fill(DEFAULT_FRAME_MULTIPLIER);
-      result.splice(insertIndex, 0, ...filler);
-      return result;
-    });
+    const nextSequence = updateSequence(
+      next,
+      (prevMultipliers) => {
+        const result = prevMultipliers.slice();
+        const filler = new Array(timelineClipboard.length).fill(DEFAULT_FRAME_MULTIPLIER);
+        result.splice(insertIndex, 0, ...filler);
+        return result;
+      },
+      (index) => (index >= insertIndex ? index + timelineClipboard.length : index),
+    );
     if (nextSequence.length) {
       ignoreNextTimelineCursorRef.current = true;
       selectTimelineFrame(insertIndex, nextSequence);
@@ -1485,11 +1935,20 @@ export const AnimationStudio = ({
     }
     const next = [...currentSequence];
     next.splice(selectedTimelineIndex, 1);
-    updateSequence(next, (prevMultipliers) => {
-      const result = prevMultipliers.slice();
-      result.splice(selectedTimelineIndex, 1);
-      return result;
-    });
+    updateSequence(
+      next,
+      (prevMultipliers) => {
+        const result = prevMultipliers.slice();
+        result.splice(selectedTimelineIndex, 1);
+        return result;
+      },
+      (index) => {
+        if (index === selectedTimelineIndex) {
+          return null;
+        }
+        return index > selectedTimelineIndex ? index - 1 : index;
+      },
+    );
     const desiredIndex = Math.max(0, Math.min(next.length - 1, selectedTimelineIndex));
     setTimelineSelection((prev) => {
       if (prev === null) {
@@ -1517,13 +1976,22 @@ export const AnimationStudio = ({
     const next = [...currentSequence];
     const [item] = next.splice(selectedTimelineIndex, 1);
     next.splice(targetIndex, 0, item);
-    updateSequence(next, (prevMultipliers) => {
-      const result = prevMultipliers.slice();
-      const value = result[selectedTimelineIndex] ?? DEFAULT_FRAME_MULTIPLIER;
-      result.splice(selectedTimelineIndex, 1);
-      result.splice(targetIndex, 0, value);
-      return result;
-    });
+    updateSequence(
+      next,
+      (prevMultipliers) => {
+        const result = prevMultipliers.slice();
+        const value = result[selectedTimelineIndex] ?? DEFAULT_FRAME_MULTIPLIER;
+        result.splice(selectedTimelineIndex, 1);
+        result.splice(targetIndex, 0, value);
+        return result;
+      },
+      (index) => {
+        if (index === selectedTimelineIndex) {
+          return targetIndex;
+        }
+        return index === targetIndex ? selectedTimelineIndex : index;
+      },
+    );
     ignoreNextTimelineCursorRef.current = true;
     selectTimelineFrame(targetIndex, next);
   };
@@ -1578,6 +2046,15 @@ export const AnimationStudio = ({
     return DEFAULT_FRAME_MULTIPLIER;
   }, [animationsMeta, currentAnimationName, selectedTimelineIndex]);
 
+  const selectedEvents = useMemo(() => {
+    if (!currentAnimationName || selectedTimelineIndex === null) {
+      return [];
+    }
+    return (animationsMeta[currentAnimationName]?.events ?? [])
+      .filter((event) => event.index === selectedTimelineIndex)
+      .map((event) => event.name);
+  }, [animationsMeta, currentAnimationName, selectedTimelineIndex]);
+
   useEffect(() => {
     if (currentSequence.length > 0 && timelineMeasuredHeight > 0) {
       setTimelineFilledHeight((prev) => Math.max(prev, timelineMeasuredHeight));
@@ -1627,6 +2104,41 @@ export const AnimationStudio = ({
     [animationsMeta, currentAnimationName, selectedTimelineIndex, updateAnimationMetaEntry],
   );
 
+  const handleEventsSubmit = useCallback(
+    (names: string[]) => {
+      if (!currentAnimationName || selectedTimelineIndex === null) {
+        return;
+      }
+      const uniqueNames = Array.from(new Set(names.map((name) => name.trim()))).filter(
+        (name) => name.length > 0,
+      );
+      updateAnimationMetaEntry(currentAnimationName, (draft) => {
+        const others = (draft.events ?? []).filter(
+          (event) => event.index !== selectedTimelineIndex,
+        );
+        draft.events = [
+          ...others,
+          ...uniqueNames.map((name) => ({ index: selectedTimelineIndex, name })),
+        ];
+      });
+    },
+    [currentAnimationName, selectedTimelineIndex, updateAnimationMetaEntry],
+  );
+
+  const currentLoopStart = currentAnimationName
+    ? resolveLoopStart(animationsMeta[currentAnimationName], currentSequence.length)
+    : 0;
+
+  const handleToggleLoopStart = useCallback(() => {
+    if (!currentAnimationName || selectedTimelineIndex === null) {
+      return;
+    }
+    const nextLoopStart = currentLoopStart === selectedTimelineIndex ? 0 : selectedTimelineIndex;
+    updateAnimationMetaEntry(currentAnimationName, (draft) => {
+      draft.loopStart = nextLoopStart;
+    });
+  }, [currentAnimationName, currentLoopStart, selectedTimelineIndex, updateAnimationMetaEntry]);
+
   const content = (
     <View style={styles.container}>
       <View style={styles.headerRow}>
@@ -1682,6 +2194,17 @@ export const AnimationStudio = ({
             onPress={handleOpenTemplateModal}
             accessibilityLabel={strings.animationStudio.openSpriteJsonTools}
           />
+          <IconButton
+            name="account-tree"
+            onPress={() => setStateMachineModalVisible(true)}
+            disabled={!stateMachine}
+            accessibilityLabel={strings.animationStudio.previewStateMachine}
+          />
+          <IconButton
+            name="palette"
+            onPress={() => setPaletteModalVisible(true)}
+            accessibilityLabel={strings.animationStudio.editPalettes}
+          />
         </View>
       </View>
       <View style={styles.previewSection}>
@@ -1690,6 +2213,7 @@ export const AnimationStudio = ({
           integration={integration}
           animationName={currentAnimationName}
           allowRendering={hasCurrentAnimationFrames}
+          pixelPerfect={pixelPerfect}
         />
       </View>
       <View style={styles.body}>
@@ -1717,7 +2241,7 @@ export const AnimationStudio = ({
               />
               <View style={styles.timelineDivider} />
               <IconButton
-                name="repeat"
+                name={currentPlaybackMode === 'pingpong' ? 'sync-alt' : 'repeat'}
                 onPress={handleToggleAnimationLoop}
                 disabled={!currentAnimationName}
                 style={[
@@ -1728,9 +2252,11 @@ export const AnimationStudio = ({
                 ]}
                 color={currentAnimationLoop ? '#ffffff' : undefined}
                 accessibilityLabel={
-                  currentAnimationLoop
-                    ? strings.animationStudio.disableLoop
-                    : strings.animationStudio.enableLoop
+                  currentPlaybackMode === 'loop'
+                    ? strings.animationStudio.enablePingPong
+                    : currentPlaybackMode === 'pingpong'
+                      ? strings.animationStudio.disableLoop
+                      : strings.animationStudio.enableLoop
                 }
               />
             </View>
@@ -1744,6 +2270,17 @@ export const AnimationStudio = ({
                 onBlurInput={scrollToTop}
               />
             )}
+            {currentAnimationName && (
+              <AnimationFpsField
+                label={strings.animationStudio.loopCountLabel}
+                value={currentLoopCount}
+                onSubmit={handleAnimationLoopCountChange}
+                disabled={isPlaying || !currentAnimationLoop}
+                styles={styles}
+                onFocusInput={scrollInputIntoView}
+                onBlurInput={scrollToTop}
+              />
+            )}
             <ScrollView
               style={[
                 styles.animationList,
@@ -1838,6 +2375,11 @@ export const AnimationStudio = ({
             onSubmitMultiplier={handleMultiplierSubmit}
             onFocusMultiplierInput={scrollInputIntoView}
             onBlurMultiplierInput={scrollToTop}
+            eventsRef={eventsFieldRef}
+            selectedEvents={selectedEvents}
+            onSubmitEvents={handleEventsSubmit}
+            loopStart={currentAnimationLoop ? currentLoopStart : null}
+            onToggleLoopStart={handleToggleLoopStart}
             frameImageInfos={frameImageInfos}
             animationsMeta={animationsMeta}
           />
@@ -1880,6 +2422,7 @@ export const AnimationStudio = ({
               <FrameGridSelector
                 image={framePickerImage ?? undefined}
                 emptyMessage={strings.framePicker.emptyMessage}
+                pixelPerfect={pixelPerfect}
                 onAddFrames={(cells, descriptor) => {
                   handleGridAddFrames(cells, descriptor ?? framePickerImage ?? undefined);
                   setFramePickerVisible(false);
@@ -1895,6 +2438,25 @@ export const AnimationStudio = ({
         onClose={() => setFrameSourceBrowserVisible(false)}
         onOpenFile={(uri) => {
           setFrameSourceBrowserVisible(false);
+          if (ASEPRITE_FILE_PATTERN.test(uri)) {
+            pendingAsepriteRef.current = null;
+            handleOpenAsepriteFile(uri);
+            return;
+          }
+          if (framePickerMode === 'asepriteSheet') {
+            const json = pendingAsepriteRef.current;
+            pendingAsepriteRef.current = null;
+            if (!json) {
+              return;
+            }
+            try {
+              applyAsepriteImport(json, uri);
+            } catch (error) {
+              setTemplateStatus((error as Error).message);
+              setTemplateModalVisible(true);
+            }
+            return;
+          }
           if (framePickerMode === 'single') {
             handleAddImageAsFullFrame(uri);
             return;
@@ -1906,7 +2468,19 @@ export const AnimationStudio = ({
           });
           setFramePickerVisible(true);
         }}
-        allowedMimeTypes={['image/*']}
+        allowedExtensions={FRAME_SOURCE_EXTENSIONS}
+      />
+      <StateMachinePreviewModal
+        visible={isStateMachineModalVisible && Boolean(stateMachine)}
+        onClose={() => setStateMachineModalVisible(false)}
+        editor={editor}
+        definition={stateMachine ?? null}
+      />
+      <PaletteEditorModal
+        visible={isPaletteModalVisible}
+        onClose={() => setPaletteModalVisible(false)}
+        editor={editor}
+        animationName={currentAnimationName ?? null}
       />
       <StoragePanel
         editor={editor}
@@ -2093,6 +2667,137 @@ export const AnimationStudio = ({
                       </Text>
                     </TouchableOpacity>
                   </View>
+                  <View style={styles.templateFieldHeader}>
+                    <TouchableOpacity
+                      style={[
+                        styles.templateFieldButton,
+                        styles.templateFieldButtonLight,
+                        !canExportGif && styles.templateFieldButtonDisabled,
+                      ]}
+                      onPress={handleExportGif}
+                      disabled={!canExportGif}
+                      accessibilityRole="button"
+                      accessibilityLabel={strings.templateModal.exportGifButton}
+                    >
+                      <MaterialIcons name="gif" size={18} color="#0f172a" />
+                      <Text
+                        style={[
+                          styles.templateFieldButtonLabel,
+                          styles.templateFieldButtonLabelDark,
+                          !canExportGif && styles.templateFieldButtonLabelDisabled,
+                        ]}
+                      >
+                        {strings.templateModal.exportGifButton}
+                      </Text>
+                    </TouchableOpacity>
+                    {GIF_SCALES.map((scale) => (
+                      <TouchableOpacity
+                        key={scale}
+                        style={[
+                          styles.templateFieldButton,
+                          gifScale === scale && styles.templateFieldButtonLight,
+                        ]}
+                        onPress={() => setGifScale(scale)}
+                        accessibilityRole="button"
+                        accessibilityState={{ selected: gifScale === scale }}
+                      >
+                        <Text
+                          style={[
+                            styles.templateFieldButtonLabel,
+                            gifScale === scale && styles.templateFieldButtonLabelDark,
+                          ]}
+                        >
+                          {formatEditorString(strings.templateModal.gifScaleLabel, { scale })}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                    <TouchableOpacity
+                      style={[
+                        styles.templateFieldButton,
+                        isGifTransparent && styles.templateFieldButtonLight,
+                      ]}
+                      onPress={() => setGifTransparent((value) => !value)}
+                      accessibilityRole="checkbox"
+                      accessibilityState={{ checked: isGifTransparent }}
+                    >
+                      <Text
+                        style={[
+                          styles.templateFieldButtonLabel,
+                          isGifTransparent && styles.templateFieldButtonLabelDark,
+                        ]}
+                      >
+                        {strings.templateModal.gifTransparentLabel}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                  <View style={styles.templateFieldHeader}>
+                    <TouchableOpacity
+                      style={[
+                        styles.templateFieldButton,
+                        styles.templateFieldButtonLight,
+                        !canExportImages && styles.templateFieldButtonDisabled,
+                      ]}
+                      onPress={handleExportPngSequence}
+                      disabled={!canExportImages}
+                      accessibilityRole="button"
+                      accessibilityLabel={strings.templateModal.exportPngSequenceButton}
+                    >
+                      <MaterialIcons name="burst-mode" size={18} color="#0f172a" />
+                      <Text
+                        style={[
+                          styles.templateFieldButtonLabel,
+                          styles.templateFieldButtonLabelDark,
+                          !canExportImages && styles.templateFieldButtonLabelDisabled,
+                        ]}
+                      >
+                        {strings.templateModal.exportPngSequenceButton}
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[
+                        styles.templateFieldButton,
+                        styles.templateFieldButtonLight,
+                        !canExportImages && styles.templateFieldButtonDisabled,
+                      ]}
+                      onPress={handleExportContactSheet}
+                      disabled={!canExportImages}
+                      accessibilityRole="button"
+                      accessibilityLabel={strings.templateModal.exportContactSheetButton}
+                    >
+                      <MaterialIcons name="grid-on" size={18} color="#0f172a" />
+                      <Text
+                        style={[
+                          styles.templateFieldButtonLabel,
+                          styles.templateFieldButtonLabelDark,
+                          !canExportImages && styles.templateFieldButtonLabelDisabled,
+                        ]}
+                      >
+                        {strings.templateModal.exportContactSheetButton}
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[
+                        styles.templateFieldButton,
+                        styles.templateFieldButtonLight,
+                        !canExportImages && styles.templateFieldButtonDisabled,
+                      ]}
+                      onPress={handlePackAtlas}
+                      disabled={!canExportImages}
+                      accessibilityRole="button"
+                      accessibilityLabel={strings.templateModal.packAtlasButton}
+                    >
+                      <MaterialIcons name="view-quilt" size={18} color="#0f172a" />
+                      <Text
+                        style={[
+                          styles.templateFieldButtonLabel,
+                          styles.templateFieldButtonLabelDark,
+                          !canExportImages && styles.templateFieldButtonLabelDisabled,
+                        ]}
+                      >
+                        {strings.templateModal.packAtlasButton}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
                   <SelectableTextInput
                     style={[
                       styles.templateTextArea,
@@ -2180,6 +2885,7 @@ export const AnimationStudio = ({
 type AnimationStudioStyles = ReturnType<typeof createThemedStyles>;
 
 interface AnimationFpsFieldProps {
+  label?: string;
   value: number;
   onSubmit: (value: number) => void;
   disabled?: boolean;
@@ -2189,6 +2895,7 @@ interface AnimationFpsFieldProps {
 }
 
 const AnimationFpsField = ({
+  label = 'FPS',
   value,
   onSubmit,
   disabled = false,
@@ -2218,7 +2925,7 @@ const AnimationFpsField = ({
 
   return (
     <View style={styles.animationFpsRow}>
-      <Text style={styles.animationFpsLabel}>FPS</Text>
+      <Text style={styles.animationFpsLabel}>{label}</Text>
       <TextInput
         ref={inputRef}
         style={[styles.animationFpsInput, disabled && styles.animationFpsInputDisabled]}
@@ -10,11 +10,18 @@ import {
   View,
   useColorScheme,
 } from 'react-native';
-import type { DataSourceParam } from '@shopify/react-native-skia';
+import {
+  Canvas,
+  Image as SkiaImage,
+  useImage,
+  type DataSourceParam,
+} from '@shopify/react-native-skia';
 import type { ImageSourcePropType } from 'react-native';
 import { IconButton } from './IconButton';
 import { SelectableTextInput } from './SelectableTextInput';
 import { getEditorStrings, formatEditorString, type EditorStrings } from '../localization';
+import { snapIntegerScale, stepIntegerScale } from '../hooks/animatedSprite2d/helpers';
+import { NEAREST_SAMPLING } from '../../AnimatedSprite2DView';
 
 /**
  * Represents a selectable grid cell to be converted into sprite frames.
@@ -75,6 +82,8 @@ export interface FrameGridSelectorProps {
   defaultCellHeight?: number;
   /** Message shown when no image is available. */
   emptyMessage?: string;
+  /** Draws the sheet with nearest-neighbour sampling and whole-number (or 1/n) zoom levels. */
+  pixelPerfect?: boolean;
 }
 
 const normalizeImage = (value?: FrameGridImageProp): FrameGridImageDescriptor | undefined => {
@@ -109,6 +118,7 @@ export const FrameGridSelector = ({
   defaultCellWidth = 32,
   defaultCellHeight = 32,
   emptyMessage,
+  pixelPerfect = false,
 }: FrameGridSelectorProps) => {
   const strings = useMemo(() => getEditorStrings(), []);
   const colorScheme = useColorScheme();
@@ -123,6 +133,8 @@ export const FrameGridSelector = ({
     return normalizeImage(fallbackImage);
   }, [image, fallbackImage]);
   const resolvedImage = normalizedImage?.source ?? null;
+  // React Native's Image always filters linearly, so pixel-art mode draws the sheet with Skia
+  const pixelArtImage = useImage(pixelPerfect ? resolvedImage : null);
   const rnImageSource: ImageSourcePropType | null = useMemo(() => {
     if (!resolvedImage) {
       return null;
@@ -210,7 +222,14 @@ export const FrameGridSelector = ({
 
   useEffect(() => {
     setAutoScaled(false);
-  }, [rnImageSource, normalizedImage?.width, normalizedImage?.height, imageWidth, imageHeight]);
+  }, [
+    rnImageSource,
+    normalizedImage?.width,
+    normalizedImage?.height,
+    imageWidth,
+    imageHeight,
+    pixelPerfect,
+  ]);
 
   useEffect(() => {
     if (viewportSize.width <= 0 || viewportSize.height <= 0) {
@@ -259,13 +278,15 @@ export const FrameGridSelector = ({
       return;
     }
     const desiredScale = Math.max(fitScale, 0.05);
-    const roundedScale = parseFloat(desiredScale.toFixed(3));
+    const roundedScale = pixelPerfect
+      ? snapIntegerScale(desiredScale)
+      : parseFloat(desiredScale.toFixed(3));
     setFitScaleTarget(roundedScale);
     if (Math.abs(roundedScale - scale) > 0.01) {
       setScale(roundedScale);
     }
     setAutoScaled(true);
-  }, [autoScaled, viewportSize, imageWidth, imageHeight, rnImageSource, scale]);
+  }, [autoScaled, viewportSize, imageWidth, imageHeight, pixelPerfect, rnImageSource, scale]);
 
   const cells = useMemo<FrameGridCell[]>(() => {
     const list: FrameGridCell[] = [];
@@ -326,7 +347,11 @@ export const FrameGridSelector = ({
   const addButtonLabel = formatAddButtonLabel(selectedCount, strings);
 
   const changeScale = (delta: number) => {
-    setScale((prev) => Math.max(0.05, parseFloat((prev + delta).toFixed(2))));
+    setScale((prev) =>
+      pixelPerfect
+        ? Math.max(1 / 20, stepIntegerScale(prev, delta > 0 ? 1 : -1))
+        : Math.max(0.05, parseFloat((prev + delta).toFixed(2))),
+    );
   };
 
   const resetScale = () => setScale(fitScaleTarget);
@@ -500,16 +525,38 @@ export const FrameGridSelector = ({
                 <View style={styles.imageFrameContainer}>
                   {isImageReady && rnImageSource ? (
                     <View style={[styles.imageFrame, { width: canvasWidth, height: canvasHeight }]}>
-                      <Image
-                        source={rnImageSource}
-                        style={{
-                          position: 'absolute',
-                          left: 0,
-                          top: 0,
-                          width: imageWidth * scale,
-                          height: imageHeight * scale,
-                        }}
-                      />
+                      {pixelPerfect && pixelArtImage ? (
+                        <Canvas
+                          style={{
+                            position: 'absolute',
+                            left: 0,
+                            top: 0,
+                            width: canvasWidth,
+                            height: canvasHeight,
+                          }}
+                        >
+                          <SkiaImage
+                            image={pixelArtImage}
+                            x={0}
+                            y={0}
+                            width={canvasWidth}
+                            height={canvasHeight}
+                            fit="fill"
+                            sampling={NEAREST_SAMPLING}
+                          />
+                        </Canvas>
+                      ) : (
+                        <Image
+                          source={rnImageSource}
+                          style={{
+                            position: 'absolute',
+                            left: 0,
+                            top: 0,
+                            width: imageWidth * scale,
+                            height: imageHeight * scale,
+                          }}
+                        />
+                      )}
                       {cells.map((cell) => {
                         const fitsWithinImage =
                           cell.x >= 0 &&
@@ -0,0 +1,486 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+  useColorScheme,
+} from 'react-native';
+import { AnimatedSprite2D } from '../../AnimatedSprite2D';
+import { SpriteImageCache } from '../../spriteImageCache';
+import type { SpriteEditorApi } from '../hooks/useSpriteEditor';
+import { buildAnimatedSpriteFrames } from '../utils/buildAnimatedSpriteFrames';
+import {
+  extractPaletteFromImage,
+  isPaletteColor,
+  normalizePaletteMeta,
+  rebasePaletteVariants,
+} from '../utils/palette';
+import { IconButton } from './IconButton';
+import { MacWindow, type MacWindowVariant } from './MacWindow';
+import { getEditorStrings, formatEditorString } from '../localization';
+
+const PREVIEW_SIZE = 160;
+
+/**
+ * Props for the {@link PaletteEditorModal} component.
+ */
+export interface PaletteEditorModalProps {
+  /** Controls visibility of the modal. */
+  visible: boolean;
+  /** Called when the modal should close. */
+  onClose: () => void;
+  /** Editor whose `meta.palettes` is edited. */
+  editor: SpriteEditorApi;
+  /** Animation played in the preview; defaults to the sprite's autoplay animation. */
+  animationName?: string | null;
+}
+
+/**
+ * Modal that extracts the source palette from the sprite sheet and defines recolored variants,
+ * stored in `meta.palettes`.
+ */
+export const PaletteEditorModal = ({
+  visible,
+  onClose,
+  editor,
+  animationName = null,
+}: PaletteEditorModalProps) => {
+  const strings = useMemo(() => getEditorStrings(), []);
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme !== 'light';
+  const styles = useMemo(() => createThemedStyles(isDarkMode), [isDarkMode]);
+  const [windowVariant, setWindowVariant] = useState<MacWindowVariant>('default');
+  const [selectedVariant, setSelectedVariant] = useState<string | null>(null);
+  const [variantName, setVariantName] = useState('');
+  const [variantError, setVariantError] = useState<string | null>(null);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [extractError, setExtractError] = useState<string | null>(null);
+  // hex text being typed, kept until it forms a valid color
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const palettes = useMemo(
+    () => normalizePaletteMeta(editor.state.meta?.palettes),
+    [editor.state.meta],
+  );
+  const resource = useMemo(
+    () => (visible ? buildAnimatedSpriteFrames(editor.state) : null),
+    [editor.state, visible],
+  );
+  const variantNames = Object.keys(palettes?.variants ?? {});
+  const activeVariant =
+    selectedVariant && palettes?.variants[selectedVariant] ? selectedVariant : null;
+  const sheetUri = editor.state.frames.find((frame) => frame.imageUri)?.imageUri ?? null;
+
+  if (!visible) {
+    return null;
+  }
+
+  const handleExtract = async () => {
+    if (!sheetUri) {
+      return;
+    }
+    setIsExtracting(true);
+    setExtractError(null);
+    try {
+      const image = await SpriteImageCache.load({ type: 'uri', uri: sheetUri });
+      const colors = image ? extractPaletteFromImage(image) : [];
+      if (!colors.length) {
+        setExtractError(strings.paletteModal.extractFailed);
+        return;
+      }
+      editor.updateMeta({ palettes: rebasePaletteVariants(palettes, colors) });
+      setDrafts({});
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const handleAddVariant = () => {
+    const name = variantName.trim();
+    if (!palettes || !name) {
+      return;
+    }
+    if (palettes.variants[name]) {
+      setVariantError(strings.paletteModal.variantExists);
+      return;
+    }
+    editor.updateMeta({
+      palettes: { ...palettes, variants: { ...palettes.variants, [name]: [...palettes.source] } },
+    });
+    setVariantName('');
+    setVariantError(null);
+    setSelectedVariant(name);
+  };
+
+  const handleRemoveVariant = (name: string) => {
+    if (!palettes) {
+      return;
+    }
+    const variants = { ...palettes.variants };
+    delete variants[name];
+    editor.updateMeta({ palettes: { ...palettes, variants } });
+  };
+
+  const handleColorChange = (index: number, text: string) => {
+    if (!palettes || !activeVariant) {
+      return;
+    }
+    const key = `${activeVariant}:${index}`;
+    const value = text.trim().startsWith('#') ? text.trim() : `#${text.trim()}`;
+    if (!isPaletteColor(value)) {
+      setDrafts((prev) => ({ ...prev, [key]: text }));
+      return;
+    }
+    setDrafts((prev) => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+    const colors = palettes.source.map(
+      (color, colorIndex) => palettes.variants[activeVariant]![colorIndex] ?? color,
+    );
+    colors[index] = value.toLowerCase();
+    editor.updateMeta({
+      palettes: { ...palettes, variants: { ...palettes.variants, [activeVariant]: colors } },
+    });
+  };
+
+  return (
+    <View
+      style={[styles.overlayRoot, windowVariant === 'fullscreen' && styles.overlayRootFullscreen]}
+    >
+      <Pressable style={styles.backdrop} onPress={onClose} />
+      <View style={styles.modalOverlay} pointerEvents="box-none">
+        <MacWindow
+          title={strings.paletteModal.title}
+          onClose={onClose}
+          enableCompact={false}
+          variant={windowVariant}
+          onVariantChange={setWindowVariant}
+          style={windowVariant === 'default' ? styles.window : styles.windowFullscreen}
+          contentStyle={styles.content}
+        >
+          <ScrollView contentContainerStyle={styles.scrollContent}>
+            <View style={styles.previewBox}>
+              {resource ? (
+                <AnimatedSprite2D
+                  frames={resource}
+                  animation={animationName ?? resource.autoPlayAnimation ?? null}
+                  playing
+                  palette={activeVariant}
+                  centered
+                  pixelPerfect
+                  style={styles.preview}
+                />
+              ) : null}
+            </View>
+            <View style={styles.headingRow}>
+              <Text style={styles.sectionHeading}>{strings.paletteModal.sourceHeading}</Text>
+              <TouchableOpacity
+                style={[styles.button, (!sheetUri || isExtracting) && styles.buttonDisabled]}
+                onPress={() => void handleExtract()}
+                disabled={!sheetUri || isExtracting}
+                accessibilityRole="button"
+              >
+                <Text style={styles.buttonText}>
+                  {isExtracting ? strings.paletteModal.extracting : strings.paletteModal.extract}
+                </Text>
+              </TouchableOpacity>
+            </View>
+            {extractError ? <Text style={styles.errorText}>{extractError}</Text> : null}
+            {palettes ? (
+              <>
+                <Text style={styles.sectionHeading}>{strings.paletteModal.variantsHeading}</Text>
+                <View style={styles.chipRow}>
+                  <TouchableOpacity
+                    style={[styles.chip, !activeVariant && styles.chipActive]}
+                    onPress={() => setSelectedVariant(null)}
+                    accessibilityRole="button"
+                  >
+                    <Text style={[styles.chipText, !activeVariant && styles.chipTextActive]}>
+                      {strings.paletteModal.originalColors}
+                    </Text>
+                  </TouchableOpacity>
+                  {variantNames.map((name) => (
+                    <View
+                      key={name}
+                      style={[
+                        styles.chip,
+                        styles.chipWithAction,
+                        activeVariant === name && styles.chipActive,
+                      ]}
+                    >
+                      <TouchableOpacity
+                        onPress={() => setSelectedVariant(name)}
+                        accessibilityRole="button"
+                      >
+                        <Text
+                          style={[styles.chipText, activeVariant === name && styles.chipTextActive]}
+                        >
+                          {name}
+                        </Text>
+                      </TouchableOpacity>
+                      <IconButton
+                        name="close"
+                        size={14}
+                        onPress={() => handleRemoveVariant(name)}
+                        accessibilityLabel={formatEditorString(strings.paletteModal.removeVariant, {
+                          name,
+                        })}
+                      />
+                    </View>
+                  ))}
+                </View>
+                <View style={styles.addRow}>
+                  <TextInput
+                    style={styles.textInput}
+                    value={variantName}
+                    placeholder={strings.paletteModal.variantPlaceholder}
+                    autoCapitalize="none"
+                    onChangeText={(text) => {
+                      setVariantName(text);
+                      setVariantError(null);
+                    }}
+                    onSubmitEditing={handleAddVariant}
+                  />
+                  <IconButton
+                    name="add"
+                    onPress={handleAddVariant}
+                    disabled={!variantName.trim()}
+                    accessibilityLabel={strings.paletteModal.addVariant}
+                  />
+                </View>
+                {variantError ? <Text style={styles.errorText}>{variantError}</Text> : null}
+                {palettes.source.map((color, index) => {
+                  const target = activeVariant
+                    ? (palettes.variants[activeVariant]![index] ?? color)
+                    : color;
+                  return (
+                    <View key={`${color}-${index}`} style={styles.colorRow}>
+                      <View style={[styles.swatch, { backgroundColor: color }]} />
+                      <Text style={styles.colorText}>{color}</Text>
+                      <Text style={styles.colorArrow}>→</Text>
+                      <View style={[styles.swatch, { backgroundColor: target }]} />
+                      <TextInput
+                        style={styles.textInput}
+                        value={drafts[`${activeVariant}:${index}`] ?? target}
+                        editable={Boolean(activeVariant)}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        maxLength={7}
+                        onChangeText={(text) => handleColorChange(index, text)}
+                        accessibilityLabel={formatEditorString(strings.paletteModal.colorLabel, {
+                          color,
+                        })}
+                      />
+                    </View>
+                  );
+                })}
+              </>
+            ) : (
+              <Text style={styles.emptyText}>{strings.paletteModal.noPalette}</Text>
+            )}
+          </ScrollView>
+        </MacWindow>
+      </View>
+    </View>
+  );
+};
+
+const baseStyles = {
+  overlayRoot: {
+    ...StyleSheet.absoluteFillObject,
+    zIndex: 999,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  overlayRootFullscreen: {
+    padding: 0,
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0,0,0,0.65)',
+    borderRadius: 16,
+    overflow: 'hidden',
+  },
+  modalOverlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+  },
+  window: {
+    width: '94%',
+    maxWidth: 640,
+    minHeight: 480,
+    maxHeight: '88%',
+  },
+  windowFullscreen: {
+    width: '100%',
+    maxWidth: '100%',
+    height: '100%',
+    maxHeight: '100%',
+  },
+  content: {
+    flex: 1,
+    padding: 12,
+  },
+  scrollContent: {
+    paddingBottom: 12,
+    gap: 8,
+  },
+  previewBox: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#1a1f2f',
+  },
+  preview: {
+    width: PREVIEW_SIZE,
+    height: PREVIEW_SIZE,
+  },
+  headingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  sectionHeading: {
+    color: '#f7f9ff',
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 8,
+  },
+  button: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#3b4a7a',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#f7f9ff',
+    fontWeight: '500',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.08)',
+    backgroundColor: '#252c45',
+  },
+  chipWithAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingRight: 4,
+  },
+  chipActive: {
+    borderColor: '#9fb5e1',
+  },
+  chipText: {
+    color: '#e4eaff',
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: '#9fb5e1',
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  textInput: {
+    flex: 1,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+    color: '#e4eaff',
+  },
+  colorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 2,
+  },
+  swatch: {
+    width: 20,
+    height: 20,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+  },
+  colorText: {
+    color: '#e4eaff',
+    fontFamily: 'monospace',
+    minWidth: 72,
+  },
+  colorArrow: {
+    color: '#99a3c2',
+  },
+  errorText: {
+    color: '#ff8080',
+  },
+  emptyText: {
+    color: '#9aa2c0',
+  },
+} as const;
+
+const COLOR_KEYS = new Set(['backgroundColor', 'borderColor', 'color']);
+
+const lightColorMap: Record<string, string> = {
+  'rgba(0,0,0,0.65)': 'rgba(0,0,0,0.55)',
+  '#1a1f2f': '#e6ecf7',
+  '#e4eaff': '#111827',
+  '#f7f9ff': '#0f172a',
+  'rgba(255,255,255,0.08)': 'rgba(0,0,0,0.08)',
+  'rgba(255,255,255,0.2)': 'rgba(0,0,0,0.12)',
+  '#252c45': '#eef2f9',
+  '#3b4a7a': '#c7d4ee',
+  '#9fb5e1': '#4c6ca8',
+  '#99a3c2': '#475569',
+  '#9aa2c0': '#475569',
+  '#ff8080': '#b91c1c',
+};
+
+const mapStyleColors = (
+  stylesObject: Record<string, any>,
+  mapColor: (value: string) => string,
+): Record<string, any> => {
+  const next: Record<string, any> = {};
+  Object.entries(stylesObject).forEach(([key, value]) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      next[key] = mapStyleColors(value, mapColor);
+      return;
+    }
+    if (typeof value === 'string' && COLOR_KEYS.has(key)) {
+      next[key] = mapColor(value);
+      return;
+    }
+    next[key] = value;
+  });
+  return next;
+};
+
+const createThemedStyles = (isDarkMode: boolean) => {
+  const mapColor = (value: string) => (isDarkMode ? value : (lightColorMap[value] ?? value));
+  return StyleSheet.create(mapStyleColors(baseStyles, mapColor));
+};
@@ -0,0 +1,403 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+  useColorScheme,
+} from 'react-native';
+import type {
+  SpriteStateMachineCondition,
+  SpriteStateMachineDefinition,
+  SpriteStateMachineParameterValue,
+} from '../../spriteTypes';
+import { AnimatedSprite2D } from '../../AnimatedSprite2D';
+import { useSpriteStateMachine } from '../../hooks/useSpriteStateMachine';
+import type { SpriteEditorApi } from '../hooks/useSpriteEditor';
+import { buildAnimatedSpriteFrames } from '../utils/buildAnimatedSpriteFrames';
+import { ANY_STATE } from '../utils/spriteStateMachine';
+import { MacWindow, type MacWindowVariant } from './MacWindow';
+import { getEditorStrings, formatEditorString } from '../localization';
+
+const PREVIEW_SIZE = 160;
+
+/**
+ * Props for the {@link StateMachinePreviewModal} component.
+ */
+export interface StateMachinePreviewModalProps {
+  /** Controls visibility of the modal. */
+  visible: boolean;
+  /** Called when the modal should close. */
+  onClose: () => void;
+  /** Editor whose frames and animations are previewed. */
+  editor: SpriteEditorApi;
+  /** State machine definition to drive the preview with. */
+  definition: SpriteStateMachineDefinition | null;
+}
+
+const formatConditionValue = (value: SpriteStateMachineParameterValue) =>
+  typeof value === 'string' ? `"${value}"` : String(value);
+
+const formatCondition = (condition: SpriteStateMachineCondition) =>
+  `${condition.parameter} ${condition.operator ?? '=='} ${formatConditionValue(
+    condition.value ?? true,
+  )}`;
+
+/**
+ * Collects every parameter referenced by the definition with a value used to pick its control.
+ */
+const collectParameterDefaults = (definition: SpriteStateMachineDefinition | null) => {
+  const defaults: Record<string, SpriteStateMachineParameterValue> = {};
+  (definition?.transitions ?? []).forEach((transition) => {
+    (transition.conditions ?? []).forEach((condition) => {
+      if (!(condition.parameter in defaults)) {
+        const sample = condition.value ?? true;
+        defaults[condition.parameter] =
+          typeof sample === 'boolean' ? false : typeof sample === 'number' ? 0 : '';
+      }
+    });
+  });
+  return { ...defaults, ...(definition?.parameters ?? {}) };
+};
+
+/**
+ * Modal that plays the sprite through a state machine so transitions can be tried out.
+ */
+export const StateMachinePreviewModal = ({
+  visible,
+  onClose,
+  editor,
+  definition,
+}: StateMachinePreviewModalProps) => {
+  const strings = useMemo(() => getEditorStrings(), []);
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme !== 'light';
+  const styles = useMemo(() => createThemedStyles(isDarkMode), [isDarkMode]);
+  const [windowVariant, setWindowVariant] = useState<MacWindowVariant>('default');
+
+  const resource = useMemo(
+    () => (visible ? buildAnimatedSpriteFrames(editor.state) : null),
+    [editor.state, visible],
+  );
+  const parameterDefaults = useMemo(() => collectParameterDefaults(definition), [definition]);
+  const machine = useSpriteStateMachine({
+    definition: visible ? definition : null,
+    parameters: parameterDefaults,
+  });
+
+  if (!visible || !definition) {
+    return null;
+  }
+
+  const stateNames = Object.keys(definition.states);
+  const transitions = definition.transitions ?? [];
+
+  const renderParameterControl = (name: string, fallback: SpriteStateMachineParameterValue) => {
+    const value = machine.parameters[name] ?? fallback;
+    if (typeof value === 'boolean') {
+      return <Switch value={value} onValueChange={(next) => machine.setParameter(name, next)} />;
+    }
+    if (typeof value === 'number') {
+      return (
+        <TextInput
+          style={styles.parameterInput}
+          value={String(value)}
+          keyboardType="numeric"
+          onChangeText={(text) => {
+            const parsed = Number(text);
+            machine.setParameter(name, Number.isFinite(parsed) ? parsed : 0);
+          }}
+        />
+      );
+    }
+    return (
+      <TextInput
+        style={styles.parameterInput}
+        value={value}
+        autoCapitalize="none"
+        onChangeText={(text) => machine.setParameter(name, text)}
+      />
+    );
+  };
+
+  return (
+    <View
+      style={[styles.overlayRoot, windowVariant === 'fullscreen' && styles.overlayRootFullscreen]}
+    >
+      <Pressable style={styles.backdrop} onPress={onClose} />
+      <View style={styles.modalOverlay} pointerEvents="box-none">
+        <MacWindow
+          title={strings.stateMachineModal.title}
+          onClose={onClose}
+          enableCompact={false}
+          variant={windowVariant}
+          onVariantChange={setWindowVariant}
+          style={windowVariant === 'default' ? styles.window : styles.windowFullscreen}
+          contentStyle={styles.content}
+        >
+          <ScrollView contentContainerStyle={styles.scrollContent}>
+            <View style={styles.previewBox}>
+              {resource && machine.animation ? (
+                <AnimatedSprite2D
+                  frames={resource}
+                  {...machine.spriteProps}
+                  centered
+                  style={styles.preview}
+                />
+              ) : null}
+              <Text style={styles.currentState}>
+                {formatEditorString(strings.stateMachineModal.currentState, {
+                  name: machine.state ?? '-',
+                })}
+              </Text>
+            </View>
+            <Text style={styles.sectionHeading}>{strings.stateMachineModal.statesHeading}</Text>
+            <View style={styles.chipRow}>
+              {stateNames.map((name) => (
+                <TouchableOpacity
+                  key={name}
+                  style={[styles.chip, machine.state === name && styles.chipActive]}
+                  onPress={() => machine.setState(name)}
+                  accessibilityRole="button"
+                  accessibilityLabel={formatEditorString(strings.stateMachineModal.enterState, {
+                    name,
+                  })}
+                >
+                  <Text style={[styles.chipText, machine.state === name && styles.chipTextActive]}>
+                    {name}
+                  </Text>
+                  <Text style={styles.chipCaption}>{definition.states[name]!.animation}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.sectionHeading}>{strings.stateMachineModal.parametersHeading}</Text>
+            {Object.keys(parameterDefaults).length ? (
+              Object.entries(parameterDefaults).map(([name, fallback]) => (
+                <View key={name} style={styles.parameterRow}>
+                  <Text style={styles.parameterName}>{name}</Text>
+                  {renderParameterControl(name, fallback)}
+                </View>
+              ))
+            ) : (
+              <Text style={styles.emptyText}>{strings.stateMachineModal.noParameters}</Text>
+            )}
+            <Text style={styles.sectionHeading}>
+              {strings.stateMachineModal.transitionsHeading}
+            </Text>
+            {transitions.length ? (
+              transitions.map((transition, index) => (
+                <View
+                  key={`${transition.from}-${transition.to}-${index}`}
+                  style={[
+                    styles.transitionRow,
+                    (transition.from === machine.state || transition.from === ANY_STATE) &&
+                      styles.transitionRowActive,
+                  ]}
+                >
+                  <Text style={styles.transitionText}>
+                    {transition.from === ANY_STATE
+                      ? strings.stateMachineModal.anyState
+                      : transition.from}{' '}
+                    → {transition.to}
+                  </Text>
+                  <Text style={styles.transitionCaption}>
+                    {[
+                      ...(transition.conditions ?? []).map(formatCondition),
+                      ...(transition.waitForFinish
+                        ? [strings.stateMachineModal.waitForFinish]
+                        : []),
+                    ].join(' · ')}
+                  </Text>
+                </View>
+              ))
+            ) : (
+              <Text style={styles.emptyText}>{strings.stateMachineModal.noTransitions}</Text>
+            )}
+          </ScrollView>
+        </MacWindow>
+      </View>
+    </View>
+  );
+};
+
+const baseStyles = {
+  overlayRoot: {
+    ...StyleSheet.absoluteFillObject,
+    zIndex: 999,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  overlayRootFullscreen: {
+    padding: 0,
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0,0,0,0.65)',
+    borderRadius: 16,
+    overflow: 'hidden',
+  },
+  modalOverlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+  },
+  window: {
+    width: '94%',
+    maxWidth: 640,
+    minHeight: 480,
+    maxHeight: '88%',
+  },
+  windowFullscreen: {
+    width: '100%',
+    maxWidth: '100%',
+    height: '100%',
+    maxHeight: '100%',
+  },
+  content: {
+    flex: 1,
+    padding: 12,
+  },
+  scrollContent: {
+    paddingBottom: 12,
+    gap: 8,
+  },
+  previewBox: {
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#1a1f2f',
+  },
+  preview: {
+    width: PREVIEW_SIZE,
+    height: PREVIEW_SIZE,
+  },
+  currentState: {
+    color: '#e4eaff',
+    fontWeight: '600',
+  },
+  sectionHeading: {
+    color: '#f7f9ff',
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.08)',
+    backgroundColor: '#252c45',
+  },
+  chipActive: {
+    borderColor: '#9fb5e1',
+  },
+  chipText: {
+    color: '#e4eaff',
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: '#9fb5e1',
+  },
+  chipCaption: {
+    color: '#99a3c2',
+    fontSize: 11,
+  },
+  parameterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    paddingVertical: 4,
+  },
+  parameterName: {
+    color: '#e4eaff',
+    flex: 1,
+  },
+  parameterInput: {
+    minWidth: 96,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+    color: '#e4eaff',
+  },
+  transitionRow: {
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.08)',
+    backgroundColor: '#252c45',
+  },
+  transitionRowActive: {
+    borderColor: '#9fb5e1',
+  },
+  transitionText: {
+    color: '#e4eaff',
+    fontWeight: '500',
+  },
+  transitionCaption: {
+    color: '#99a3c2',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  emptyText: {
+    color: '#9aa2c0',
+  },
+} as const;
+
+const COLOR_KEYS = new Set(['backgroundColor', 'borderColor', 'color']);
+
+const lightColorMap: Record<string, string> = {
+  'rgba(0,0,0,0.65)': 'rgba(0,0,0,0.55)',
+  '#1a1f2f': '#e6ecf7',
+  '#e4eaff': '#111827',
+  '#f7f9ff': '#0f172a',
+  'rgba(255,255,255,0.08)': 'rgba(0,0,0,0.08)',
+  'rgba(255,255,255,0.2)': 'rgba(0,0,0,0.12)',
+  '#252c45': '#eef2f9',
+  '#9fb5e1': '#4c6ca8',
+  '#99a3c2': '#475569',
+  '#9aa2c0': '#475569',
+};
+
+const mapStyleColors = (
+  stylesObject: Record<string, any>,
+  mapColor: (value: string) => string,
+): Record<string, any> => {
+  const next: Record<string, any> = {};
+  Object.entries(stylesObject).forEach(([key, value]) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      next[key] = mapStyleColors(value, mapColor);
+      return;
+    }
+    if (typeof value === 'string' && COLOR_KEYS.has(key)) {
+      next[key] = mapColor(value);
+      return;
+    }
+    next[key] = value;
+  });
+  return next;
+};
+
+const createThemedStyles = (isDarkMode: boolean) => {
+  const mapColor = (value: string) => (isDarkMode ? value : (lightColorMap[value] ?? value));
+  return StyleSheet.create(mapStyleColors(baseStyles, mapColor));
+};
@@ -19,6 +19,7 @@ import { getEditorStrings } from '../localization';
 const TIMELINE_CARD_SIZE = 150;
 const TIMELINE_CARD_PADDING = 10;
 const TIMELINE_FOOTER_HEIGHT = 28;
+const EMPTY_EVENT_NAMES: string[] = [];
 
 type TimelinePanelStyles = ReturnType<typeof createThemedStyles>;
 
@@ -123,6 +124,90 @@ const MultiplierField = React.forwardRef<MultiplierFieldHandle, MultiplierFieldP
 
 MultiplierField.displayName = 'MultiplierField';
 
+/**
+ * Methods exposed to parent components via the events field ref.
+ */
+export interface EventsFieldHandle {
+  /** Commits the current event names draft. */
+  commit: () => void;
+}
+
+interface EventsFieldProps {
+  value: string[];
+  onSubmit: (names: string[]) => void;
+  disabled?: boolean;
+  styles: TimelinePanelStyles;
+  onFocusInput?: (input: TextInput | null) => void;
+  onBlurInput?: () => void;
+}
+
+const parseEventNames = (text: string) =>
+  text
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0);
+
+const EventsField = React.forwardRef<EventsFieldHandle, EventsFieldProps>(
+  ({ value, onSubmit, disabled, styles, onFocusInput, onBlurInput }, ref) => {
+    const baseValue = value.join(', ');
+    const [draft, setDraft] = useState(baseValue);
+    const [isFocused, setFocused] = useState(false);
+    const strings = useMemo(() => getEditorStrings(), []);
+    const inputRef = useRef<TextInput>(null);
+
+    const commit = useCallback(() => {
+      const names = parseEventNames(draft);
+      if (names.join(', ') === baseValue) {
+        return;
+      }
+      onSubmit(names);
+    }, [baseValue, draft, onSubmit]);
+
+    React.useImperativeHandle(ref, () => ({
+      commit,
+    }));
+
+    React.useEffect(() => {
+      if (!isFocused) {
+        setDraft(baseValue);
+      }
+    }, [baseValue, isFocused]);
+
+    return (
+      <View style={styles.multiplierRow}>
+        <Text style={styles.multiplierLabel}>{strings.timeline.eventsLabel}</Text>
+        <TextInput
+          ref={inputRef}
+          value={draft}
+          onChangeText={setDraft}
+          style={[
+            styles.multiplierInput,
+            styles.eventsInput,
+            disabled && styles.multiplierInputDisabled,
+          ]}
+          editable={!disabled}
+          placeholder={strings.timeline.eventsPlaceholder}
+          autoCapitalize="none"
+          autoCorrect={false}
+          onFocus={() => {
+            setFocused(true);
+            onFocusInput?.(inputRef.current);
+          }}
+          onBlur={() => {
+            setFocused(false);
+            commit();
+            onBlurInput?.();
+          }}
+          onSubmitEditing={commit}
+          returnKeyType="done"
+        />
+      </View>
+    );
+  },
+);
+
+EventsField.displayName = 'EventsField';
+
 /**
  * Props for the {@link TimelinePanel} component.
  */
@@ -189,6 +274,16 @@ export interface TimelinePanelProps {
   onFocusMultiplierInput?: (input: TextInput | null) => void;
   /** Scrolls away when multiplier field loses focus. */
   onBlurMultiplierInput?: () => void;
+  /** Ref to control the frame events input. */
+  eventsRef?: React.RefObject<EventsFieldHandle | null>;
+  /** Event names attached to the selected timeline index. */
+  selectedEvents?: string[];
+  /** Replaces the event names attached to the selected timeline index. */
+  onSubmitEvents?: (names: string[]) => void;
+  /** Timeline index the loop section starts at; null when the animation does not loop. */
+  loopStart?: number | null;
+  /** Moves the loop start to the selection, or back to the first frame if already there. */
+  onToggleLoopStart?: () => void;
   /** Dimension cache per frame id. */
   frameImageInfos: Record<string, FrameImageInfo>;
   /** Animations metadata indexed by name. */
@@ -230,6 +325,11 @@ export const TimelinePanel = ({
   onSubmitMultiplier,
   onFocusMultiplierInput,
   onBlurMultiplierInput,
+  eventsRef,
+  selectedEvents = EMPTY_EVENT_NAMES,
+  onSubmitEvents,
+  loopStart = null,
+  onToggleLoopStart,
   frameImageInfos,
   animationsMeta,
 }: TimelinePanelProps) => {
@@ -311,6 +411,15 @@ export const TimelinePanel = ({
         typeof storedMultiplier === 'number' ? storedMultiplier : defaultFrameMultiplier;
       const multiplierLabel =
         Math.abs(computedMultiplier - 1) < 0.01 ? '' : ` [×${computedMultiplier.toFixed(2)}]`;
+      const hasEvents =
+        currentAnimationName !== null && currentAnimationName !== undefined
+          ? (animationsMeta[currentAnimationName]?.events ?? []).some(
+              (event) => event.index === timelineIndex,
+            )
+          : false;
+      const hasLoopIntro = typeof loopStart === 'number' && loopStart > 0;
+      const isLoopStart = hasLoopIntro && timelineIndex === loopStart;
+      const isInLoop = hasLoopIntro && timelineIndex >= loopStart;
 
       const resolvePlaceholder = () => (
         <View
@@ -370,16 +479,36 @@ export const TimelinePanel = ({
       return (
         <TouchableOpacity
           key={`${frameIndex}-${timelineIndex}`}
-          style={[styles.timelineCard, isSelected && styles.timelineCardSelected]}
+          style={[
+            styles.timelineCard,
+            isInLoop && styles.timelineCardLoop,
+            isSelected && styles.timelineCardSelected,
+          ]}
           onPress={() => onSelectFrame(timelineIndex)}
         >
           <View style={styles.timelineCardBody}>{renderThumb()}</View>
           <View style={styles.timelineCardFooter}>
+            {isLoopStart ? (
+              <MaterialIcons
+                name="repeat"
+                size={12}
+                style={styles.timelineCardLoopIcon}
+                accessibilityLabel={strings.timeline.loopStartMarker}
+              />
+            ) : null}
             <Text style={styles.timelineCardMeta}>
               {timelineIndex}
               {typeof frameIndex === 'number' ? ` (f${frameIndex})` : ''}
               {multiplierLabel}
             </Text>
+            {hasEvents ? (
+              <MaterialIcons
+                name="flag"
+                size={12}
+                style={styles.timelineCardEventIcon}
+                accessibilityLabel={strings.timeline.eventsLabel}
+              />
+            ) : null}
           </View>
         </TouchableOpacity>
       );
@@ -389,13 +518,17 @@ export const TimelinePanel = ({
       currentAnimationName,
       defaultFrameMultiplier,
       frameImageInfos,
+      loopStart,
       onSelectFrame,
       strings,
       styles.timelineCard,
+      styles.timelineCardLoop,
+      styles.timelineCardLoopIcon,
       styles.timelineCardSelected,
       styles.timelineCardBody,
       styles.timelineCardFooter,
       styles.timelineCardMeta,
+      styles.timelineCardEventIcon,
       styles.thumb,
       styles.thumbPlaceholder,
       styles.thumbPlaceholderText,
@@ -512,6 +645,23 @@ export const TimelinePanel = ({
             onMoveRight={onMoveRight}
             onRemove={onRemove}
           />
+          {onToggleLoopStart ? (
+            <IconButton
+              name="start"
+              onPress={onToggleLoopStart}
+              disabled={
+                isPlaying ||
+                loopStart === null ||
+                selectedTimelineIndex === null ||
+                selectedTimelineIndex >= currentSequenceLength
+              }
+              accessibilityLabel={
+                loopStart !== null && loopStart > 0 && selectedTimelineIndex === loopStart
+                  ? strings.timeline.clearLoopStart
+                  : strings.timeline.setLoopStart
+              }
+            />
+          ) : null}
         </View>
         <View style={styles.timelineDivider} />
         <MultiplierField
@@ -523,6 +673,17 @@ export const TimelinePanel = ({
           onFocusInput={onFocusMultiplierInput}
           onBlurInput={onBlurMultiplierInput}
         />
+        {onSubmitEvents ? (
+          <EventsField
+            ref={eventsRef}
+            value={selectedEvents}
+            disabled={isPlaying || !selectedFrame}
+            onSubmit={onSubmitEvents}
+            styles={styles}
+            onFocusInput={onFocusMultiplierInput}
+            onBlurInput={onBlurMultiplierInput}
+          />
+        ) : null}
       </View>
       <View style={styles.timelineTrack}>{trackContent}</View>
     </View>
@@ -595,6 +756,10 @@ const baseStyles = {
   timelineCardSelected: {
     backgroundColor: '#1c2441',
   },
+  timelineCardLoop: {
+    borderTopWidth: 2,
+    borderTopColor: '#9fb5e1',
+  },
   timelineCardBody: {
     flex: 1,
     alignItems: 'center',
@@ -602,7 +767,16 @@ const baseStyles = {
   },
   timelineCardFooter: {
     height: TIMELINE_FOOTER_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'center',
     justifyContent: 'center',
+    gap: 4,
+  },
+  timelineCardEventIcon: {
+    color: '#f5c46b',
+  },
+  timelineCardLoopIcon: {
+    color: '#9fb5e1',
   },
   thumb: {
     borderRadius: 0,
@@ -654,6 +828,9 @@ const baseStyles = {
   multiplierInputDisabled: {
     opacity: 0.5,
   },
+  eventsInput: {
+    width: 140,
+  },
   multiplierUnit: {
     color: '#8a92ae',
     fontSize: 11,
@@ -698,6 +875,8 @@ const lightColorMap: Record<string, string> = {
   '#191f2e': '#e6ecf7',
   '#8a92ae': '#475569',
   '#22293a': '#d1d7e4',
+  '#f5c46b': '#b7791f',
+  '#9fb5e1': '#4c6ca8',
   'rgba(255,255,255,0.08)': 'rgba(0,0,0,0.08)',
 };
 
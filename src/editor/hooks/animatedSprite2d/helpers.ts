@@ -1,5 +1,12 @@
 /* eslint-disable jsdoc/require-jsdoc */
-import type { AnimatedSpriteFrame, SpriteFramesResource } from '../../animatedSprite2dTypes';
+import type { PlaybackDirection, SpriteAnimationPlaybackMode } from '../../../spriteTypes';
+import type {
+  AnimatedSpriteFrame,
+  FrameImageSource,
+  SpriteAnimationMeta,
+  SpriteFramesResource,
+  SpritePixelPerfectOptions,
+} from '../../animatedSprite2dTypes';
 
 export const DEFAULT_FPS = 12;
 const DEFAULT_FRAME_DURATION = 1000 / DEFAULT_FPS;
@@ -69,11 +76,544 @@ export const computeFrameDuration = (
   return (baseDuration * multiplier) / safeSpeed;
 };
 
+export const resolvePlaybackMode = (
+  meta: SpriteAnimationMeta | undefined,
+): SpriteAnimationPlaybackMode => {
+  const mode = meta?.playbackMode;
+  if (mode === 'loop' || mode === 'once' || mode === 'pingpong') {
+    return mode;
+  }
+  return meta?.loop === false ? 'once' : 'loop';
+};
+
+export const resolveLoopCount = (meta: SpriteAnimationMeta | undefined) => {
+  const value = meta?.loopCount;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 1) {
+    return 0;
+  }
+  return Math.floor(value);
+};
+
+export interface TimelineStepState {
+  cursor: number;
+  /** Current travel direction inside the sequence (flips for ping-pong). */
+  step: 1 | -1;
+  /** Completed loops, or completed round trips for ping-pong. */
+  iteration: number;
+}
+
+export interface TimelineStepResult extends TimelineStepState {
+  finished: boolean;
+}
+
+export const resolveLoopStart = (meta: SpriteAnimationMeta | undefined, sequenceLength: number) => {
+  const value = meta?.loopStart;
+  if (typeof value !== 'number' || !Number.isFinite(value) || sequenceLength <= 0) {
+    return 0;
+  }
+  return Math.max(0, Math.min(sequenceLength - 1, Math.floor(value)));
+};
+
+export interface TimelineLoopRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Moves the cursor one slot according to the playback mode. Repeats stay inside `loopRange`
+ * (defaults to the whole sequence); a finished result keeps the cursor on the last shown slot.
+ */
+export const stepTimelineCursor = (
+  state: TimelineStepState,
+  length: number,
+  mode: SpriteAnimationPlaybackMode,
+  loopCount: number,
+  loopRange?: TimelineLoopRange,
+): TimelineStepResult => {
+  'worklet';
+  const { cursor, step } = state;
+  let { iteration } = state;
+  const lastIndex = Math.max(0, length - 1);
+  const loopEnd = Math.max(0, Math.min(lastIndex, loopRange?.end ?? lastIndex));
+  const loopStart = Math.max(0, Math.min(loopEnd, loopRange?.start ?? 0));
+  const limitReached = () => loopCount > 0 && iteration >= loopCount;
+
+  if (mode === 'pingpong' && loopEnd > loopStart) {
+    const next = cursor + step;
+    if (next > loopEnd) {
+      return { cursor: loopEnd - 1, step: -1, iteration, finished: false };
+    }
+    if (step < 0 && next < loopStart) {
+      iteration += 1;
+      if (limitReached()) {
+        return { cursor: loopStart, step, iteration, finished: true };
+      }
+      return { cursor: loopStart + 1, step: 1, iteration, finished: false };
+    }
+    return { cursor: next, step, iteration, finished: false };
+  }
+
+  const next = cursor + 1;
+  if (mode === 'once') {
+    if (next <= lastIndex) {
+      return { cursor: next, step: 1, iteration, finished: false };
+    }
+    return { cursor: lastIndex, step: 1, iteration, finished: true };
+  }
+  if (next <= loopEnd) {
+    return { cursor: next, step: 1, iteration, finished: false };
+  }
+  iteration += 1;
+  if (limitReached()) {
+    return { cursor, step: 1, iteration, finished: true };
+  }
+  return { cursor: loopStart, step: 1, iteration, finished: false };
+};
+
+export interface TimelinePlayback {
+  mode: SpriteAnimationPlaybackMode;
+  loopCount: number;
+  loopRange: TimelineLoopRange;
+}
+
+export const resolveTimelinePlayback = (
+  frames: SpriteFramesResource,
+  animationName: string | null,
+  length: number,
+  direction: PlaybackDirection,
+): TimelinePlayback => {
+  const meta = frames.animationsMeta?.[animationName ?? ''];
+  // loopStart is a timeline index; reversed playback repeats the same section backwards
+  const loopStart = resolveLoopStart(meta, length);
+  return {
+    mode: resolvePlaybackMode(meta),
+    loopCount: resolveLoopCount(meta),
+    loopRange:
+      direction === 'reverse'
+        ? { start: 0, end: length - 1 - loopStart }
+        : { start: loopStart, end: length - 1 },
+  };
+};
+
+/** Per-cursor durations of the direction-adjusted sequence, following `computeFrameDuration`. */
+export const computeSequenceDurations = (
+  frames: SpriteFramesResource,
+  animationName: string | null,
+  effectiveSequence: number[],
+  direction: PlaybackDirection,
+  speedScale: number,
+) =>
+  effectiveSequence.map((frameIndex, cursor) =>
+    computeFrameDuration(
+      frames.frames[frameIndex],
+      animationName,
+      direction === 'reverse' ? effectiveSequence.length - 1 - cursor : cursor,
+      frames,
+      speedScale,
+    ),
+  );
+
+export interface TimelineTimingState extends TimelineStepState {
+  /** Milliseconds already spent on the current slot. */
+  accumulator: number;
+}
+
+export interface TimelineMeasure {
+  /** Time until the first repeat starts (or the animation ends), including any intro. */
+  firstPass: number;
+  /** Length of every later repeat; 0 when the animation never repeats. */
+  cycle: number;
+  /** When the animation finishes; null for endless loops. */
+  end: number | null;
+}
+
+// Each repeat after the first covers the same slots, so two passes describe the whole timeline.
+const walkTimeline = (
+  durations: number[],
+  playback: TimelinePlayback,
+  visit: (state: TimelineStepState, time: number) => boolean,
+) => {
+  let state: TimelineStepState = { cursor: 0, step: 1, iteration: 0 };
+  let time = 0;
+  let firstPass: number | null = null;
+  const maxSteps = durations.length * 4 + 4;
+  for (let steps = 0; steps < maxSteps; steps += 1) {
+    if (visit(state, time)) {
+      return { state, time, firstPass, finished: false };
+    }
+    time += durations[state.cursor] ?? 0;
+    const next = stepTimelineCursor(
+      state,
+      durations.length,
+      playback.mode,
+      playback.loopCount,
+      playback.loopRange,
+    );
+    if (next.finished) {
+      return { state: next, time, firstPass: firstPass ?? time, finished: true };
+    }
+    if (next.iteration !== state.iteration) {
+      if (firstPass !== null) {
+        return { state: next, time, firstPass, finished: false };
+      }
+      firstPass = time;
+    }
+    state = next;
+  }
+  return { state, time, firstPass, finished: false };
+};
+
+export const measureTimeline = (
+  durations: number[],
+  playback: TimelinePlayback,
+): TimelineMeasure => {
+  if (!durations.length) {
+    return { firstPass: 0, cycle: 0, end: 0 };
+  }
+  const walk = walkTimeline(durations, playback, () => false);
+  const firstPass = walk.firstPass ?? walk.time;
+  if (walk.finished && walk.state.iteration <= 1) {
+    return { firstPass, cycle: walk.time - firstPass, end: walk.time };
+  }
+  const cycle = walk.time - firstPass;
+  const end = playback.loopCount > 0 ? firstPass + (playback.loopCount - 1) * cycle : null;
+  return { firstPass, cycle, end };
+};
+
+/** Milliseconds from the start of the animation to `state`, the inverse of `resolveTimelineTime`. */
+export const computeTimelineElapsed = (
+  durations: number[],
+  playback: TimelinePlayback,
+  state: TimelineTimingState,
+  measure: TimelineMeasure = measureTimeline(durations, playback),
+) => {
+  if (!durations.length) {
+    return 0;
+  }
+  const repeat = Math.min(state.iteration, 1);
+  const walk = walkTimeline(
+    durations,
+    playback,
+    (current) =>
+      current.iteration === repeat &&
+      current.cursor === state.cursor &&
+      current.step === state.step,
+  );
+  if (walk.finished) {
+    return walk.time;
+  }
+  const elapsed =
+    walk.time + Math.max(0, state.iteration - 1) * measure.cycle + Math.max(0, state.accumulator);
+  return measure.end === null ? elapsed : Math.min(elapsed, measure.end);
+};
+
+/**
+ * Where playback is `time` ms after the animation started, replaying the `stepTimelineCursor`
+ * rules. Past the end, playback rests on the last slot with its time used up.
+ */
+export const resolveTimelineTime = (
+  durations: number[],
+  playback: TimelinePlayback,
+  time: number,
+  measure: TimelineMeasure = measureTimeline(durations, playback),
+): TimelineTimingState & { finished: boolean } => {
+  const target = Number.isFinite(time) ? Math.max(0, time) : 0;
+  if (!durations.length) {
+    return { cursor: 0, step: 1, iteration: 0, accumulator: 0, finished: false };
+  }
+  // skip whole repeats, leaving at least one so the walk still sees the end of the animation
+  let skipped = 0;
+  if (measure.cycle > 0 && target >= measure.firstPass + measure.cycle) {
+    skipped = Math.floor((target - measure.firstPass) / measure.cycle);
+    if (playback.loopCount > 0) {
+      skipped = Math.max(0, Math.min(skipped, playback.loopCount - 2));
+    }
+  }
+  const remaining = target - skipped * measure.cycle;
+  const walk = walkTimeline(
+    durations,
+    { ...playback, loopCount: playback.loopCount > 0 ? playback.loopCount - skipped : 0 },
+    (current, start) => remaining < start + (durations[current.cursor] ?? 0),
+  );
+  return {
+    cursor: walk.state.cursor,
+    step: walk.state.step,
+    iteration: walk.state.iteration + skipped,
+    accumulator: walk.finished
+      ? (durations[walk.state.cursor] ?? 0)
+      : Math.max(0, remaining - walk.time),
+    finished: walk.finished,
+  };
+};
+
+export const buildAnimationEventIndex = (
+  frames: SpriteFramesResource,
+  animationName: string | null,
+): Map<number, string[]> => {
+  const index = new Map<number, string[]>();
+  const events = frames.animationsMeta?.[animationName ?? '']?.events;
+  if (!Array.isArray(events)) {
+    return index;
+  }
+  events.forEach((event) => {
+    if (!event || typeof event.name !== 'string' || !event.name.length) {
+      return;
+    }
+    if (typeof event.index !== 'number' || !Number.isFinite(event.index) || event.index < 0) {
+      return;
+    }
+    const timelineIndex = Math.floor(event.index);
+    const names = index.get(timelineIndex);
+    if (names) {
+      names.push(event.name);
+    } else {
+      index.set(timelineIndex, [event.name]);
+    }
+  });
+  return index;
+};
+
+/** Box a frame is laid out in: its untrimmed size, or its own size when it was not trimmed. */
+export const resolveFrameSourceSize = (frame: AnimatedSpriteFrame) => ({
+  width: frame.sourceSize?.width ?? frame.width,
+  height: frame.sourceSize?.height ?? frame.height,
+});
+
 export const computeSceneBounds = (frames: AnimatedSpriteFrame[]) =>
   frames.reduce(
-    (acc, frame) => ({
-      width: Math.max(acc.width, frame.width),
-      height: Math.max(acc.height, frame.height),
-    }),
+    (acc, frame) => {
+      const size = resolveFrameSourceSize(frame);
+      return {
+        width: Math.max(acc.width, size.width),
+        height: Math.max(acc.height, size.height),
+      };
+    },
     { width: 0, height: 0 },
   );
+
+export const computeDrawOrigin = (
+  frame: AnimatedSpriteFrame | null,
+  canvasSize: { width: number; height: number },
+  centered: boolean,
+  scale: number,
+  offset?: { x: number; y: number } | null,
+) => {
+  if (!frame) {
+    return { x: 0, y: 0 };
+  }
+  const size = resolveFrameSourceSize(frame);
+  const scaledWidth = size.width * scale;
+  const scaledHeight = size.height * scale;
+  const baseX = centered ? (canvasSize.width - scaledWidth) / 2 : 0;
+  const baseY = centered ? (canvasSize.height - scaledHeight) / 2 : 0;
+  return {
+    x: baseX + ((frame.offset?.x ?? 0) + (offset?.x ?? 0)) * scale,
+    y: baseY + ((frame.offset?.y ?? 0) + (offset?.y ?? 0)) * scale,
+  };
+};
+
+export const resolvePixelPerfect = (value: boolean | SpritePixelPerfectOptions | undefined) => ({
+  enabled: Boolean(value),
+  integerScale: typeof value === 'object' && value !== null && value.integerScale === true,
+});
+
+/** Whole numbers at or above 1, 1/n below it. */
+export const snapIntegerScale = (scale: number) =>
+  scale >= 1 ? Math.floor(scale) : 1 / Math.ceil(1 / scale);
+
+/** Next integer (or 1/n) scale up or down, e.g. 2 → 1 → 1/2 → 1/3. */
+export const stepIntegerScale = (scale: number, step: 1 | -1) => {
+  const snapped = snapIntegerScale(scale);
+  if (snapped >= 1) {
+    const next = snapped + step;
+    return next >= 1 ? next : 1 / 2;
+  }
+  const divisor = Math.round(1 / snapped) - step;
+  return divisor <= 1 ? 1 : 1 / divisor;
+};
+
+export interface FrameRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FrameLayout {
+  /** Canvas area the frame is clipped to. */
+  clip: FrameRect;
+  /** Where the whole source image is drawn so the frame's subset lands inside `clip`. */
+  image: FrameRect;
+}
+
+type ImageSize = { width?: () => number; height?: () => number };
+
+export const computeFrameLayout = (
+  frame: AnimatedSpriteFrame,
+  frameImage: ImageSize,
+  drawOrigin: { x: number; y: number },
+  scale: number,
+): FrameLayout => {
+  // `drawOrigin` is the corner of the untrimmed box; trimmed pixels sit inside it
+  const clip = {
+    x: drawOrigin.x + (frame.trimOffset?.x ?? 0) * scale,
+    y: drawOrigin.y + (frame.trimOffset?.y ?? 0) * scale,
+    width: frame.width * scale,
+    height: frame.height * scale,
+  };
+  const subset = frame.image?.subset;
+  if (!subset) {
+    return { clip, image: { ...clip } };
+  }
+  const width =
+    typeof frameImage.width === 'function' ? frameImage.width() : frame.width + subset.x;
+  const height =
+    typeof frameImage.height === 'function' ? frameImage.height() : frame.height + subset.y;
+  return {
+    clip,
+    image: {
+      x: clip.x - subset.x * scale,
+      y: clip.y - subset.y * scale,
+      width: width * scale,
+      height: height * scale,
+    },
+  };
+};
+
+export type FlipTransformStep =
+  | { translateX: number }
+  | { scaleX: number }
+  | { translateY: number }
+  | { scaleY: number };
+
+/** Steps that mirror drawing around `box`, in Skia transform order; empty without flips. */
+export const computeFlipTransform = (flipH: boolean, flipV: boolean, box: FrameRect) => {
+  const steps: FlipTransformStep[] = [];
+  if (flipH) {
+    steps.push({ translateX: box.x * 2 + box.width }, { scaleX: -1 });
+  }
+  if (flipV) {
+    steps.push({ translateY: box.y * 2 + box.height }, { scaleY: -1 });
+  }
+  return steps;
+};
+
+export interface SpriteBoxTransform {
+  /** Radians. */
+  rotation: number;
+  /** Radians, passed to Skia's `skewX`. */
+  skewX: number;
+  /** Radians, passed to Skia's `skewY`. */
+  skewY: number;
+}
+
+const finiteOr = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+const isPoint = (value: unknown): value is { x: number; y: number } =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as { x?: unknown }).x === 'number' &&
+  typeof (value as { y?: unknown }).y === 'number';
+
+/** Rotation/skew of the sprite box around `origin`, in canvas coordinates. */
+export interface SpriteBoxTransformLayout extends SpriteBoxTransform {
+  origin: { x: number; y: number };
+}
+
+/** Null when neither rotation nor skew is set, so plain sprites keep their canvas size. */
+export const resolveBoxTransform = (
+  rotation: number | undefined,
+  skew: { x: number; y: number } | undefined,
+): SpriteBoxTransform | null => {
+  const resolved = {
+    rotation: finiteOr(rotation, 0),
+    skewX: finiteOr(skew?.x, 0),
+    skewY: finiteOr(skew?.y, 0),
+  };
+  return resolved.rotation || resolved.skewX || resolved.skewY ? resolved : null;
+};
+
+/** Frame-local pivot: the `pivot` prop, then `meta.origin` of the resource, then the frame center. */
+export const resolveSpritePivot = (
+  frame: AnimatedSpriteFrame | null,
+  pivot: { x: number; y: number } | undefined,
+  meta: SpriteFramesResource['meta'],
+) => {
+  if (isPoint(pivot)) {
+    return pivot;
+  }
+  const origin = meta?.origin;
+  if (isPoint(origin)) {
+    return origin;
+  }
+  const size = frame ? resolveFrameSourceSize(frame) : { width: 0, height: 0 };
+  return { x: size.width / 2, y: size.height / 2 };
+};
+
+/**
+ * Bounding box of a `size` box after applying `transform` around `pivot`, using Skia's matrix
+ * conventions (`[{ rotate }, { skewX }, { skewY }]` with `origin={pivot}`).
+ */
+export const computeTransformedBounds = (
+  size: { width: number; height: number },
+  pivot: { x: number; y: number },
+  transform: SpriteBoxTransform | null,
+): FrameRect => {
+  if (!transform) {
+    return { x: 0, y: 0, width: size.width, height: size.height };
+  }
+  const cos = Math.cos(transform.rotation);
+  const sin = Math.sin(transform.rotation);
+  const tanX = Math.tan(transform.skewX);
+  const tanY = Math.tan(transform.skewY);
+  const corners = [
+    [0, 0],
+    [size.width, 0],
+    [0, size.height],
+    [size.width, size.height],
+  ].map(([cornerX, cornerY]) => {
+    const dx = cornerX! - pivot.x;
+    const dy = cornerY! - pivot.y;
+    // skewY, then skewX, then rotate (the transform array is applied right to left)
+    const skewedX = dx + tanY * dy;
+    const skewedY = dy + tanX * skewedX;
+    return {
+      x: pivot.x + cos * skewedX - sin * skewedY,
+      y: pivot.y + sin * skewedX + cos * skewedY,
+    };
+  });
+  const xs = corners.map((corner) => corner.x);
+  const ys = corners.map((corner) => corner.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return {
+    x: minX,
+    y: minY,
+    width: Math.max(...xs) - minX,
+    height: Math.max(...ys) - minY,
+  };
+};
+
+/** Identity of the image a frame is cut from; frames with equal keys share one loaded image. */
+export const getImageSourceKey = (source: FrameImageSource | undefined): unknown => {
+  if (!source) {
+    return null;
+  }
+  if (source.type === 'uri') {
+    return `uri:${source.uri}`;
+  }
+  if (source.type === 'require') {
+    return `require:${source.assetId}`;
+  }
+  return source.image;
+};
+
+/** True when every frame is cut from the same image, so one image can stay mounted while playing. */
+export const hasSingleImageSource = (frames: AnimatedSpriteFrame[]) => {
+  if (!frames.length) {
+    return false;
+  }
+  const key = getImageSourceKey(frames[0]!.image);
+  return key !== null && frames.every((frame) => getImageSourceKey(frame.image) === key);
+};
@@ -3,3 +3,6 @@ export * from './useFrameCache';
 export * from './useSceneBounds';
 export * from './useTicker';
 export * from './useAnimatedSpriteController';
+export * from './useUIThreadPlayback';
+export * from './useAnimatedSpriteHandle';
+export * from './useSpriteAppearance';
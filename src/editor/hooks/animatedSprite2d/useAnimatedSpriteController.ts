@@ -1,48 +1,86 @@
 /* eslint-disable jsdoc/require-jsdoc */
 import { useMemo } from 'react';
-import type { AnimatedSprite2DProps, AnimatedSpriteFrame } from '../../animatedSprite2dTypes';
+import { PixelRatio } from 'react-native';
+import type {
+  AnimatedSprite2DProps,
+  AnimatedSpriteFrame,
+  SpritePaletteEffect,
+} from '../../animatedSprite2dTypes';
+import { resolvePaletteSwap } from '../../utils/palette';
+import {
+  computeDrawOrigin,
+  computeTransformedBounds,
+  resolveBoxTransform,
+  resolveFrameSourceSize,
+  resolvePixelPerfect,
+  resolveSpritePivot,
+  snapIntegerScale,
+  type FrameRect,
+  type SpriteBoxTransformLayout,
+} from './helpers';
 import { useFrameCache } from './useFrameCache';
 import { useSceneBounds } from './useSceneBounds';
 import { useAnimationState, type UseAnimationStateResult } from './useAnimationState';
+import { useSpriteAppearance, type SpriteAppearanceResult } from './useSpriteAppearance';
 
-export interface AnimatedSpriteControllerResult extends UseAnimationStateResult {
+export interface AnimatedSpriteControllerResult
+  extends UseAnimationStateResult,
+    SpriteAppearanceResult {
   frameImage: ReturnType<typeof useFrameCache>;
+  /** Grows beyond `contentRect` to fit the sprite box once it is rotated or skewed. */
   canvasSize: { width: number; height: number };
   drawOrigin: { x: number; y: number };
+  /** The untransformed sprite box inside the canvas; flips mirror around it. */
+  contentRect: FrameRect;
+  boxTransform: SpriteBoxTransformLayout | null;
+  /** After `pixelPerfect.integerScale` snapping. */
   scale: number;
+  /** Draw with nearest-neighbour sampling; `drawOrigin` is already snapped to device pixels. */
+  pixelPerfect: boolean;
+  /** Recolor for the selected `palette` variant, drawn before `modulate` and `effects`. */
+  paletteSwap: SpritePaletteEffect | null;
 }
 
 export type AnimatedSpriteControllerOptions = Omit<AnimatedSprite2DProps, 'style'> & {
   frames: AnimatedSprite2DProps['frames'];
-};
-
-const computeDrawOrigin = (
-  currentFrame: AnimatedSpriteFrame | null,
-  canvasSize: { width: number; height: number },
-  centered: boolean,
-  scale: number,
-  offset?: { x: number; y: number } | null,
-) => {
-  if (!currentFrame) {
-    return { x: 0, y: 0 };
-  }
-  const scaledWidth = currentFrame.width * scale;
-  const scaledHeight = currentFrame.height * scale;
-  const baseX = centered ? (canvasSize.width - scaledWidth) / 2 : 0;
-  const baseY = centered ? (canvasSize.height - scaledHeight) / 2 : 0;
-  return {
-    x: baseX + ((currentFrame.offset?.x ?? 0) + (offset?.x ?? 0)) * scale,
-    y: baseY + ((currentFrame.offset?.y ?? 0) + (offset?.y ?? 0)) * scale,
-  };
+  /** Holds playback on its current frame, e.g. while the frame images load. */
+  suspended?: boolean;
 };
 
 export const useAnimatedSpriteController = (
   options: AnimatedSpriteControllerOptions,
 ): AnimatedSpriteControllerResult => {
-  const { frames, centered = true, offset, scale: scaleProp } = options;
-  const scale =
+  const {
+    frames,
+    centered = true,
+    offset,
+    scale: scaleProp,
+    rotation,
+    skew,
+    pivot,
+    pixelPerfect: pixelPerfectProp,
+    modulate,
+    opacity,
+    blendMode,
+    effects,
+    palette,
+  } = options;
+  const { enabled: pixelPerfect, integerScale } = resolvePixelPerfect(pixelPerfectProp);
+  const baseScale =
     typeof scaleProp === 'number' && Number.isFinite(scaleProp) && scaleProp > 0 ? scaleProp : 1;
+  const scale = integerScale ? snapIntegerScale(baseScale) : baseScale;
   const animationState = useAnimationState(options);
+  const appearance = useSpriteAppearance({
+    modulate,
+    opacity,
+    blendMode,
+    effects,
+    palette,
+  });
+  const paletteSwap = useMemo<SpritePaletteEffect | null>(() => {
+    const swap = resolvePaletteSwap(frames.meta?.palettes, appearance.palette);
+    return swap ? { type: 'palette', ...swap } : null;
+  }, [appearance.palette, frames.meta]);
   const sequenceFrames = useMemo(() => {
     const mapped = animationState.sequence
       .map((index) => frames.frames[index])
@@ -50,28 +88,47 @@ export const useAnimatedSpriteController = (
     return mapped.length ? mapped : frames.frames;
   }, [animationState.sequence, frames.frames]);
   const bounds = useSceneBounds(sequenceFrames);
-  const canvasSize = useMemo(() => {
-    const baseWidth =
-      centered && bounds.width > 0
-        ? bounds.width
-        : (animationState.currentFrame?.width ?? bounds.width);
-    const baseHeight =
-      centered && bounds.height > 0
-        ? bounds.height
-        : (animationState.currentFrame?.height ?? bounds.height);
+  // UI-thread playback does not re-render per frame, so it always sizes to the whole sequence
+  const sizeToBounds = centered || animationState.driver === 'ui';
+  const boxSize = useMemo(() => {
+    const frameSize = animationState.currentFrame
+      ? resolveFrameSourceSize(animationState.currentFrame)
+      : bounds;
+    const baseWidth = sizeToBounds && bounds.width > 0 ? bounds.width : frameSize.width;
+    const baseHeight = sizeToBounds && bounds.height > 0 ? bounds.height : frameSize.height;
     return { width: baseWidth * scale, height: baseHeight * scale };
-  }, [animationState.currentFrame, bounds.height, bounds.width, centered, scale]);
+  }, [animationState.currentFrame, bounds, scale, sizeToBounds]);
   const frameImage = useFrameCache(animationState.currentFrame);
-  const drawOrigin = useMemo(
-    () => computeDrawOrigin(animationState.currentFrame, canvasSize, centered, scale, offset),
-    [animationState.currentFrame, canvasSize, centered, offset, scale],
+  const boxOrigin = useMemo(
+    () => computeDrawOrigin(animationState.currentFrame, boxSize, centered, scale, offset),
+    [animationState.currentFrame, boxSize, centered, offset, scale],
   );
+  const transform = useMemo(() => resolveBoxTransform(rotation, skew), [rotation, skew]);
+  const pivotPoint = useMemo(() => {
+    const framePivot = resolveSpritePivot(animationState.currentFrame, pivot, frames.meta);
+    return { x: boxOrigin.x + framePivot.x * scale, y: boxOrigin.y + framePivot.y * scale };
+  }, [animationState.currentFrame, boxOrigin, frames.meta, pivot, scale]);
+  const layout = useMemo(() => {
+    const bounds = computeTransformedBounds(boxSize, pivotPoint, transform);
+    const shift = { x: -bounds.x, y: -bounds.y };
+    const snap = pixelPerfect ? PixelRatio.roundToNearestPixel : (value: number) => value;
+    return {
+      canvasSize: { width: bounds.width, height: bounds.height },
+      drawOrigin: { x: snap(boxOrigin.x + shift.x), y: snap(boxOrigin.y + shift.y) },
+      contentRect: { ...shift, ...boxSize },
+      boxTransform: transform
+        ? { ...transform, origin: { x: pivotPoint.x + shift.x, y: pivotPoint.y + shift.y } }
+        : null,
+    };
+  }, [boxOrigin, boxSize, pivotPoint, pixelPerfect, transform]);
 
   return {
     ...animationState,
+    ...appearance,
     frameImage,
-    canvasSize,
-    drawOrigin,
+    ...layout,
     scale,
+    pixelPerfect,
+    paletteSwap,
   };
 };
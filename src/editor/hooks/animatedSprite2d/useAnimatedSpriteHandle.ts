@@ -0,0 +1,124 @@
+import { useCallback, useImperativeHandle, type Ref } from 'react';
+import type { AnimationPlayOptions } from '../../../spriteTypes';
+import type { AnimatedSprite2DHandle, SpriteFramesResource } from '../../animatedSprite2dTypes';
+import type { AnimatedSpriteControllerResult } from './useAnimatedSpriteController';
+
+/** Exposes the controller through the imperative `AnimatedSprite2DHandle` API. */
+export const useAnimatedSpriteHandle = (
+  ref: Ref<AnimatedSprite2DHandle>,
+  controller: AnimatedSpriteControllerResult,
+  frames: SpriteFramesResource,
+) => {
+  const {
+    animationName,
+    setAnimationName,
+    playing,
+    setPlaying,
+    sequence,
+    setTimelineCursor,
+    resetTimelineAccumulator,
+    seekTime,
+    getPlaybackPosition,
+    advance,
+    setDirection,
+    setSpeedScale,
+    queue,
+    playSequence,
+    clearQueue,
+    setModulate,
+    setOpacity,
+    setBlendMode,
+    setEffects,
+    setPalette,
+  } = controller;
+
+  const clampFrameIndex = useCallback(
+    (index: number) => {
+      const maxIndex = Math.max(0, frames.frames.length - 1);
+      if (!Number.isFinite(index)) {
+        return 0;
+      }
+      return Math.max(0, Math.min(maxIndex, Math.floor(index)));
+    },
+    [frames.frames.length],
+  );
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      play: (name?: string | null, opts?: AnimationPlayOptions) => {
+        if (name !== undefined) {
+          setAnimationName(name);
+        }
+        if (opts?.direction) {
+          setDirection(opts.direction);
+        }
+        if (typeof opts?.speedScale === 'number') {
+          setSpeedScale(opts.speedScale);
+        }
+        if (typeof opts?.fromFrame === 'number') {
+          setTimelineCursor(opts.fromFrame);
+        }
+        setPlaying(true);
+      },
+      stop: () => {
+        setPlaying(false);
+        setTimelineCursor(0);
+        resetTimelineAccumulator();
+      },
+      pause: () => {
+        setPlaying(false);
+      },
+      seekFrame: (frameIndex: number) => {
+        const normalized = clampFrameIndex(frameIndex);
+        const targetCursor = sequence.findIndex((value) => value === normalized);
+        setTimelineCursor(targetCursor >= 0 ? targetCursor : 0);
+        resetTimelineAccumulator();
+        setPlaying(false);
+      },
+      seekTime: (ms: number) => {
+        seekTime(ms);
+        setPlaying(false);
+      },
+      seekCursor: (timelineIndex: number) => {
+        setTimelineCursor(timelineIndex);
+        setPlaying(false);
+      },
+      getPlaybackPosition,
+      advance,
+      queue,
+      playSequence,
+      clearQueue,
+      getCurrentAnimation: () => animationName,
+      isPlaying: () => playing,
+      setModulate,
+      setOpacity,
+      setBlendMode,
+      setEffects,
+      setPalette,
+    }),
+    [
+      advance,
+      animationName,
+      clampFrameIndex,
+      clearQueue,
+      getPlaybackPosition,
+      playSequence,
+      playing,
+      queue,
+      resetTimelineAccumulator,
+      seekTime,
+      sequence,
+      setAnimationName,
+      setBlendMode,
+      setDirection,
+      setEffects,
+      setModulate,
+      setOpacity,
+      setPalette,
+      setPlaying,
+      setSpeedScale,
+      setTimelineCursor,
+    ],
+  );
+};
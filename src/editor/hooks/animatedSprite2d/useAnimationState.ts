@@ -1,15 +1,20 @@
 /* eslint-disable jsdoc/require-jsdoc */
-import { useCallback, useEffect, useMemo } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { PlaybackDirection } from '../../../spriteTypes';
 import type {
   AnimatedSprite2DProps,
   AnimatedSpriteFrame,
   SpriteFramesResource,
+  SpritePlaybackDriver,
+  SpritePlaybackPosition,
 } from '../../animatedSprite2dTypes';
-import { pickInitialAnimation, resolveFrameIndex } from './helpers';
+import { hasSingleImageSource, pickInitialAnimation, resolveFrameIndex } from './helpers';
 import { useSpriteAnimationTicker } from '../../../hooks/useSpriteAnimationTicker';
 
 export interface UseAnimationStateOptions extends Omit<AnimatedSprite2DProps, 'style' | 'frames'> {
   frames: SpriteFramesResource;
+  /** Holds playback on its current frame without changing `playing`, e.g. while images load. */
+  suspended?: boolean;
 }
 
 export interface UseAnimationStateResult {
@@ -17,13 +22,35 @@ export interface UseAnimationStateResult {
   setAnimationName: (name: string | null) => void;
   playing: boolean;
   setPlaying: (next: boolean) => void;
+  /** True while `suspended` holds the clock; external drivers must not advance either. */
+  suspended: boolean;
   sequence: number[];
   timelineCursor: number;
   setTimelineCursor: (cursor: number) => void;
   resetTimelineAccumulator: () => void;
+  seekTime: (ms: number) => void;
+  getPlaybackPosition: () => SpritePlaybackPosition;
+  advance: (deltaMs: number) => void;
+  direction: PlaybackDirection;
+  setDirection: (next: PlaybackDirection) => void;
+  speedScale: number;
+  setSpeedScale: (next: number) => void;
+  queue: (name: string) => void;
+  playSequence: (names: string[]) => void;
+  clearQueue: () => void;
   forcedFrameIndex: number | null;
   resolvedFrameIndex: number;
   currentFrame: AnimatedSpriteFrame | null;
+  /**
+   * Driver actually in use; `'ui'` falls back to `'js'` when frames span several images, and
+   * later when the ticker needs to chain or follow a shared clock.
+   */
+  driver: SpritePlaybackDriver;
+  effectiveCursor: number;
+  cursorRevision: number;
+  reportExternalCursor: (effectiveCursor: number, step?: 1 | -1, iteration?: number) => void;
+  completeExternalPlayback: (effectiveCursor: number) => void;
+  syncExternalCursor: (effectiveCursor: number) => void;
 }
 
 export const useAnimationState = (options: UseAnimationStateOptions): UseAnimationStateResult => {
@@ -34,15 +61,46 @@ export const useAnimationState = (options: UseAnimationStateOptions): UseAnimati
     playing,
     frame,
     speedScale = 1,
+    direction: directionProp = 'forward',
     onAnimationFinished,
     onFrameChanged,
+    onAnimationEvent,
+    onProgress,
+    playbackDriver,
+    clock = 'auto',
+    restartKey,
+    suspended = false,
   } = options;
 
+  // a manual clock is stepped from JS, so the UI-thread driver cannot own the timing
+  const requestedDriver = useMemo<SpritePlaybackDriver>(
+    () =>
+      playbackDriver === 'ui' && clock !== 'manual' && hasSingleImageSource(frames.frames)
+        ? 'ui'
+        : 'js',
+    [clock, frames.frames, playbackDriver],
+  );
+
   const initialAnimation = useMemo(
     () => pickInitialAnimation(frames, animation, autoplay),
     [animation, autoplay, frames],
   );
 
+  // play() options override the props until the matching prop changes
+  const [directionOverride, setDirectionOverride] = useState<PlaybackDirection | null>(null);
+  const [speedScaleOverride, setSpeedScaleOverride] = useState<number | null>(null);
+
+  useEffect(() => {
+    setDirectionOverride(null);
+  }, [directionProp]);
+
+  useEffect(() => {
+    setSpeedScaleOverride(null);
+  }, [speedScale]);
+
+  const direction = directionOverride ?? directionProp;
+  const effectiveSpeedScale = speedScaleOverride ?? speedScale;
+
   const {
     animationName: tickerAnimationName,
     setAnimationName: setTickerAnimationName,
@@ -52,15 +110,32 @@ export const useAnimationState = (options: UseAnimationStateOptions): UseAnimati
     timelineCursor,
     setTimelineCursor,
     resetTimelineAccumulator,
+    seekTime,
+    getPlaybackPosition,
+    advance,
     frameIndex: tickerFrameIndex,
+    queue,
+    playSequence,
+    clearQueue,
+    driver,
+    effectiveCursor,
+    cursorRevision,
+    reportExternalCursor,
+    completeExternalPlayback,
+    syncExternalCursor,
   } = useSpriteAnimationTicker({
     frames,
     initialAnimation,
     initialPlaying: playing ?? true,
-    speedScale,
+    speedScale: effectiveSpeedScale,
     onAnimationFinished,
     onFrameChanged: frame === undefined ? onFrameChanged : undefined,
-    direction: 'forward',
+    onAnimationEvent,
+    onProgress,
+    direction,
+    driver: requestedDriver,
+    clock,
+    suspended,
   });
 
   useEffect(() => {
@@ -128,31 +203,54 @@ export const useAnimationState = (options: UseAnimationStateOptions): UseAnimati
     [playing, setTickerPlaying],
   );
 
-  const setTimelineCursorClamped = useCallback(
-    (next: number) => {
-      if (!sequence.length) {
-        setTimelineCursor(0);
-        resetTimelineAccumulator();
-        return;
-      }
-      const clamped = Math.max(0, Math.min(sequence.length - 1, Math.floor(next)));
-      setTimelineCursor(clamped);
-      resetTimelineAccumulator();
-    },
-    [resetTimelineAccumulator, sequence.length, setTimelineCursor],
-  );
+  const restartKeyRef = useRef(restartKey);
+  useEffect(() => {
+    if (restartKeyRef.current === restartKey) {
+      return;
+    }
+    restartKeyRef.current = restartKey;
+    setTimelineCursor(0);
+    setPlayingState(true);
+  }, [restartKey, setPlayingState, setTimelineCursor]);
+
+  const setDirection = useCallback((next: PlaybackDirection) => {
+    setDirectionOverride(next === 'reverse' ? 'reverse' : 'forward');
+  }, []);
+
+  const setSpeedScale = useCallback((next: number) => {
+    if (Number.isFinite(next) && next > 0) {
+      setSpeedScaleOverride(next);
+    }
+  }, []);
 
   return {
     animationName: resolvedAnimation ?? null,
     setAnimationName,
     playing: desiredPlaying,
     setPlaying: setPlayingState,
+    suspended,
     sequence,
     timelineCursor,
-    setTimelineCursor: setTimelineCursorClamped,
+    setTimelineCursor,
     resetTimelineAccumulator,
+    seekTime,
+    getPlaybackPosition,
+    advance,
+    direction,
+    setDirection,
+    speedScale: effectiveSpeedScale,
+    setSpeedScale,
+    queue,
+    playSequence,
+    clearQueue,
     forcedFrameIndex,
     resolvedFrameIndex,
     currentFrame,
+    driver,
+    effectiveCursor,
+    cursorRevision,
+    reportExternalCursor,
+    completeExternalPlayback,
+    syncExternalCursor,
   };
 };
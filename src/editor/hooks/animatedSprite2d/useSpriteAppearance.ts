@@ -0,0 +1,107 @@
+/* eslint-disable jsdoc/require-jsdoc */
+import { useCallback, useEffect, useState } from 'react';
+import type { Color } from '@shopify/react-native-skia';
+import type { SpriteBlendMode, SpriteEffect } from '../../animatedSprite2dTypes';
+
+export interface UseSpriteAppearanceOptions {
+  modulate?: Color | null;
+  opacity?: number;
+  blendMode?: SpriteBlendMode | null;
+  effects?: SpriteEffect[] | null;
+  palette?: string | null;
+}
+
+export interface SpriteAppearanceResult {
+  modulate: Color | null;
+  /** Clamped to 0–1. */
+  opacity: number;
+  blendMode: SpriteBlendMode | null;
+  effects: SpriteEffect[] | null;
+  /** Name of the palette variant to draw with. */
+  palette: string | null;
+  setModulate: (next: Color | null) => void;
+  setOpacity: (next: number) => void;
+  setBlendMode: (next: SpriteBlendMode | null) => void;
+  setEffects: (next: SpriteEffect[] | null) => void;
+  setPalette: (next: string | null) => void;
+}
+
+const clampOpacity = (value: number | undefined) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.min(1, value)) : 1;
+
+// `null` follows the prop; `{ value: null }` is a deliberate reset from the handle
+type Override<T> = { value: T } | null;
+
+/**
+ * Resolves tint, opacity, blend mode, effects and palette. Handle setters override the props locally (so only the
+ * sprite re-renders) until the matching prop changes.
+ */
+export const useSpriteAppearance = ({
+  modulate,
+  opacity,
+  blendMode,
+  effects,
+  palette,
+}: UseSpriteAppearanceOptions): SpriteAppearanceResult => {
+  const [modulateOverride, setModulateOverride] = useState<Override<Color | null>>(null);
+  const [opacityOverride, setOpacityOverride] = useState<number | null>(null);
+  const [blendModeOverride, setBlendModeOverride] =
+    useState<Override<SpriteBlendMode | null>>(null);
+  const [effectsOverride, setEffectsOverride] = useState<Override<SpriteEffect[] | null>>(null);
+  const [paletteOverride, setPaletteOverride] = useState<Override<string | null>>(null);
+
+  useEffect(() => {
+    setModulateOverride(null);
+  }, [modulate]);
+
+  useEffect(() => {
+    setOpacityOverride(null);
+  }, [opacity]);
+
+  useEffect(() => {
+    setBlendModeOverride(null);
+  }, [blendMode]);
+
+  useEffect(() => {
+    setEffectsOverride(null);
+  }, [effects]);
+
+  useEffect(() => {
+    setPaletteOverride(null);
+  }, [palette]);
+
+  const setModulate = useCallback((next: Color | null) => {
+    setModulateOverride({ value: next ?? null });
+  }, []);
+
+  const setOpacity = useCallback((next: number) => {
+    if (Number.isFinite(next)) {
+      setOpacityOverride(clampOpacity(next));
+    }
+  }, []);
+
+  const setBlendMode = useCallback((next: SpriteBlendMode | null) => {
+    setBlendModeOverride({ value: next ?? null });
+  }, []);
+
+  const setEffects = useCallback((next: SpriteEffect[] | null) => {
+    setEffectsOverride({ value: next ?? null });
+  }, []);
+
+  const setPalette = useCallback((next: string | null) => {
+    setPaletteOverride({ value: next ?? null });
+  }, []);
+
+  return {
+    modulate: modulateOverride ? modulateOverride.value : (modulate ?? null),
+    opacity: opacityOverride ?? clampOpacity(opacity),
+    blendMode: blendModeOverride ? blendModeOverride.value : (blendMode ?? null),
+    effects: effectsOverride ? effectsOverride.value : (effects ?? null),
+    palette: paletteOverride ? paletteOverride.value : (palette ?? null),
+    setModulate,
+    setOpacity,
+    setBlendMode,
+    setEffects,
+    setPalette,
+  };
+};
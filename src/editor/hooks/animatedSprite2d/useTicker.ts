@@ -1,7 +1,19 @@
 /* eslint-disable jsdoc/require-jsdoc */
 import { useCallback, useEffect, useRef, useState } from 'react';
-import type { SpriteFramesResource } from '../../animatedSprite2dTypes';
-import { computeFrameDuration } from './helpers';
+import type { PlaybackDirection } from '../../../spriteTypes';
+import type {
+  AnimatedSpriteAnimationEvent,
+  SpriteClockMode,
+  SpriteFramesResource,
+} from '../../animatedSprite2dTypes';
+import {
+  buildAnimationEventIndex,
+  computeFrameDuration,
+  resolveTimelinePlayback,
+  stepTimelineCursor,
+  type TimelineTimingState,
+} from './helpers';
+import { useSpriteClock } from '../../../SpriteClockProvider';
 
 export interface UseTickerOptions {
   frames: SpriteFramesResource;
@@ -10,14 +22,48 @@ export interface UseTickerOptions {
   playing: boolean;
   speedScale: number;
   forcedFrameIndex: number | null;
+  /** Direction the provided sequence was reversed for; used to map cursors back to the timeline. */
+  direction?: PlaybackDirection;
   onAnimationFinished?: (name: string | null) => void;
+  onAnimationEvent?: (event: AnimatedSpriteAnimationEvent) => void;
   onPlaybackHalted?: () => void;
+  /** Pops the next queued animation; consulted when an animation finishes or completes a loop. */
+  dequeueAnimation?: () => string | null;
+  /** Follows `animationsMeta[name].next` when a non-looping animation finishes. */
+  followNextAnimation?: boolean;
+  /** Called when the ticker switched animations by itself; the owner should adopt the name. */
+  onAnimationChained?: (name: string) => void;
+  /** Called after every tick that advanced time, including the one that finished playback. */
+  onProgress?: () => void;
+  /** `'manual'` only moves through `advance`; defaults to frame callbacks. */
+  clock?: SpriteClockMode;
+}
+
+export interface TickerTimingSnapshot extends TimelineTimingState {
+  /** Animation the ticker is on; may be ahead of the owner's state right after chaining. */
+  animationName: string | null;
+  /** Direction-adjusted sequence the cursor points into. */
+  sequence: number[];
 }
 
 export interface UseTickerResult {
   cursor: number;
+  /** Incremented whenever the cursor is moved externally (seek, stop, animation switch). */
+  cursorRevision: number;
   setCursor: (next: number) => void;
+  /**
+   * Stores a cursor reached by another playback driver, whose events that driver already fired,
+   * without counting as an external move. `timing` carries its travel direction and loops.
+   */
+  syncCursor: (next: number, timing?: Pick<TimelineTimingState, 'step' | 'iteration'>) => void;
   resetAccumulator: () => void;
+  /** True (once) when `name` is the animation the ticker just chained into. */
+  consumeChainedAnimation: (name: string | null) => boolean;
+  getTimingState: () => TickerTimingSnapshot;
+  /** Moves like `setCursor`, then resumes mid-slot with the given travel direction and loop count. */
+  restoreTimingState: (state: TimelineTimingState) => void;
+  /** Steps a `'manual'` clock by `deltaMs` while playing, exactly like a frame of that length. */
+  advance: (deltaMs: number) => void;
 }
 
 export const useTicker = ({
@@ -27,16 +73,39 @@ export const useTicker = ({
   playing,
   speedScale,
   forcedFrameIndex,
+  direction = 'forward',
   onAnimationFinished,
+  onAnimationEvent,
   onPlaybackHalted,
+  dequeueAnimation,
+  followNextAnimation = true,
+  onAnimationChained,
+  onProgress,
+  clock: clockMode = 'auto',
 }: UseTickerOptions): UseTickerResult => {
+  const sharedClock = useSpriteClock();
   const [cursor, setCursorState] = useState(0);
+  const [cursorRevision, setCursorRevision] = useState(0);
+  // Bumped when the cursor moves after playback halted so the loop starts again.
+  const [runToken, setRunToken] = useState(0);
+  const haltedRef = useRef(false);
+  // Last frame timestamp handed over when the loop restarts mid-playback (e.g. after chaining).
+  const carriedTimestampRef = useRef<number | null>(null);
   const cursorRef = useRef(0);
   const accumulatorRef = useRef(0);
   const rafRef = useRef<number | null>(null);
+  const manualAdvanceRef = useRef<((delta: number) => void) | null>(null);
   const playingRef = useRef(playing);
   const sequenceRef = useRef(sequence);
   const animationRef = useRef(animationName);
+  const onAnimationEventRef = useRef(onAnimationEvent);
+  // Cursor whose events were already dispatched; cleared whenever the cursor is moved externally.
+  const eventCursorRef = useRef<number | null>(null);
+  // Ping-pong travel direction and completed loops; reset whenever the cursor is moved externally.
+  const stepRef = useRef<1 | -1>(1);
+  const iterationRef = useRef(0);
+  // Animation the ticker chained into; the reset effects leave its cursor and leftover time alone.
+  const chainedAnimationRef = useRef<string | null | undefined>(undefined);
 
   useEffect(() => {
     playingRef.current = playing;
@@ -50,64 +119,198 @@ export const useTicker = ({
     animationRef.current = animationName;
   }, [animationName]);
 
-  const setCursor = useCallback((next: number) => {
+  useEffect(() => {
+    onAnimationEventRef.current = onAnimationEvent;
+  }, [onAnimationEvent]);
+
+  const commitCursor = useCallback((next: number) => {
     cursorRef.current = next;
     setCursorState(next);
   }, []);
 
+  const setCursor = useCallback(
+    (next: number) => {
+      eventCursorRef.current = null;
+      if (haltedRef.current) {
+        haltedRef.current = false;
+        setRunToken((token) => token + 1);
+      }
+      stepRef.current = 1;
+      iterationRef.current = 0;
+      setCursorRevision((revision) => revision + 1);
+      commitCursor(next);
+    },
+    [commitCursor],
+  );
+
   const resetAccumulator = useCallback(() => {
     accumulatorRef.current = 0;
   }, []);
 
+  const getTimingState = useCallback(
+    (): TickerTimingSnapshot => ({
+      animationName: animationRef.current,
+      sequence: sequenceRef.current,
+      cursor: cursorRef.current,
+      step: stepRef.current,
+      iteration: iterationRef.current,
+      accumulator: accumulatorRef.current,
+    }),
+    [],
+  );
+
+  const syncCursor = useCallback(
+    (next: number, timing?: Pick<TimelineTimingState, 'step' | 'iteration'>) => {
+      eventCursorRef.current = next;
+      if (timing) {
+        stepRef.current = timing.step;
+        iterationRef.current = timing.iteration;
+        accumulatorRef.current = 0;
+      }
+      commitCursor(next);
+    },
+    [commitCursor],
+  );
+
+  const restoreTimingState = useCallback(
+    (state: TimelineTimingState) => {
+      setCursor(state.cursor);
+      stepRef.current = state.step;
+      iterationRef.current = state.iteration;
+      accumulatorRef.current = state.accumulator;
+    },
+    [setCursor],
+  );
+
+  const advance = useCallback((deltaMs: number) => {
+    if (Number.isFinite(deltaMs) && deltaMs >= 0) {
+      manualAdvanceRef.current?.(deltaMs);
+    }
+  }, []);
+
+  const consumeChainedAnimation = useCallback((name: string | null) => {
+    if (chainedAnimationRef.current === undefined || chainedAnimationRef.current !== name) {
+      return false;
+    }
+    chainedAnimationRef.current = undefined;
+    return true;
+  }, []);
+
   useEffect(() => {
+    if (chainedAnimationRef.current === animationName) {
+      return;
+    }
     setCursor(0);
     resetAccumulator();
   }, [animationName, resetAccumulator, setCursor]);
 
   useEffect(() => {
+    if (chainedAnimationRef.current === animationName) {
+      return;
+    }
     const clamped = Math.max(0, Math.min(cursorRef.current, Math.max(0, sequence.length - 1)));
     if (clamped !== cursorRef.current) {
       setCursor(clamped);
     }
     resetAccumulator();
-  }, [resetAccumulator, sequence.length, setCursor]);
+  }, [animationName, resetAccumulator, sequence.length, setCursor]);
 
   useEffect(() => {
+    // sprites under a SpriteClockProvider share its frame callback, time scale and pause state
+    const requestFrame = sharedClock ? sharedClock.requestFrame : requestAnimationFrame;
+    const cancelFrame = sharedClock ? sharedClock.cancelFrame : cancelAnimationFrame;
     if (!playing || !sequence.length || typeof forcedFrameIndex === 'number') {
+      carriedTimestampRef.current = null;
       if (rafRef.current != null) {
-        cancelAnimationFrame(rafRef.current);
+        cancelFrame(rafRef.current);
         rafRef.current = null;
       }
       return () => undefined;
     }
 
+    haltedRef.current = false;
     let cancelled = false;
-    let lastTs: number | null = null;
+    let lastTs: number | null = carriedTimestampRef.current;
+    carriedTimestampRef.current = null;
+    let eventIndexAnimation: string | null | undefined;
+    let eventIndex = new Map<number, string[]>();
 
-    const tick = (timestamp: number) => {
-      if (cancelled || !playingRef.current) {
+    const dispatchEvents = (cursor: number) => {
+      eventCursorRef.current = cursor;
+      const handler = onAnimationEventRef.current;
+      const seq = sequenceRef.current;
+      if (!handler || !seq.length) {
         return;
       }
-      if (lastTs == null) {
-        lastTs = timestamp;
-        rafRef.current = requestAnimationFrame(tick);
+      if (eventIndexAnimation !== animationRef.current) {
+        eventIndexAnimation = animationRef.current;
+        eventIndex = buildAnimationEventIndex(frames, eventIndexAnimation ?? null);
+      }
+      if (!eventIndex.size) {
         return;
       }
-      const delta = timestamp - lastTs;
-      lastTs = timestamp;
+      const clampedCursor = Math.min(cursor, seq.length - 1);
+      const timelineIndex =
+        direction === 'reverse' ? seq.length - 1 - clampedCursor : clampedCursor;
+      const names = eventIndex.get(timelineIndex);
+      if (!names) {
+        return;
+      }
+      const frameIndex = seq[clampedCursor] ?? 0;
+      const activeAnimation = animationRef.current ?? null;
+      names.forEach((name) => {
+        handler({ animationName: activeAnimation, name, frameIndex, timelineIndex });
+      });
+    };
+
+    const resolvePlayback = (name: string | null, length: number) => {
+      const next = frames.animationsMeta?.[name ?? '']?.next;
+      return {
+        ...resolveTimelinePlayback(frames, name, length, direction),
+        next: followNextAnimation && typeof next === 'string' ? next : null,
+      };
+    };
+
+    // Runs the timeline forward by `delta` ms; false once playback halted.
+    const advanceBy = (delta: number) => {
+      if (eventCursorRef.current !== cursorRef.current) {
+        dispatchEvents(cursorRef.current);
+      }
       accumulatorRef.current += delta;
       let localCursor = cursorRef.current;
       let updated = false;
-      const seq = sequenceRef.current;
-      const activeAnimation = animationRef.current ?? null;
-      const loop = frames.animationsMeta?.[activeAnimation ?? '']?.loop ?? true;
+      let seq = sequenceRef.current;
+      let activeAnimation = animationRef.current ?? null;
+      let playback = resolvePlayback(activeAnimation, seq.length);
+
+      // Switches to the next animation inside this tick so the leftover time carries over.
+      const chainTo = (name: string | null) => {
+        if (!name || !frames.animations?.[name]?.length) {
+          return false;
+        }
+        const nextSequence = frames.animations[name]!;
+        seq = direction === 'reverse' ? [...nextSequence].reverse() : nextSequence;
+        sequenceRef.current = seq;
+        animationRef.current = name;
+        chainedAnimationRef.current = name;
+        activeAnimation = name;
+        playback = resolvePlayback(name, seq.length);
+        localCursor = 0;
+        stepRef.current = 1;
+        iterationRef.current = 0;
+        updated = true;
+        onAnimationChained?.(name);
+        dispatchEvents(localCursor);
+        return true;
+      };
 
       while (seq.length) {
         const frameIndex = seq[Math.min(localCursor, seq.length - 1)] ?? 0;
+        const timelineIndex = direction === 'reverse' ? seq.length - 1 - localCursor : localCursor;
         const duration = computeFrameDuration(
           frames.frames[frameIndex],
           activeAnimation,
-          localCursor,
+          timelineIndex,
           frames,
           speedScale,
         );
@@ -115,49 +318,113 @@ export const useTicker = ({
           break;
         }
         accumulatorRef.current -= duration;
-        let nextCursor = localCursor + 1;
-        if (nextCursor >= seq.length) {
-          if (loop) {
-            nextCursor = 0;
-          } else {
-            nextCursor = seq.length - 1;
-            accumulatorRef.current = 0;
-            setCursor(nextCursor);
-            onPlaybackHalted?.();
-            onAnimationFinished?.(activeAnimation);
-            cancelled = true;
-            return;
+        const previousIteration = iterationRef.current;
+        const next = stepTimelineCursor(
+          { cursor: localCursor, step: stepRef.current, iteration: previousIteration },
+          seq.length,
+          playback.mode,
+          playback.loopCount,
+          playback.loopRange,
+        );
+        stepRef.current = next.step;
+        iterationRef.current = next.iteration;
+        if (next.finished) {
+          onAnimationFinished?.(activeAnimation);
+          if (chainTo(dequeueAnimation?.() ?? playback.next)) {
+            continue;
           }
+          accumulatorRef.current = 0;
+          commitCursor(next.cursor);
+          haltedRef.current = true;
+          onPlaybackHalted?.();
+          onProgress?.();
+          cancelled = true;
+          return false;
+        }
+        // queued animations take over at the end of a loop pass
+        if (next.iteration !== previousIteration && chainTo(dequeueAnimation?.() ?? null)) {
+          continue;
         }
-        localCursor = nextCursor;
+        localCursor = next.cursor;
         updated = true;
+        dispatchEvents(localCursor);
       }
 
       if (updated) {
-        setCursor(localCursor);
+        commitCursor(localCursor);
       }
+      onProgress?.();
+      return true;
+    };
+
+    if (clockMode === 'manual') {
+      manualAdvanceRef.current = (delta) => {
+        if (!cancelled && playingRef.current) {
+          advanceBy(delta);
+        }
+      };
+      return () => {
+        cancelled = true;
+        manualAdvanceRef.current = null;
+      };
+    }
 
-      rafRef.current = requestAnimationFrame(tick);
+    const tick = (timestamp: number) => {
+      if (cancelled || !playingRef.current) {
+        return;
+      }
+      if (lastTs == null) {
+        if (eventCursorRef.current !== cursorRef.current) {
+          dispatchEvents(cursorRef.current);
+        }
+        lastTs = timestamp;
+        rafRef.current = requestFrame(tick);
+        return;
+      }
+      const delta = timestamp - lastTs;
+      lastTs = timestamp;
+      if (advanceBy(delta)) {
+        rafRef.current = requestFrame(tick);
+      }
     };
 
-    rafRef.current = requestAnimationFrame(tick);
+    rafRef.current = requestFrame(tick);
     return () => {
+      carriedTimestampRef.current = cancelled ? null : lastTs;
       cancelled = true;
       if (rafRef.current != null) {
-        cancelAnimationFrame(rafRef.current);
+        cancelFrame(rafRef.current);
         rafRef.current = null;
       }
     };
   }, [
+    clockMode,
+    commitCursor,
+    dequeueAnimation,
+    direction,
+    followNextAnimation,
     forcedFrameIndex,
     frames,
+    onAnimationChained,
     onAnimationFinished,
     onPlaybackHalted,
+    onProgress,
     playing,
+    runToken,
     sequence,
-    setCursor,
+    sharedClock,
     speedScale,
   ]);
 
-  return { cursor, setCursor, resetAccumulator };
+  return {
+    cursor,
+    cursorRevision,
+    setCursor,
+    syncCursor,
+    resetAccumulator,
+    consumeChainedAnimation,
+    getTimingState,
+    restoreTimingState,
+    advance,
+  };
 };
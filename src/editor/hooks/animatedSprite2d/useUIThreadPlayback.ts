@@ -0,0 +1,274 @@
+/* eslint-disable jsdoc/require-jsdoc */
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { Skia, type SkImage, type SkRect } from '@shopify/react-native-skia';
+import { PixelRatio } from 'react-native';
+import type { PlaybackDirection } from '../../../spriteTypes';
+import type { SpriteFramesResource } from '../../animatedSprite2dTypes';
+import type { AnimatedSprite2DViewLayout } from '../../../AnimatedSprite2DView';
+import {
+  MAX_SPEED_SCALE,
+  MIN_SPEED_SCALE,
+  clamp,
+  computeDrawOrigin,
+  computeFrameDuration,
+  computeFrameLayout,
+  resolveTimelinePlayback,
+  stepTimelineCursor,
+  type FrameRect,
+  type TimelinePlayback,
+} from './helpers';
+import { getReanimated } from '../../utils/reanimated';
+
+export interface UseUIThreadPlaybackOptions {
+  frames: SpriteFramesResource;
+  /** Timeline-ordered sequence; reversed here for `direction: 'reverse'`. */
+  sequence: number[];
+  animationName: string | null;
+  direction: PlaybackDirection;
+  playing: boolean;
+  speedScale: number;
+  /** Cursor into the direction-adjusted sequence that playback restarts from. */
+  cursor: number;
+  /** Restarts playback from `cursor` whenever it changes. */
+  cursorRevision: number;
+  frameImage: SkImage | null;
+  /** Size of the untransformed sprite box frames are laid out in. */
+  canvasSize: { width: number; height: number };
+  /** Where that box sits in the canvas when rotation or skew grew the canvas. */
+  contentOffset?: { x: number; y: number } | null;
+  centered: boolean;
+  scale: number;
+  offset?: { x: number; y: number } | null;
+  /** Snaps every frame's draw origin to whole device pixels (`pixelPerfect`). */
+  pixelSnap?: boolean;
+  /** Runs on the JS thread after the UI thread entered a new cursor. */
+  onCursor: (cursor: number, step: 1 | -1, iteration: number) => void;
+  /** Runs on the JS thread once a non-repeating animation reached its end. */
+  onFinished: (cursor: number) => void;
+  /** Receives the cursor the UI thread stopped on when `playing` turns false. */
+  onPaused: (cursor: number) => void;
+}
+
+interface UITimeline extends TimelinePlayback {
+  /** Per-cursor durations at speed 1, in milliseconds. */
+  durations: number[];
+  layouts: { clip: FrameRect; image: FrameRect }[];
+}
+
+interface UIPlayhead {
+  cursor: number;
+  step: 1 | -1;
+  iteration: number;
+  accumulator: number;
+  halted: boolean;
+}
+
+const EMPTY_RECT: FrameRect = { x: 0, y: 0, width: 0, height: 0 };
+
+/**
+ * Advances the timeline inside a Reanimated frame callback and exposes the frame layout as
+ * shared values, so the canvas updates without a React render per frame. Timing follows
+ * `computeFrameDuration` and `stepTimelineCursor`, matching the JS ticker.
+ */
+export const useUIThreadPlayback = ({
+  frames,
+  sequence,
+  animationName,
+  direction,
+  playing,
+  speedScale,
+  cursor,
+  cursorRevision,
+  frameImage,
+  canvasSize,
+  contentOffset,
+  centered,
+  scale,
+  offset,
+  pixelSnap = false,
+  onCursor,
+  onFinished,
+  onPaused,
+}: UseUIThreadPlaybackOptions): AnimatedSprite2DViewLayout => {
+  const { useSharedValue, useDerivedValue, useFrameCallback, runOnJS } = getReanimated();
+
+  const timeline = useMemo<UITimeline>(() => {
+    const effectiveSequence = direction === 'reverse' ? [...sequence].reverse() : sequence;
+    const length = effectiveSequence.length;
+    return {
+      ...resolveTimelinePlayback(frames, animationName, length, direction),
+      durations: effectiveSequence.map((frameIndex, index) =>
+        computeFrameDuration(
+          frames.frames[frameIndex],
+          animationName,
+          direction === 'reverse' ? length - 1 - index : index,
+          frames,
+          1,
+        ),
+      ),
+      layouts: effectiveSequence.map((frameIndex) => {
+        const frame = frames.frames[frameIndex];
+        if (!frame) {
+          return { clip: EMPTY_RECT, image: EMPTY_RECT };
+        }
+        const origin = computeDrawOrigin(frame, canvasSize, centered, scale, offset);
+        const snap = pixelSnap ? PixelRatio.roundToNearestPixel : (value: number) => value;
+        return computeFrameLayout(
+          frame,
+          frameImage ?? {},
+          {
+            x: snap(origin.x + (contentOffset?.x ?? 0)),
+            y: snap(origin.y + (contentOffset?.y ?? 0)),
+          },
+          scale,
+        );
+      }),
+    };
+  }, [
+    animationName,
+    canvasSize,
+    centered,
+    contentOffset,
+    direction,
+    frameImage,
+    frames,
+    offset,
+    pixelSnap,
+    scale,
+    sequence,
+  ]);
+
+  const timelineValue = useSharedValue(timeline);
+  const speedValue = useSharedValue(clamp(speedScale, MIN_SPEED_SCALE, MAX_SPEED_SCALE));
+  const playhead = useSharedValue<UIPlayhead>({
+    cursor,
+    step: 1,
+    iteration: 0,
+    accumulator: 0,
+    halted: false,
+  });
+
+  useEffect(() => {
+    timelineValue.value = timeline;
+  }, [timeline, timelineValue]);
+
+  useEffect(() => {
+    speedValue.value = clamp(speedScale, MIN_SPEED_SCALE, MAX_SPEED_SCALE);
+  }, [speedScale, speedValue]);
+
+  const onCursorRef = useRef(onCursor);
+  const onFinishedRef = useRef(onFinished);
+  const onPausedRef = useRef(onPaused);
+  useEffect(() => {
+    onCursorRef.current = onCursor;
+    onFinishedRef.current = onFinished;
+    onPausedRef.current = onPaused;
+  }, [onCursor, onFinished, onPaused]);
+
+  // Stable JS-thread trampolines so the frame callback is registered only once.
+  const handleCursor = useCallback(
+    (next: number, step: 1 | -1, iteration: number) => onCursorRef.current(next, step, iteration),
+    [],
+  );
+  const handleFinished = useCallback((next: number) => onFinishedRef.current(next), []);
+
+  const frameCallback = useFrameCallback(
+    useCallback(
+      (frameInfo: { timeSincePreviousFrame: number | null }) => {
+        'worklet';
+        const state = playhead.value;
+        const data = timelineValue.value;
+        const length = data.durations.length;
+        if (state.halted || !length) {
+          return;
+        }
+        let localCursor = Math.min(state.cursor, length - 1);
+        let { step, iteration } = state;
+        let accumulator = state.accumulator + (frameInfo.timeSincePreviousFrame ?? 0);
+        for (;;) {
+          const duration = (data.durations[localCursor] ?? 0) / speedValue.value;
+          if (accumulator < duration) {
+            break;
+          }
+          accumulator -= duration;
+          const next = stepTimelineCursor(
+            { cursor: localCursor, step, iteration },
+            length,
+            data.mode,
+            data.loopCount,
+            data.loopRange,
+          );
+          step = next.step;
+          iteration = next.iteration;
+          localCursor = next.cursor;
+          if (next.finished) {
+            playhead.value = { cursor: localCursor, step, iteration, accumulator: 0, halted: true };
+            runOnJS(handleFinished)(localCursor);
+            return;
+          }
+          runOnJS(handleCursor)(localCursor, step, iteration);
+        }
+        playhead.value = { cursor: localCursor, step, iteration, accumulator, halted: false };
+      },
+      [handleCursor, handleFinished, playhead, runOnJS, speedValue, timelineValue],
+    ),
+    false,
+  );
+
+  // Start events for the seeded cursor fire once playback actually runs from it.
+  const pendingStartRef = useRef(true);
+  const wasPlayingRef = useRef(false);
+
+  // cursor is read only when the JS side moved playback, which bumps the revision
+  const cursorRef = useRef(cursor);
+  useEffect(() => {
+    cursorRef.current = cursor;
+  }, [cursor]);
+
+  useEffect(() => {
+    playhead.value = {
+      cursor: cursorRef.current,
+      step: 1,
+      iteration: 0,
+      accumulator: 0,
+      halted: false,
+    };
+    pendingStartRef.current = true;
+  }, [cursorRevision, playhead]);
+
+  useEffect(() => {
+    if (playing && pendingStartRef.current) {
+      pendingStartRef.current = false;
+      handleCursor(playhead.value.cursor, playhead.value.step, playhead.value.iteration);
+    }
+    if (wasPlayingRef.current && !playing && !playhead.value.halted) {
+      onPausedRef.current(playhead.value.cursor);
+    }
+    wasPlayingRef.current = playing;
+    frameCallback.setActive(playing);
+  }, [cursorRevision, frameCallback, handleCursor, playhead, playing]);
+
+  useEffect(() => () => frameCallback.setActive(false), [frameCallback]);
+
+  const layoutAt = (index: number) => {
+    'worklet';
+    const layouts = timelineValue.value.layouts;
+    return (
+      layouts[Math.max(0, Math.min(index, layouts.length - 1))] ?? {
+        clip: EMPTY_RECT,
+        image: EMPTY_RECT,
+      }
+    );
+  };
+
+  const clip = useDerivedValue<SkRect>(() => {
+    const rect = layoutAt(playhead.value.cursor).clip;
+    return Skia.XYWHRect(rect.x, rect.y, rect.width, rect.height);
+  });
+  const x = useDerivedValue(() => layoutAt(playhead.value.cursor).image.x);
+  const y = useDerivedValue(() => layoutAt(playhead.value.cursor).image.y);
+  const width = useDerivedValue(() => layoutAt(playhead.value.cursor).image.width);
+  const height = useDerivedValue(() => layoutAt(playhead.value.cursor).image.height);
+
+  return { clip, x, y, width, height };
+};
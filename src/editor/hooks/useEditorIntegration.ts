@@ -97,6 +97,8 @@ export const useEditorIntegration = ({ editor }: UseEditorIntegrationOptions) =>
       setTickerPlaying(false);
     },
     direction: playDirection,
+    // the studio previews one animation at a time
+    followNextAnimation: false,
   });
 
   const timelineCursor = sequence.length ? tickerTimelineCursor : null;
@@ -1,5 +1,10 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import type { SpriteAnimations, SpriteAnimationsMeta, SpriteData } from '../../spriteTypes';
+import type {
+  SpriteAnimations,
+  SpriteAnimationsMeta,
+  SpriteData,
+  SpriteStateMachineDefinition,
+} from '../../spriteTypes';
 import { DefaultSpriteTemplate } from '../templates/DefaultSpriteTemplate';
 import type {
   SpriteEditorFrame,
@@ -12,6 +17,7 @@ import {
   cloneAnimations,
   cloneAnimationsMeta,
   cloneFrames,
+  cloneStateMachine,
   createFrameId,
   snapshotFromState,
 } from '../utils/state';
@@ -116,6 +122,8 @@ export interface SpriteEditorApi {
   setAnimationsMeta: (meta?: SpriteAnimationsMeta) => void;
   /** Sets the animation that should auto-play when exported. */
   setAutoPlayAnimation: (name: string | null) => void;
+  /** Replaces (or clears) the animation state machine definition. */
+  setStateMachine: (definition?: SpriteStateMachineDefinition | null) => void;
   /** Partially updates sprite metadata. */
   updateMeta: (meta: Partial<SpriteEditorMeta>) => void;
   /** Resets the editor with a partial state. */
@@ -157,6 +165,7 @@ const createInitialState = (input?: Partial<SpriteEditorState>): SpriteEditorSta
     history: [],
     future: [],
     autoPlayAnimation: input?.autoPlayAnimation ?? null,
+    stateMachine: cloneStateMachine(input?.stateMachine),
     meta: { ...(input?.meta ?? {}) },
   };
 };
@@ -272,6 +281,7 @@ const applySnapshot = (
   animations: cloneAnimations(snapshot.animations),
   animationsMeta: cloneAnimationsMeta(snapshot.animationsMeta),
   selected: [...snapshot.selected],
+  stateMachine: cloneStateMachine(snapshot.stateMachine),
   meta: { ...snapshot.meta },
 });
 
@@ -645,6 +655,7 @@ export const useSpriteEditor = (options: UseSpriteEditorOptions = {}): SpriteEdi
           selected,
           clipboard: [],
           autoPlayAnimation: snapshot.autoPlayAnimation ?? null,
+          stateMachine: cloneStateMachine(snapshot.stateMachine),
           meta: { ...(snapshot.meta ?? {}) },
         };
       });
@@ -695,6 +706,17 @@ export const useSpriteEditor = (options: UseSpriteEditorOptions = {}): SpriteEdi
     [apply],
   );
 
+  /** Replaces the state machine definition previewed by Animation Studio. */
+  const setStateMachine = useCallback<SpriteEditorApi['setStateMachine']>(
+    (definition) => {
+      apply((prev) => ({
+        ...prev,
+        stateMachine: cloneStateMachine(definition ?? undefined),
+      }));
+    },
+    [apply],
+  );
+
   /** Merges the provided metadata into the existing object. */
   const updateMeta = useCallback<SpriteEditorApi['updateMeta']>(
     (meta) => {
@@ -745,6 +767,7 @@ export const useSpriteEditor = (options: UseSpriteEditorOptions = {}): SpriteEdi
       setAnimations,
       setAnimationsMeta,
       setAutoPlayAnimation,
+      setStateMachine,
       updateMeta,
       reset,
     }),
@@ -769,6 +792,7 @@ export const useSpriteEditor = (options: UseSpriteEditorOptions = {}): SpriteEdi
       setAnimations,
       setAnimationsMeta,
       setAutoPlayAnimation,
+      setStateMachine,
       updateMeta,
       reset,
     ],
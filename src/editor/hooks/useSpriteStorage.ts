@@ -5,6 +5,7 @@ import type {
   SpriteAnimationsMeta,
   SpriteData,
   SpriteFrame,
+  SpriteStateMachineDefinition,
 } from '../../spriteTypes';
 import {
   deleteSprite as defaultDeleteSprite,
@@ -88,6 +89,7 @@ const toSpriteData = (stored: StoredSprite): SpriteData => ({
   frames: stored.frames as SpriteFrame[],
   animations: stored.animations as SpriteAnimations | undefined,
   animationsMeta: stored.animationsMeta as SpriteAnimationsMeta | undefined,
+  stateMachine: stored.stateMachine as SpriteStateMachineDefinition | undefined,
   meta: stored.meta,
 });
 
@@ -268,6 +270,7 @@ export const useSpriteStorage = ({
             frames: stored.frames as SpriteFrame[],
             animations: stored.animations as SpriteAnimations | undefined,
             animationsMeta: stored.animationsMeta as SpriteAnimationsMeta | undefined,
+            stateMachine: stored.stateMachine as SpriteStateMachineDefinition | undefined,
             meta: {
               ...stored.meta,
               displayName: trimmed,
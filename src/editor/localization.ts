@@ -61,10 +61,14 @@ export type EditorStrings = {
     openStorageManager: string;
     editMetadata: string;
     openSpriteJsonTools: string;
+    previewStateMachine: string;
+    editPalettes: string;
     addAnimation: string;
     deleteAnimation: string;
     disableLoop: string;
     enableLoop: string;
+    enablePingPong: string;
+    loopCountLabel: string;
     disableAutoplay: string;
     enableAutoplay: string;
     renameMissing: string;
@@ -75,6 +79,8 @@ export type EditorStrings = {
     deleteAnimationMessage: string;
     templateExported: string;
     templateImported: string;
+    asepriteImported: string;
+    asepriteFileFailed: string;
     clearActiveSprite: string;
   };
   metadataModal: {
@@ -89,6 +95,33 @@ export type EditorStrings = {
     valuePlaceholder: string;
     helpText: string;
   };
+  stateMachineModal: {
+    title: string;
+    statesHeading: string;
+    parametersHeading: string;
+    transitionsHeading: string;
+    currentState: string;
+    enterState: string;
+    noParameters: string;
+    noTransitions: string;
+    waitForFinish: string;
+    anyState: string;
+  };
+  paletteModal: {
+    title: string;
+    extract: string;
+    extracting: string;
+    extractFailed: string;
+    sourceHeading: string;
+    variantsHeading: string;
+    noPalette: string;
+    variantPlaceholder: string;
+    addVariant: string;
+    removeVariant: string;
+    variantExists: string;
+    originalColors: string;
+    colorLabel: string;
+  };
   templateModal: {
     title: string;
     description: string;
@@ -99,6 +132,20 @@ export type EditorStrings = {
     downloadedMessage: string;
     downloadFailedMessage: string;
     shareDialogTitle: string;
+    exportGifButton: string;
+    gifScaleLabel: string;
+    gifTransparentLabel: string;
+    gifExportedMessage: string;
+    gifExportFailedMessage: string;
+    gifShareDialogTitle: string;
+    exportPngSequenceButton: string;
+    exportContactSheetButton: string;
+    pngSequenceExportedMessage: string;
+    contactSheetExportedMessage: string;
+    contactSheetShareDialogTitle: string;
+    imageExportFailedMessage: string;
+    packAtlasButton: string;
+    atlasPackedMessage: string;
   };
   storagePanel: {
     title: string;
@@ -122,6 +169,11 @@ export type EditorStrings = {
   };
   timeline: {
     multiplierLabel: string;
+    eventsLabel: string;
+    eventsPlaceholder: string;
+    loopStartMarker: string;
+    setLoopStart: string;
+    clearLoopStart: string;
     thumbPlaceholder: string;
     pausePreview: string;
     stopPreview: string;
@@ -257,10 +309,14 @@ const translations: Record<SupportedLanguage, EditorStrings> = {
       openStorageManager: 'Open storage manager',
       editMetadata: 'Edit metadata',
       openSpriteJsonTools: 'Open sprite JSON tools',
+      previewStateMachine: 'Preview state machine',
+      editPalettes: 'Edit palettes',
       addAnimation: 'Add animation',
       deleteAnimation: 'Delete animation',
       disableLoop: 'Disable loop for animation',
       enableLoop: 'Enable loop for animation',
+      enablePingPong: 'Switch animation to ping-pong playback',
+      loopCountLabel: 'Loops',
       disableAutoplay: 'Disable autoplay for this animation',
       enableAutoplay: 'Enable autoplay for this animation',
       renameMissing: 'Please enter a name',
@@ -271,6 +327,8 @@ const translations: Record<SupportedLanguage, EditorStrings> = {
       deleteAnimationMessage: 'Are you sure you want to remove this animation?',
       templateExported: 'Exported spriteStorage-compatible JSON.',
       templateImported: 'Import succeeded and editor history was reset.',
+      asepriteImported: 'Imported {count} animations from Aseprite and reset editor history.',
+      asepriteFileFailed: 'Unable to build a sprite sheet from the Aseprite file.',
       clearActiveSprite: 'Close current sprite',
     },
     metadataModal: {
@@ -285,16 +343,57 @@ const translations: Record<SupportedLanguage, EditorStrings> = {
       valuePlaceholder: 'value',
       helpText: 'Saved metadata is included when exporting JSON or saving via Sprite Storage.',
     },
+    stateMachineModal: {
+      title: 'State Machine',
+      statesHeading: 'States',
+      parametersHeading: 'Parameters',
+      transitionsHeading: 'Transitions',
+      currentState: 'Current state: {name}',
+      enterState: 'Enter state {name}',
+      noParameters: 'This state machine has no parameters.',
+      noTransitions: 'No transitions defined.',
+      waitForFinish: 'after finish',
+      anyState: 'Any state',
+    },
+    paletteModal: {
+      title: 'Palettes',
+      extract: 'Extract from sheet',
+      extracting: 'Extracting…',
+      extractFailed: 'Unable to read colors from the sprite sheet.',
+      sourceHeading: 'Source palette',
+      variantsHeading: 'Variants',
+      noPalette: 'Extract the source palette to start defining variants.',
+      variantPlaceholder: 'Variant name',
+      addVariant: 'Add variant',
+      removeVariant: 'Remove variant {name}',
+      variantExists: 'A variant with the same name already exists',
+      originalColors: 'Original',
+      colorLabel: 'Replacement for {color}',
+    },
     templateModal: {
       title: 'Sprite JSON',
       description: 'Uses the same format consumed by the preview runtime and storage helpers.',
       exportButton: 'Export',
       importButton: 'Import',
       exportPlaceholder: 'Press Export to view the current payload',
-      importPlaceholder: 'Paste JSON here and press Import',
+      importPlaceholder: 'Paste sprite or Aseprite JSON here and press Import',
       downloadedMessage: 'Sprite JSON exported. Share or save when the picker appears.',
       downloadFailedMessage: 'Could not generate the sprite JSON file.',
       shareDialogTitle: 'Share exported sprite JSON',
+      exportGifButton: 'Export GIF',
+      gifScaleLabel: '{scale}×',
+      gifTransparentLabel: 'Transparent',
+      gifExportedMessage: 'GIF of "{name}" exported. Share or save when the picker appears.',
+      gifExportFailedMessage: 'Could not render a GIF of the current animation.',
+      gifShareDialogTitle: 'Share animated GIF',
+      exportPngSequenceButton: 'PNG frames',
+      exportContactSheetButton: 'Contact sheet',
+      pngSequenceExportedMessage: 'Saved {count} PNG frames to {directory}',
+      contactSheetExportedMessage: 'Contact sheet saved. Share or save when the picker appears.',
+      contactSheetShareDialogTitle: 'Share contact sheet',
+      imageExportFailedMessage: 'Could not render images of the sprite.',
+      packAtlasButton: 'Pack atlas',
+      atlasPackedMessage: 'Frames packed into {count} atlas sheet(s).',
     },
     storagePanel: {
       title: 'Sprite Storage',
@@ -318,6 +417,11 @@ const translations: Record<SupportedLanguage, EditorStrings> = {
     },
     timeline: {
       multiplierLabel: 'Multiplier',
+      eventsLabel: 'Events',
+      eventsPlaceholder: 'footstep, hit',
+      loopStartMarker: 'Loop start',
+      setLoopStart: 'Loop from selected frame',
+      clearLoopStart: 'Loop from the first frame',
       thumbPlaceholder: 'No Image',
       pausePreview: 'Pause animation preview',
       stopPreview: 'Stop animation preview',
@@ -465,10 +569,14 @@ const translations: Record<SupportedLanguage, EditorStrings> = {
       openStorageManager: 'ストレージを開く',
       editMetadata: 'メタデータを編集',
       openSpriteJsonTools: 'Sprite JSON ツールを開く',
+      previewStateMachine: 'ステートマシンをプレビュー',
+      editPalettes: 'パレットを編集',
       addAnimation: 'アニメーションを追加',
       deleteAnimation: 'アニメーションを削除',
       disableLoop: 'このアニメーションのループを無効化',
       enableLoop: 'このアニメーションのループを有効化',
+      enablePingPong: 'このアニメーションをピンポン再生に切り替え',
+      loopCountLabel: 'ループ回数',
       disableAutoplay: 'このアニメーションの自動再生を無効化',
       enableAutoplay: 'このアニメーションの自動再生を有効化',
       renameMissing: '名前を入力してください',
@@ -479,6 +587,9 @@ const translations: Record<SupportedLanguage, EditorStrings> = {
       deleteAnimationMessage: 'このアニメーションを削除してもよろしいですか？',
       templateExported: 'スプライトストレージ互換の JSON をエクスポートしました。',
       templateImported: 'インポートが完了し、エディタ履歴をリセットしました。',
+      asepriteImported:
+        'Aseprite から {count} 件のアニメーションを読み込み、エディタ履歴をリセットしました。',
+      asepriteFileFailed: 'Aseprite ファイルからスプライトシートを作成できませんでした。',
       clearActiveSprite: '現在のスプライトを閉じる',
     },
     metadataModal: {
@@ -494,16 +605,59 @@ const translations: Record<SupportedLanguage, EditorStrings> = {
       helpText:
         '保存されたメタデータはJSONのエクスポートやスプライトストレージでの保存時に含まれます。',
     },
+    stateMachineModal: {
+      title: 'ステートマシン',
+      statesHeading: 'ステート',
+      parametersHeading: 'パラメーター',
+      transitionsHeading: '遷移',
+      currentState: '現在のステート: {name}',
+      enterState: 'ステート {name} に切り替え',
+      noParameters: 'このステートマシンにはパラメーターがありません。',
+      noTransitions: '遷移が定義されていません。',
+      waitForFinish: '再生終了後',
+      anyState: '任意のステート',
+    },
+    paletteModal: {
+      title: 'パレット',
+      extract: 'シートから抽出',
+      extracting: '抽出中…',
+      extractFailed: 'スプライトシートから色を読み取れませんでした。',
+      sourceHeading: '元のパレット',
+      variantsHeading: 'バリエーション',
+      noPalette: '元のパレットを抽出するとバリエーションを定義できます。',
+      variantPlaceholder: 'バリエーション名',
+      addVariant: 'バリエーションを追加',
+      removeVariant: 'バリエーション {name} を削除',
+      variantExists: '同じ名前のバリエーションが既に存在します',
+      originalColors: 'オリジナル',
+      colorLabel: '{color} の置き換え色',
+    },
     templateModal: {
       title: 'スプライトJSON',
       description: 'プレビューランタイムやストレージ機能と同じフォーマットで書き出します。',
       exportButton: 'エクスポート',
       importButton: 'インポート',
       exportPlaceholder: '「エクスポート」を押すと現在の内容が表示されます',
-      importPlaceholder: 'JSONを貼り付けて「インポート」を押してください',
+      importPlaceholder:
+        'スプライトまたは Aseprite の JSON を貼り付けて「インポート」を押してください',
       downloadedMessage: 'スプライトJSONを書き出しました。共有メニューから保存してください。',
       downloadFailedMessage: 'スプライトJSONファイルを作成できませんでした。',
       shareDialogTitle: 'スプライトJSONを共有',
+      exportGifButton: 'GIF を書き出す',
+      gifScaleLabel: '{scale}倍',
+      gifTransparentLabel: '透過',
+      gifExportedMessage: '「{name}」の GIF を書き出しました。共有メニューから保存してください。',
+      gifExportFailedMessage: '現在のアニメーションの GIF を作成できませんでした。',
+      gifShareDialogTitle: 'GIF アニメーションを共有',
+      exportPngSequenceButton: 'PNG 連番',
+      exportContactSheetButton: 'コンタクトシート',
+      pngSequenceExportedMessage: '{count} 枚の PNG を {directory} に保存しました。',
+      contactSheetExportedMessage:
+        'コンタクトシートを保存しました。共有メニューから保存してください。',
+      contactSheetShareDialogTitle: 'コンタクトシートを共有',
+      imageExportFailedMessage: 'スプライトの画像を作成できませんでした。',
+      packAtlasButton: 'アトラスにまとめる',
+      atlasPackedMessage: 'フレームを {count} 枚のアトラスにまとめました。',
     },
     storagePanel: {
       title: 'スプライトストレージ',
@@ -527,6 +681,11 @@ const translations: Record<SupportedLanguage, EditorStrings> = {
     },
     timeline: {
       multiplierLabel: '倍率',
+      eventsLabel: 'イベント',
+      eventsPlaceholder: 'footstep, hit',
+      loopStartMarker: 'ループ開始',
+      setLoopStart: '選択中のフレームからループ',
+      clearLoopStart: '先頭フレームからループ',
       thumbPlaceholder: '画像なし',
       pausePreview: 'アニメーションプレビューを一時停止',
       stopPreview: 'アニメーションプレビューを停止',
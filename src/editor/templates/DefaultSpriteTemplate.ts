@@ -1,6 +1,7 @@
 import type { SpriteData } from '../../spriteTypes';
 import type { SpriteEditorSnapshot } from '../types';
 import { cloneSnapshot, createFrameId } from '../utils/state';
+import { normalizeSpriteStateMachine } from '../utils/spriteStateMachine';
 
 const stripFrameIds = (frames: SpriteEditorSnapshot['frames']): SpriteData['frames'] => {
   return frames.map(({ id: _id, duration: _duration, ...rest }) => ({ ...rest }));
@@ -27,6 +28,7 @@ export const DefaultSpriteTemplate = {
       animations: snapshot.animations,
       animationsMeta: snapshot.animationsMeta,
       autoPlayAnimation: snapshot.autoPlayAnimation ?? undefined,
+      stateMachine: snapshot.stateMachine,
       meta: snapshot.meta,
     };
   },
@@ -39,6 +41,7 @@ export const DefaultSpriteTemplate = {
       animations: data.animations ?? {},
       animationsMeta: data.animationsMeta,
       autoPlayAnimation: typeof data.autoPlayAnimation === 'string' ? data.autoPlayAnimation : null,
+      stateMachine: normalizeSpriteStateMachine(data.stateMachine) ?? undefined,
       selected: [],
       meta: data.meta ?? {},
     };
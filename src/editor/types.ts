@@ -2,6 +2,7 @@ import type {
   SpriteAnimations,
   SpriteAnimationsMeta,
   SpriteFrame as RenderSpriteFrame,
+  SpriteStateMachineDefinition,
 } from '../spriteTypes';
 
 /**
@@ -38,6 +39,8 @@ export interface SpriteEditorSnapshot {
   animationsMeta?: SpriteAnimationsMeta;
   /** Animation selected for autoplay when exported. */
   autoPlayAnimation?: string | null;
+  /** Optional state machine definition previewed in Animation Studio. */
+  stateMachine?: SpriteStateMachineDefinition;
   /** Frame ids currently selected inside the editor UI. */
   selected: SpriteEditorSelection;
   /** Arbitrary metadata persisted alongside the sprite. */
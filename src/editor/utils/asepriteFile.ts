@@ -0,0 +1,530 @@
+/* eslint-disable jsdoc/require-jsdoc */
+import type { SpriteSliceKey, SpriteSliceMeta } from '../../spriteTypes';
+import type { AsepriteFrameTag, AsepriteJson, AsepriteTagDirection } from './asepriteJson';
+import { inflateZlib } from './inflate';
+
+/** Bits per pixel: 32 for RGBA, 16 for grayscale with alpha, 8 for indexed. */
+export type AsepriteColorDepth = 8 | 16 | 32;
+
+export type AsepriteLayerType = 'normal' | 'group' | 'tilemap';
+
+export interface AsepriteLayer {
+  name: string;
+  type: AsepriteLayerType;
+  /** Nesting depth; a layer belongs to the closest group above it with one level less. */
+  childLevel: number;
+  /** Visible flag of the layer itself; see `isAsepriteLayerVisible` for the effective value. */
+  visible: boolean;
+  /** Background layers are opaque, so the transparent palette index keeps its color. */
+  background: boolean;
+  /** Reference layers are tracing aids and never exported. */
+  reference: boolean;
+  blendMode: number;
+  opacity: number;
+}
+
+export interface AsepriteCel {
+  layer: number;
+  x: number;
+  y: number;
+  opacity: number;
+  zIndex: number;
+  width: number;
+  height: number;
+  /** Pixels in the file's color depth; empty for tilemap cels. */
+  pixels: Uint8Array;
+}
+
+export interface AsepriteFileFrame {
+  /** Milliseconds. */
+  duration: number;
+  cels: AsepriteCel[];
+}
+
+export interface AsepriteFile {
+  width: number;
+  height: number;
+  colorDepth: AsepriteColorDepth;
+  /** Palette index drawn as transparent on non-background layers of indexed sprites. */
+  transparentIndex: number;
+  /** RGBA per palette entry. */
+  palette: Uint8Array;
+  layers: AsepriteLayer[];
+  frames: AsepriteFileFrame[];
+  tags: AsepriteFrameTag[];
+  slices: SpriteSliceMeta[];
+}
+
+export interface AsepriteSheet {
+  width: number;
+  height: number;
+  /** Unpremultiplied RGBA pixels of the whole sheet. */
+  pixels: Uint8Array;
+  /** The sheet described in Aseprite's JSON array format, ready for `importAsepriteJson`. */
+  json: AsepriteJson;
+}
+
+const FILE_MAGIC = 0xa5e0;
+const FRAME_MAGIC = 0xf1fa;
+const HEADER_SIZE = 128;
+const FRAME_HEADER_SIZE = 16;
+
+const CHUNK_OLD_PALETTE = 0x0004;
+const CHUNK_OLD_PALETTE_64 = 0x0011;
+const CHUNK_LAYER = 0x2004;
+const CHUNK_CEL = 0x2005;
+const CHUNK_TAGS = 0x2018;
+const CHUNK_PALETTE = 0x2019;
+const CHUNK_SLICE = 0x2022;
+
+const CEL_RAW = 0;
+const CEL_LINKED = 1;
+const CEL_COMPRESSED = 2;
+
+const LAYER_FLAG_VISIBLE = 1;
+const LAYER_FLAG_BACKGROUND = 8;
+const LAYER_FLAG_REFERENCE = 64;
+const HEADER_FLAG_LAYER_OPACITY = 1;
+const HEADER_FLAG_LAYER_UUID = 4;
+
+const TAG_DIRECTIONS: AsepriteTagDirection[] = [
+  'forward',
+  'reverse',
+  'pingpong',
+  'pingpong_reverse',
+];
+const LAYER_TYPES: AsepriteLayerType[] = ['normal', 'group', 'tilemap'];
+
+const createReader = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let position = 0;
+  const ensure = (count: number) => {
+    if (position + count > bytes.length) {
+      throw new Error('Aseprite file ended unexpectedly.');
+    }
+    const start = position;
+    position += count;
+    return start;
+  };
+  return {
+    get position() {
+      return position;
+    },
+    seek: (next: number) => {
+      position = next;
+    },
+    byte: () => view.getUint8(ensure(1)),
+    word: () => view.getUint16(ensure(2), true),
+    short: () => view.getInt16(ensure(2), true),
+    dword: () => view.getUint32(ensure(4), true),
+    long: () => view.getInt32(ensure(4), true),
+    bytes: (count: number) => {
+      const start = ensure(count);
+      return bytes.subarray(start, start + count);
+    },
+    string: () => {
+      const length = view.getUint16(ensure(2), true);
+      const start = ensure(length);
+      return decodeUtf8(bytes.subarray(start, start + length));
+    },
+  };
+};
+
+type AsepriteReader = ReturnType<typeof createReader>;
+
+// TextDecoder is missing on some React Native engines
+const decodeUtf8 = (bytes: Uint8Array) => {
+  let text = '';
+  for (let index = 0; index < bytes.length; ) {
+    const first = bytes[index]!;
+    const size = first < 0x80 ? 1 : first < 0xe0 ? 2 : first < 0xf0 ? 3 : 4;
+    let code = size === 1 ? first : first & (0xff >> (size + 1));
+    for (let offset = 1; offset < size; offset += 1) {
+      code = (code << 6) | ((bytes[index + offset] ?? 0) & 0x3f);
+    }
+    text += String.fromCodePoint(code);
+    index += size;
+  }
+  return text;
+};
+
+const readOldPalette = (reader: AsepriteReader, palette: Uint8Array, scale: number) => {
+  const packets = reader.word();
+  let index = 0;
+  for (let packet = 0; packet < packets; packet += 1) {
+    index += reader.byte();
+    const count = reader.byte() || 256;
+    for (let color = 0; color < count; color += 1, index += 1) {
+      const [red, green, blue] = reader.bytes(3);
+      if (index < 256) {
+        palette.set(
+          [Math.round(red! * scale), Math.round(green! * scale), Math.round(blue! * scale), 255],
+          index * 4,
+        );
+      }
+    }
+  }
+};
+
+const readPalette = (reader: AsepriteReader, palette: Uint8Array) => {
+  reader.dword();
+  const first = reader.dword();
+  const last = reader.dword();
+  reader.bytes(8);
+  for (let index = first; index <= last; index += 1) {
+    const flags = reader.word();
+    const color = reader.bytes(4);
+    if (flags & 1) {
+      reader.string();
+    }
+    if (index < 256) {
+      palette.set(color, index * 4);
+    }
+  }
+};
+
+const readLayer = (reader: AsepriteReader, headerFlags: number): AsepriteLayer => {
+  const flags = reader.word();
+  const type = reader.word();
+  const childLevel = reader.word();
+  reader.word();
+  reader.word();
+  const blendMode = reader.word();
+  const opacity = reader.byte();
+  reader.bytes(3);
+  const name = reader.string();
+  if (type === 2) {
+    reader.dword();
+  }
+  if (headerFlags & HEADER_FLAG_LAYER_UUID) {
+    reader.bytes(16);
+  }
+  return {
+    name,
+    type: LAYER_TYPES[type] ?? 'normal',
+    childLevel,
+    visible: (flags & LAYER_FLAG_VISIBLE) !== 0,
+    background: (flags & LAYER_FLAG_BACKGROUND) !== 0,
+    reference: (flags & LAYER_FLAG_REFERENCE) !== 0,
+    blendMode,
+    opacity: headerFlags & HEADER_FLAG_LAYER_OPACITY ? opacity : 255,
+  };
+};
+
+const readTags = (reader: AsepriteReader): AsepriteFrameTag[] => {
+  const count = reader.word();
+  reader.bytes(8);
+  return Array.from({ length: count }, (): AsepriteFrameTag => {
+    const from = reader.word();
+    const to = reader.word();
+    const direction = TAG_DIRECTIONS[reader.byte()] ?? 'forward';
+    const repeat = reader.word();
+    reader.bytes(10);
+    const tag: AsepriteFrameTag = { name: reader.string(), from, to, direction };
+    if (repeat > 0) {
+      tag.repeat = repeat;
+    }
+    return tag;
+  });
+};
+
+const readSlice = (reader: AsepriteReader): SpriteSliceMeta => {
+  const keyCount = reader.dword();
+  const flags = reader.dword();
+  reader.dword();
+  const name = reader.string();
+  const keys = Array.from({ length: keyCount }, () => {
+    const key: SpriteSliceKey = {
+      frame: reader.dword(),
+      bounds: { x: reader.long(), y: reader.long(), w: reader.dword(), h: reader.dword() },
+    };
+    if (flags & 1) {
+      key.center = { x: reader.long(), y: reader.long(), w: reader.dword(), h: reader.dword() };
+    }
+    if (flags & 2) {
+      key.pivot = { x: reader.long(), y: reader.long() };
+    }
+    return key;
+  });
+  return { name, keys };
+};
+
+/**
+ * Parses an `.ase` / `.aseprite` file. Layers, cels (raw, linked and zlib-compressed), tags,
+ * palettes and slices are read; tilemaps and user data are skipped. Throws when the bytes are
+ * not an Aseprite file.
+ */
+export const parseAsepriteFile = (bytes: Uint8Array): AsepriteFile => {
+  const reader = createReader(bytes);
+  if (bytes.length < HEADER_SIZE) {
+    throw new Error('Not an Aseprite file: the header is missing.');
+  }
+  reader.dword();
+  if (reader.word() !== FILE_MAGIC) {
+    throw new Error('Not an Aseprite file: wrong magic number.');
+  }
+  const frameCount = reader.word();
+  const width = reader.word();
+  const height = reader.word();
+  const colorDepth = reader.word();
+  if (colorDepth !== 8 && colorDepth !== 16 && colorDepth !== 32) {
+    throw new Error(`Unsupported Aseprite color depth: ${colorDepth}.`);
+  }
+  const headerFlags = reader.dword();
+  reader.seek(28);
+  const transparentIndex = reader.byte();
+  reader.seek(HEADER_SIZE);
+
+  const bytesPerPixel = colorDepth / 8;
+  const palette = new Uint8Array(256 * 4);
+  const layers: AsepriteLayer[] = [];
+  const frames: AsepriteFileFrame[] = [];
+  const tags: AsepriteFrameTag[] = [];
+  const slices: SpriteSliceMeta[] = [];
+  // files with the new palette chunk repeat it in the old format for older readers
+  let hasPalette = false;
+  for (let frameIndex = 0; frameIndex < frameCount; frameIndex += 1) {
+    const frameStart = reader.position;
+    const frameSize = reader.dword();
+    if (reader.word() !== FRAME_MAGIC) {
+      throw new Error(`Aseprite frame ${frameIndex} is corrupted.`);
+    }
+    const oldChunkCount = reader.word();
+    const duration = reader.word();
+    reader.bytes(2);
+    const chunkCount = reader.dword() || oldChunkCount;
+    const frame: AsepriteFileFrame = { duration, cels: [] };
+    frames.push(frame);
+    reader.seek(frameStart + FRAME_HEADER_SIZE);
+
+    for (let chunkIndex = 0; chunkIndex < chunkCount; chunkIndex += 1) {
+      const chunkStart = reader.position;
+      const chunkSize = reader.dword();
+      const chunkType = reader.word();
+      const chunkEnd = chunkStart + chunkSize;
+      if (chunkSize < 6 || chunkEnd > frameStart + frameSize) {
+        throw new Error(`Aseprite frame ${frameIndex} has a corrupted chunk.`);
+      }
+      switch (chunkType) {
+        case CHUNK_OLD_PALETTE:
+        case CHUNK_OLD_PALETTE_64:
+          if (!hasPalette) {
+            // the 0x0011 chunk stores 6-bit channels
+            readOldPalette(reader, palette, chunkType === CHUNK_OLD_PALETTE ? 1 : 255 / 63);
+          }
+          break;
+        case CHUNK_PALETTE:
+          readPalette(reader, palette);
+          hasPalette = true;
+          break;
+        case CHUNK_LAYER:
+          layers.push(readLayer(reader, headerFlags));
+          break;
+        case CHUNK_TAGS:
+          tags.push(...readTags(reader));
+          break;
+        case CHUNK_SLICE:
+          slices.push(readSlice(reader));
+          break;
+        case CHUNK_CEL: {
+          const layer = reader.word();
+          const x = reader.short();
+          const y = reader.short();
+          const opacity = reader.byte();
+          const celType = reader.word();
+          const zIndex = reader.short();
+          reader.bytes(5);
+          if (celType === CEL_LINKED) {
+            const linked = frames[reader.word()]?.cels.find((cel) => cel.layer === layer);
+            if (linked) {
+              frame.cels.push({ ...linked, zIndex });
+            }
+            break;
+          }
+          if (celType !== CEL_RAW && celType !== CEL_COMPRESSED) {
+            break;
+          }
+          const celWidth = reader.word();
+          const celHeight = reader.word();
+          const size = celWidth * celHeight * bytesPerPixel;
+          const data = reader.bytes(chunkEnd - reader.position);
+          const pixels = celType === CEL_RAW ? data : inflateZlib(data, size);
+          if (pixels.length < size) {
+            throw new Error(`Aseprite cel on layer ${layer} of frame ${frameIndex} is truncated.`);
+          }
+          frame.cels.push({
+            layer,
+            x,
+            y,
+            opacity,
+            zIndex,
+            width: celWidth,
+            height: celHeight,
+            pixels: pixels.subarray(0, size),
+          });
+          break;
+        }
+        default:
+          break;
+      }
+      reader.seek(chunkEnd);
+    }
+    reader.seek(frameStart + frameSize);
+  }
+  return {
+    width,
+    height,
+    colorDepth,
+    transparentIndex,
+    palette,
+    layers,
+    frames,
+    tags,
+    slices,
+  };
+};
+
+/** A layer is shown when it and every group containing it are visible. */
+export const isAsepriteLayerVisible = (file: AsepriteFile, layerIndex: number) => {
+  const layer = file.layers[layerIndex];
+  if (!layer || !layer.visible || layer.reference || layer.type !== 'normal') {
+    return false;
+  }
+  let level = layer.childLevel;
+  for (let index = layerIndex - 1; index >= 0 && level > 0; index -= 1) {
+    const parent = file.layers[index]!;
+    if (parent.childLevel < level) {
+      if (!parent.visible) {
+        return false;
+      }
+      level = parent.childLevel;
+    }
+  }
+  return true;
+};
+
+/** Reads one cel pixel as RGBA, resolving grayscale and palette colors. */
+const celColor = (file: AsepriteFile, cel: AsepriteCel, pixel: number, isBackground: boolean) => {
+  if (file.colorDepth === 32) {
+    const offset = pixel * 4;
+    return [
+      cel.pixels[offset]!,
+      cel.pixels[offset + 1]!,
+      cel.pixels[offset + 2]!,
+      cel.pixels[offset + 3]!,
+    ];
+  }
+  if (file.colorDepth === 16) {
+    const value = cel.pixels[pixel * 2]!;
+    return [value, value, value, cel.pixels[pixel * 2 + 1]!];
+  }
+  const index = cel.pixels[pixel]!;
+  if (index === file.transparentIndex && !isBackground) {
+    return [0, 0, 0, 0];
+  }
+  const offset = index * 4;
+  return [
+    file.palette[offset]!,
+    file.palette[offset + 1]!,
+    file.palette[offset + 2]!,
+    file.palette[offset + 3]!,
+  ];
+};
+
+/**
+ * Composites the visible layers of one frame into unpremultiplied RGBA pixels. Every blend mode
+ * is drawn as normal; layer and cel opacity are applied.
+ */
+export const flattenAsepriteFrame = (file: AsepriteFile, frameIndex: number): Uint8Array => {
+  const { width, height } = file;
+  const output = new Uint8Array(width * height * 4);
+  const frame = file.frames[frameIndex];
+  if (!frame) {
+    return output;
+  }
+  // cels move up or down the layer stack by their z-index; ties keep the lower z-index first
+  const cels = frame.cels
+    .filter((cel) => isAsepriteLayerVisible(file, cel.layer))
+    .sort((a, b) => a.layer + a.zIndex - (b.layer + b.zIndex) || a.zIndex - b.zIndex);
+  cels.forEach((cel) => {
+    const layer = file.layers[cel.layer]!;
+    const opacity = (cel.opacity / 255) * (layer.opacity / 255);
+    for (let row = 0; row < cel.height; row += 1) {
+      const y = cel.y + row;
+      if (y < 0 || y >= height) {
+        continue;
+      }
+      for (let column = 0; column < cel.width; column += 1) {
+        const x = cel.x + column;
+        if (x < 0 || x >= width) {
+          continue;
+        }
+        const [red, green, blue, alpha] = celColor(
+          file,
+          cel,
+          row * cel.width + column,
+          layer.background,
+        );
+        const sourceAlpha = (alpha! / 255) * opacity;
+        if (sourceAlpha <= 0) {
+          continue;
+        }
+        const offset = (y * width + x) * 4;
+        const destinationAlpha = (output[offset + 3]! / 255) * (1 - sourceAlpha);
+        const outAlpha = sourceAlpha + destinationAlpha;
+        output[offset] = Math.round(
+          (red! * sourceAlpha + output[offset]! * destinationAlpha) / outAlpha,
+        );
+        output[offset + 1] = Math.round(
+          (green! * sourceAlpha + output[offset + 1]! * destinationAlpha) / outAlpha,
+        );
+        output[offset + 2] = Math.round(
+          (blue! * sourceAlpha + output[offset + 2]! * destinationAlpha) / outAlpha,
+        );
+        output[offset + 3] = Math.round(outAlpha * 255);
+      }
+    }
+  });
+  return output;
+};
+
+/**
+ * Flattens every frame into a roughly square grid sheet and describes it the way Aseprite's JSON
+ * export would, so tags, durations and slices convert through `importAsepriteJson`.
+ */
+export const buildAsepriteSheet = (file: AsepriteFile): AsepriteSheet => {
+  const count = file.frames.length;
+  if (!count || !file.width || !file.height) {
+    throw new Error('The Aseprite file has no frames.');
+  }
+  const columns = Math.ceil(Math.sqrt(count));
+  const rows = Math.ceil(count / columns);
+  const width = columns * file.width;
+  const height = rows * file.height;
+  const pixels = new Uint8Array(width * height * 4);
+  const frames = file.frames.map((frame, index) => {
+    const x = (index % columns) * file.width;
+    const y = Math.floor(index / columns) * file.height;
+    const framePixels = flattenAsepriteFrame(file, index);
+    for (let row = 0; row < file.height; row += 1) {
+      pixels.set(
+        framePixels.subarray(row * file.width * 4, (row + 1) * file.width * 4),
+        ((y + row) * width + x) * 4,
+      );
+    }
+    return {
+      filename: String(index),
+      frame: { x, y, w: file.width, h: file.height },
+      duration: frame.duration,
+    };
+  });
+  return {
+    width,
+    height,
+    pixels,
+    json: {
+      frames,
+      meta: { app: 'https://www.aseprite.org/', frameTags: file.tags, slices: file.slices },
+    },
+  };
+};
@@ -0,0 +1,248 @@
+/* eslint-disable jsdoc/require-jsdoc */
+import type {
+  SpriteAnimationMeta,
+  SpriteAnimations,
+  SpriteAnimationsMeta,
+  SpriteData,
+  SpriteFrame,
+  SpriteRect,
+  SpriteSliceKey,
+  SpriteSliceMeta,
+} from '../../spriteTypes';
+
+export interface AsepriteFrame {
+  /** Only present in the array format; the hash format uses it as the key. */
+  filename?: string;
+  frame: SpriteRect;
+  rotated?: boolean;
+  trimmed?: boolean;
+  /** Position of the trimmed rect inside `sourceSize`. */
+  spriteSourceSize?: SpriteRect;
+  sourceSize?: { w: number; h: number };
+  /** Milliseconds. */
+  duration?: number;
+}
+
+export type AsepriteTagDirection = 'forward' | 'reverse' | 'pingpong' | 'pingpong_reverse';
+
+export interface AsepriteFrameTag {
+  name: string;
+  from: number;
+  to: number;
+  direction?: AsepriteTagDirection;
+  /** Times the tag plays; Aseprite writes it as a string. Missing means forever. */
+  repeat?: string | number;
+  color?: string;
+  data?: string;
+}
+
+export interface AsepriteJson {
+  /** `Hash` exports key frames by file name, `Array` exports list them. */
+  frames: Record<string, AsepriteFrame> | AsepriteFrame[];
+  meta?: {
+    app?: string;
+    version?: string;
+    /** Sheet file name, usually relative to the JSON file. */
+    image?: string;
+    size?: { w: number; h: number };
+    frameTags?: AsepriteFrameTag[];
+    slices?: SpriteSliceMeta[];
+    [key: string]: unknown;
+  };
+}
+
+/** Animation used when the file has no frame tags. */
+export const ASEPRITE_DEFAULT_ANIMATION = 'default';
+
+// Aseprite's default frame duration
+const DEFAULT_FRAME_DURATION = 100;
+// same range the editor accepts for animation fps
+const MIN_FPS = 1;
+const MAX_FPS = 60;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isRect = (value: unknown): value is SpriteRect =>
+  isObject(value) &&
+  ['x', 'y', 'w', 'h'].every(
+    (key) => typeof value[key] === 'number' && Number.isFinite(value[key]),
+  );
+
+const listFrames = (frames: unknown): unknown[] => {
+  if (Array.isArray(frames)) {
+    return frames;
+  }
+  return isObject(frames) ? Object.values(frames) : [];
+};
+
+/** True for the hash and array JSON formats written by Aseprite's sprite sheet export. */
+export const isAsepriteJson = (value: unknown): value is AsepriteJson => {
+  if (!isObject(value)) {
+    return false;
+  }
+  const frames = listFrames(value.frames);
+  return frames.length > 0 && frames.every((frame) => isObject(frame) && isRect(frame.frame));
+};
+
+const toSpriteFrame = (frame: AsepriteFrame, imageUri: string): SpriteFrame => {
+  const { x, y, w, h } = frame.frame;
+  const duration =
+    typeof frame.duration === 'number' && frame.duration > 0
+      ? frame.duration
+      : DEFAULT_FRAME_DURATION;
+  const result: SpriteFrame = { x, y, w, h, duration, imageUri };
+  if (frame.trimmed && frame.sourceSize && isRect(frame.spriteSourceSize)) {
+    result.sourceSize = { w: frame.sourceSize.w, h: frame.sourceSize.h };
+    result.trimOffset = { x: frame.spriteSourceSize.x, y: frame.spriteSourceSize.y };
+  }
+  return result;
+};
+
+/**
+ * Turns per-frame durations into an fps and multipliers. The most common duration becomes the
+ * fps so that most frames keep a multiplier of 1.
+ */
+const resolveTiming = (durations: number[]): Pick<SpriteAnimationMeta, 'fps' | 'multipliers'> => {
+  const counts = new Map<number, number>();
+  durations.forEach((duration) => counts.set(duration, (counts.get(duration) ?? 0) + 1));
+  let base = durations[0] ?? DEFAULT_FRAME_DURATION;
+  let baseCount = 0;
+  counts.forEach((count, duration) => {
+    if (count > baseCount) {
+      base = duration;
+      baseCount = count;
+    }
+  });
+  const fps = Math.min(MAX_FPS, Math.max(MIN_FPS, 1000 / base));
+  const multipliers = durations.map((duration) => Math.round((duration * fps) / 10) / 100);
+  return multipliers.every((multiplier) => multiplier === 1) ? { fps } : { fps, multipliers };
+};
+
+const uniqueName = (name: string, animations: SpriteAnimations) => {
+  let candidate = name;
+  for (let counter = 2; animations[candidate]; counter += 1) {
+    candidate = `${name} ${counter}`;
+  }
+  return candidate;
+};
+
+const normalizeSlices = (slices: unknown): SpriteSliceMeta[] => {
+  if (!Array.isArray(slices)) {
+    return [];
+  }
+  return slices.flatMap((slice): SpriteSliceMeta[] => {
+    if (!isObject(slice) || typeof slice.name !== 'string' || !Array.isArray(slice.keys)) {
+      return [];
+    }
+    const keys = slice.keys.flatMap((key): SpriteSliceKey[] => {
+      if (!isObject(key) || typeof key.frame !== 'number' || !isRect(key.bounds)) {
+        return [];
+      }
+      const { x, y, w, h } = key.bounds;
+      const entry: SpriteSliceKey = { frame: key.frame, bounds: { x, y, w, h } };
+      if (isRect(key.center)) {
+        entry.center = { x: key.center.x, y: key.center.y, w: key.center.w, h: key.center.h };
+      }
+      if (
+        isObject(key.pivot) &&
+        typeof key.pivot.x === 'number' &&
+        typeof key.pivot.y === 'number'
+      ) {
+        entry.pivot = { x: key.pivot.x, y: key.pivot.y };
+      }
+      return [entry];
+    });
+    const result: SpriteSliceMeta = { name: slice.name, keys };
+    if (typeof slice.color === 'string') {
+      result.color = slice.color;
+    }
+    if (typeof slice.data === 'string' && slice.data) {
+      result.data = slice.data;
+    }
+    return [result];
+  });
+};
+
+/**
+ * Converts Aseprite's sprite sheet JSON (hash or array format) into sprite data whose frames
+ * point at `imageUri`. Each frame tag becomes an animation: `reverse` tags are stored reversed,
+ * `pingpong` tags play in ping-pong mode and `repeat` becomes the loop count. A ping-pong tag
+ * with an odd `repeat` is written out pass by pass and played once, so it stops on the same frame
+ * as in Aseprite. Durations become fps and multipliers, and slices are kept in `meta.slices`.
+ * Throws when the JSON is not an Aseprite export or a tag points outside the frames.
+ */
+export const importAsepriteJson = (json: AsepriteJson | string, imageUri: string): SpriteData => {
+  const parsed: unknown = typeof json === 'string' ? JSON.parse(json) : json;
+  if (!isAsepriteJson(parsed)) {
+    throw new Error('Not an Aseprite sprite sheet JSON: frames are missing.');
+  }
+  const sourceFrames = listFrames(parsed.frames) as AsepriteFrame[];
+  const frames = sourceFrames.map((frame) => toSpriteFrame(frame, imageUri));
+  const durations = frames.map((frame) => frame.duration!);
+
+  const animations: SpriteAnimations = {};
+  const animationsMeta: SpriteAnimationsMeta = {};
+  const tags = Array.isArray(parsed.meta?.frameTags) ? parsed.meta.frameTags : [];
+  tags.forEach((tag) => {
+    const { from, to } = tag;
+    if (
+      !Number.isInteger(from) ||
+      !Number.isInteger(to) ||
+      from < 0 ||
+      to < from ||
+      to >= frames.length
+    ) {
+      throw new Error(
+        `Frame tag "${tag.name}" (${from}-${to}) is outside the ${frames.length} frames.`,
+      );
+    }
+    const direction = tag.direction ?? 'forward';
+    const sequence = Array.from({ length: to - from + 1 }, (_, offset) => from + offset);
+    if (direction === 'reverse' || direction === 'pingpong_reverse') {
+      sequence.reverse();
+    }
+    const repeat = Number(tag.repeat);
+    const passes = Number.isFinite(repeat) && repeat >= 1 ? Math.floor(repeat) : null;
+    let pingpong = direction === 'pingpong' || direction === 'pingpong_reverse';
+    let timeline = sequence;
+    let loopCount = passes;
+    if (pingpong && passes !== null) {
+      // Aseprite counts each ping-pong pass while the player counts round trips, which always
+      // end back on the first frame; an odd count ends on the far one, so its passes are unrolled
+      if (passes % 2) {
+        const backwards = [...sequence].reverse();
+        for (let pass = 1; pass < passes; pass += 1) {
+          timeline = timeline.concat((pass % 2 ? backwards : sequence).slice(1));
+        }
+        pingpong = false;
+        loopCount = 1;
+      } else {
+        loopCount = passes / 2;
+      }
+    }
+    const meta: SpriteAnimationMeta = {
+      ...resolveTiming(timeline.map((index) => durations[index]!)),
+    };
+    if (pingpong) {
+      meta.playbackMode = 'pingpong';
+    }
+    if (loopCount !== null) {
+      meta.loopCount = loopCount;
+    }
+    const name = uniqueName(String(tag.name ?? ''), animations);
+    animations[name] = timeline;
+    animationsMeta[name] = meta;
+  });
+  if (!tags.length) {
+    animations[ASEPRITE_DEFAULT_ANIMATION] = frames.map((_, index) => index);
+    animationsMeta[ASEPRITE_DEFAULT_ANIMATION] = resolveTiming(durations);
+  }
+
+  const data: SpriteData = { frames, animations, animationsMeta };
+  const slices = normalizeSlices(parsed.meta?.slices);
+  if (slices.length) {
+    data.meta = { slices };
+  }
+  return data;
+};
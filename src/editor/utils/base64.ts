@@ -0,0 +1,36 @@
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/** Base64 for binary exports, without relying on `btoa` being available. */
+export const encodeBase64 = (bytes: Uint8Array) => {
+  let output = '';
+  for (let index = 0; index < bytes.length; index += 3) {
+    const first = bytes[index]!;
+    const second = bytes[index + 1];
+    const third = bytes[index + 2];
+    const chunk = (first << 16) | ((second ?? 0) << 8) | (third ?? 0);
+    output += ALPHABET[(chunk >> 18) & 63]! + ALPHABET[(chunk >> 12) & 63]!;
+    output += second === undefined ? '=' : ALPHABET[(chunk >> 6) & 63]!;
+    output += third === undefined ? '=' : ALPHABET[chunk & 63]!;
+  }
+  return output;
+};
+
+/** Reverses {@link encodeBase64}; whitespace and padding are ignored. */
+export const decodeBase64 = (text: string) => {
+  const clean = text.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let length = 0;
+  for (let index = 0; index < clean.length; index += 4) {
+    const chunk =
+      (ALPHABET.indexOf(clean[index]!) << 18) |
+      (ALPHABET.indexOf(clean[index + 1] ?? 'A') << 12) |
+      (ALPHABET.indexOf(clean[index + 2] ?? 'A') << 6) |
+      ALPHABET.indexOf(clean[index + 3] ?? 'A');
+    const available = Math.min(3, ((clean.length - index) * 3) >> 2);
+    for (let offset = 0; offset < available; offset += 1) {
+      bytes[length] = (chunk >> (16 - offset * 8)) & 0xff;
+      length += 1;
+    }
+  }
+  return bytes;
+};
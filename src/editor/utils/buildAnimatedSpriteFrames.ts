@@ -43,8 +43,13 @@ const cloneAnimationsMeta = (
     }
     result[name] = {
       loop: meta.loop,
+      playbackMode: meta.playbackMode,
+      loopCount: meta.loopCount,
+      loopStart: meta.loopStart,
+      next: meta.next,
       fps: meta.fps,
       multipliers: Array.isArray(meta.multipliers) ? [...meta.multipliers] : undefined,
+      events: Array.isArray(meta.events) ? meta.events.map((event) => ({ ...event })) : undefined,
     };
   });
   return result;
@@ -83,6 +88,10 @@ export const buildAnimatedSpriteFrames = (
       x: frame.x,
       y: frame.y,
       duration: frame.duration,
+      ...(frame.sourceSize
+        ? { sourceSize: { width: frame.sourceSize.w, height: frame.sourceSize.h } }
+        : {}),
+      ...(frame.trimOffset ? { trimOffset: { ...frame.trimOffset } } : {}),
       image: source,
     });
   }
@@ -1,10 +1,12 @@
 import type {
+  SpriteAnimationEvent,
   SpriteAnimationMeta,
   SpriteAnimations,
   SpriteAnimationsMeta,
   SpriteFrame,
   SpriteData,
 } from '../../spriteTypes';
+import { normalizeSpriteStateMachine } from './spriteStateMachine';
 
 type SpriteDataLike<TFrame extends SpriteFrame> = Pick<
   SpriteData,
@@ -70,6 +72,36 @@ const normalizeLegacyMultipliers = (values: number[]) => {
   return normalized;
 };
 
+const normalizeAnimationEvents = (
+  events: unknown,
+  sequenceLength: number,
+): SpriteAnimationEvent[] => {
+  if (!Array.isArray(events)) {
+    return [];
+  }
+  const seen = new Set<string>();
+  const normalized: SpriteAnimationEvent[] = [];
+  events.forEach((event) => {
+    const candidate = event as Partial<SpriteAnimationEvent> | null;
+    const name = typeof candidate?.name === 'string' ? candidate.name.trim() : '';
+    const index = candidate?.index;
+    if (!name.length || typeof index !== 'number' || !Number.isFinite(index)) {
+      return;
+    }
+    const timelineIndex = Math.floor(index);
+    if (timelineIndex < 0 || timelineIndex >= sequenceLength) {
+      return;
+    }
+    const key = `${timelineIndex}|${name}`;
+    if (seen.has(key)) {
+      return;
+    }
+    seen.add(key);
+    normalized.push({ index: timelineIndex, name });
+  });
+  return normalized.sort((a, b) => a.index - b.index);
+};
+
 const mergeAnimationMeta = (
   base: SpriteAnimationsMeta | undefined,
   name: string,
@@ -110,7 +142,16 @@ export const cleanSpriteData = <TFrame extends SpriteFrame>(
     data.frames.length === 0 &&
     Object.keys(animations).length === 0;
   const frameKey = (frame: SpriteFrame) =>
-    `${frame.x}|${frame.y}|${frame.w}|${frame.h}|${frame.duration ?? ''}|${frame.imageUri ?? ''}`;
+    [
+      frame.x,
+      frame.y,
+      frame.w,
+      frame.h,
+      frame.duration ?? '',
+      frame.imageUri ?? '',
+      frame.sourceSize ? `${frame.sourceSize.w}x${frame.sourceSize.h}` : '',
+      frame.trimOffset ? `${frame.trimOffset.x},${frame.trimOffset.y}` : '',
+    ].join('|');
 
   const canonicalByRaw = new Map<number, number>();
   const canonicalOrder: number[] = [];
@@ -253,6 +294,32 @@ export const cleanSpriteData = <TFrame extends SpriteFrame>(
     if (typeof baseEntry.loop === 'boolean') {
       finalEntry.loop = baseEntry.loop;
     }
+    if (
+      baseEntry.playbackMode === 'loop' ||
+      baseEntry.playbackMode === 'once' ||
+      baseEntry.playbackMode === 'pingpong'
+    ) {
+      finalEntry.playbackMode = baseEntry.playbackMode;
+      finalEntry.loop = baseEntry.playbackMode !== 'once';
+    }
+    if (
+      typeof baseEntry.loopCount === 'number' &&
+      Number.isFinite(baseEntry.loopCount) &&
+      baseEntry.loopCount >= 1
+    ) {
+      finalEntry.loopCount = Math.floor(baseEntry.loopCount);
+    }
+    if (
+      typeof baseEntry.loopStart === 'number' &&
+      Number.isFinite(baseEntry.loopStart) &&
+      baseEntry.loopStart >= 1 &&
+      baseEntry.loopStart < sequence.length
+    ) {
+      finalEntry.loopStart = Math.floor(baseEntry.loopStart);
+    }
+    if (typeof baseEntry.next === 'string' && cleanedAnimations[baseEntry.next]) {
+      finalEntry.next = baseEntry.next;
+    }
     const fps = clampLegacyFps(baseEntry.fps ?? DEFAULT_ANIMATION_FPS);
     finalEntry.fps = fps;
     const sourceMultipliers = Array.isArray(baseEntry.multipliers) ? baseEntry.multipliers : [];
@@ -265,6 +332,10 @@ export const cleanSpriteData = <TFrame extends SpriteFrame>(
       );
     }
     finalEntry.multipliers = expanded;
+    const events = normalizeAnimationEvents(baseEntry.events, sequence.length);
+    if (events.length) {
+      finalEntry.events = events;
+    }
     finalAnimationsMeta[name] = finalEntry;
   });
 
@@ -285,6 +356,9 @@ export const cleanSpriteData = <TFrame extends SpriteFrame>(
     meta = rest;
   }
 
+  const stateMachine =
+    normalizeSpriteStateMachine(data.stateMachine, Object.keys(cleanedAnimations)) ?? undefined;
+
   return {
     ...data,
     meta,
@@ -292,6 +366,7 @@ export const cleanSpriteData = <TFrame extends SpriteFrame>(
     animations: cleanedAnimations,
     animationsMeta: finalAnimationsMeta,
     autoPlayAnimation: autoPlayAnimation ?? undefined,
+    stateMachine,
     frameIndexMap,
   };
 };
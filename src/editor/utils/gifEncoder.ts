@@ -0,0 +1,321 @@
+/* eslint-disable jsdoc/require-jsdoc */
+
+export interface GifFrame {
+  /** Unpremultiplied RGBA pixels, `width × height × 4` bytes. */
+  pixels: Uint8Array;
+  /** Milliseconds the frame stays on screen. */
+  duration: number;
+}
+
+export interface EncodeGifOptions {
+  width: number;
+  height: number;
+  /** Times the animation plays; 0 repeats forever. Defaults to 0. */
+  loopCount?: number;
+  /** Pixels with a lower alpha become transparent, the rest opaque. Defaults to 128. */
+  alphaThreshold?: number;
+}
+
+const MAX_COLORS = 256;
+const MAX_LZW_CODE = 4096;
+// Browsers stretch shorter delays to 100 ms, so 20 ms is the shortest one that plays as written.
+const MIN_DELAY_CENTISECONDS = 2;
+
+const createByteWriter = () => {
+  const bytes: number[] = [];
+  const byte = (value: number) => {
+    bytes.push(value & 0xff);
+  };
+  return {
+    byte,
+    short: (value: number) => {
+      byte(value);
+      byte(value >> 8);
+    },
+    ascii: (text: string) => {
+      for (let index = 0; index < text.length; index += 1) {
+        byte(text.charCodeAt(index));
+      }
+    },
+    /** Splits `data` into the length-prefixed sub-blocks GIF extensions and images use. */
+    blocks: (data: number[]) => {
+      for (let start = 0; start < data.length; start += 255) {
+        const chunk = data.slice(start, start + 255);
+        byte(chunk.length);
+        chunk.forEach(byte);
+      }
+      byte(0);
+    },
+    toUint8Array: () => Uint8Array.from(bytes),
+  };
+};
+
+interface GifPalette {
+  /** Flat RGB triples. */
+  colors: number[];
+  /** Palette index for every pixel of every frame. */
+  indices: Uint8Array[];
+  transparentIndex: number | null;
+}
+
+interface ColorBucket {
+  /** Channel sums of every pixel in the bucket. */
+  sums: [number, number, number];
+  count: number;
+}
+
+const colorKey = (pixels: Uint8Array, offset: number, shift: number) =>
+  ((pixels[offset]! >> shift) << 16) |
+  ((pixels[offset + 1]! >> shift) << 8) |
+  (pixels[offset + 2]! >> shift);
+
+const channelAverage = (bucket: ColorBucket, channel: number) =>
+  bucket.sums[channel]! / bucket.count;
+
+/** Splits the buckets into at most `limit` groups, always cutting the widest color range. */
+const medianCut = (buckets: ColorBucket[], limit: number) => {
+  const groups = [buckets];
+  while (groups.length < limit) {
+    let target = -1;
+    let targetChannel = 0;
+    let widest = 0;
+    groups.forEach((group, index) => {
+      if (group.length < 2) {
+        return;
+      }
+      [0, 1, 2].forEach((channel) => {
+        const values = group.map((bucket) => channelAverage(bucket, channel));
+        const range = Math.max(...values) - Math.min(...values);
+        if (range > widest) {
+          widest = range;
+          target = index;
+          targetChannel = channel;
+        }
+      });
+    });
+    if (target < 0) {
+      break;
+    }
+    const group = [...groups[target]!].sort(
+      (a, b) => channelAverage(a, targetChannel) - channelAverage(b, targetChannel),
+    );
+    const total = group.reduce((sum, bucket) => sum + bucket.count, 0);
+    let seen = 0;
+    let split = 1;
+    for (let index = 0; index < group.length - 1; index += 1) {
+      seen += group[index]!.count;
+      split = index + 1;
+      if (seen * 2 >= total) {
+        break;
+      }
+    }
+    groups.splice(target, 1, group.slice(0, split), group.slice(split));
+  }
+  return groups;
+};
+
+/**
+ * Builds one palette shared by every frame, so colors do not flicker between frames. Sprites
+ * with few colors keep them exactly; larger palettes are reduced with a median cut.
+ */
+const buildPalette = (frames: GifFrame[], alphaThreshold: number): GifPalette => {
+  const isOpaque = (pixels: Uint8Array, offset: number) => pixels[offset + 3]! >= alphaThreshold;
+  let hasTransparency = false;
+  const collect = (shift: number) => {
+    const buckets = new Map<number, ColorBucket>();
+    frames.forEach(({ pixels }) => {
+      for (let offset = 0; offset < pixels.length; offset += 4) {
+        if (!isOpaque(pixels, offset)) {
+          hasTransparency = true;
+          continue;
+        }
+        const key = colorKey(pixels, offset, shift);
+        const bucket = buckets.get(key);
+        if (bucket) {
+          bucket.sums[0] += pixels[offset]!;
+          bucket.sums[1] += pixels[offset + 1]!;
+          bucket.sums[2] += pixels[offset + 2]!;
+          bucket.count += 1;
+        } else {
+          buckets.set(key, {
+            sums: [pixels[offset]!, pixels[offset + 1]!, pixels[offset + 2]!],
+            count: 1,
+          });
+        }
+      }
+    });
+    return buckets;
+  };
+
+  let shift = 0;
+  let buckets = collect(shift);
+  const limit = hasTransparency ? MAX_COLORS - 1 : MAX_COLORS;
+  let groups = Array.from(buckets.values(), (bucket) => [bucket]);
+  if (buckets.size > limit) {
+    // 5 bits per channel keeps the cut fast without visible banding
+    shift = 3;
+    buckets = collect(shift);
+    groups = medianCut(Array.from(buckets.values()), limit);
+  }
+
+  const colors: number[] = [];
+  const groupIndex = new Map<ColorBucket, number>();
+  groups.forEach((group, index) => {
+    const merged = group.reduce<ColorBucket>(
+      (acc, bucket) => {
+        groupIndex.set(bucket, index);
+        return {
+          sums: [
+            acc.sums[0] + bucket.sums[0],
+            acc.sums[1] + bucket.sums[1],
+            acc.sums[2] + bucket.sums[2],
+          ],
+          count: acc.count + bucket.count,
+        };
+      },
+      { sums: [0, 0, 0], count: 0 },
+    );
+    colors.push(...[0, 1, 2].map((channel) => Math.round(channelAverage(merged, channel))));
+  });
+  const transparentIndex = hasTransparency ? groups.length : null;
+  if (transparentIndex !== null) {
+    colors.push(0, 0, 0);
+  }
+  const indices = frames.map(({ pixels }) => {
+    const result = new Uint8Array(pixels.length / 4);
+    for (let offset = 0; offset < pixels.length; offset += 4) {
+      if (!isOpaque(pixels, offset)) {
+        result[offset / 4] = transparentIndex!;
+        continue;
+      }
+      result[offset / 4] = groupIndex.get(buckets.get(colorKey(pixels, offset, shift))!)!;
+    }
+    return result;
+  });
+  return { colors, indices, transparentIndex };
+};
+
+const lzwEncode = (indices: Uint8Array, minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  let buffer = 0;
+  let bufferBits = 0;
+
+  const write = (code: number) => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      output.push(buffer & 0xff);
+      buffer >>>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  write(clearCode);
+  let prefix = indices[0] ?? 0;
+  for (let index = 1; index < indices.length; index += 1) {
+    const value = indices[index]!;
+    const key = (prefix << 8) | value;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    write(prefix);
+    if (nextCode === MAX_LZW_CODE) {
+      write(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) {
+        codeSize += 1;
+      }
+      table.set(key, nextCode);
+      nextCode += 1;
+    }
+    prefix = value;
+  }
+  write(prefix);
+  write(endCode);
+  if (bufferBits > 0) {
+    output.push(buffer & 0xff);
+  }
+  return output;
+};
+
+/**
+ * Encodes RGBA frames as an animated GIF89a. Frame delays are rounded to the GIF's 10 ms steps
+ * without drifting from the summed durations.
+ */
+export const encodeGif = (frames: GifFrame[], options: EncodeGifOptions): Uint8Array => {
+  const { width, height } = options;
+  const loopCount =
+    typeof options.loopCount === 'number' && Number.isFinite(options.loopCount)
+      ? Math.max(0, Math.floor(options.loopCount))
+      : 0;
+  const alphaThreshold = options.alphaThreshold ?? 128;
+  const expectedBytes = width * height * 4;
+  frames.forEach((frame, index) => {
+    if (frame.pixels.length !== expectedBytes) {
+      throw new Error(`GIF frame ${index} does not have ${width}×${height} RGBA pixels.`);
+    }
+  });
+
+  const { colors, indices, transparentIndex } = buildPalette(frames, alphaThreshold);
+  const tableBits = Math.max(1, Math.ceil(Math.log2(Math.max(2, colors.length / 3))));
+  const writer = createByteWriter();
+
+  writer.ascii('GIF89a');
+  writer.short(width);
+  writer.short(height);
+  writer.byte(0x80 | ((tableBits - 1) << 4) | (tableBits - 1));
+  writer.byte(0);
+  writer.byte(0);
+  for (let index = 0; index < 3 << tableBits; index += 1) {
+    writer.byte(colors[index] ?? 0);
+  }
+
+  // without the NETSCAPE extension viewers play the frames once
+  if (loopCount !== 1) {
+    writer.byte(0x21);
+    writer.byte(0xff);
+    writer.byte(11);
+    writer.ascii('NETSCAPE2.0');
+    const repeats = loopCount === 0 ? 0 : Math.min(loopCount - 1, 0xffff);
+    writer.blocks([1, repeats, repeats >> 8]);
+  }
+
+  const minCodeSize = Math.max(2, tableBits);
+  let elapsed = 0;
+  frames.forEach((frame, index) => {
+    const start = Math.round(elapsed / 10);
+    elapsed += Math.max(0, Number.isFinite(frame.duration) ? frame.duration : 0);
+    const delay = Math.max(MIN_DELAY_CENTISECONDS, Math.round(elapsed / 10) - start);
+
+    writer.byte(0x21);
+    writer.byte(0xf9);
+    writer.byte(4);
+    // transparent frames clear the canvas instead of drawing over the previous frame
+    writer.byte(transparentIndex !== null ? (2 << 2) | 1 : 1 << 2);
+    writer.short(delay);
+    writer.byte(transparentIndex ?? 0);
+    writer.byte(0);
+
+    writer.byte(0x2c);
+    writer.short(0);
+    writer.short(0);
+    writer.short(width);
+    writer.short(height);
+    writer.byte(0);
+    writer.byte(minCodeSize);
+    writer.blocks(lzwEncode(indices[index]!, minCodeSize));
+  });
+
+  writer.byte(0x3b);
+  return writer.toUint8Array();
+};
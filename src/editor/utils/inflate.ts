@@ -0,0 +1,237 @@
+interface HuffmanTable {
+  /** Number of codes of each bit length. */
+  counts: Uint16Array;
+  /** Symbols ordered by code. */
+  symbols: Uint16Array;
+}
+
+const MAX_BITS = 15;
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131,
+  163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0,
+];
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049,
+  3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13,
+];
+// order in which dynamic blocks list the code length code lengths
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const buildTable = (lengths: ArrayLike<number>): HuffmanTable => {
+  const counts = new Uint16Array(MAX_BITS + 1);
+  for (let symbol = 0; symbol < lengths.length; symbol += 1) {
+    counts[lengths[symbol]!]! += 1;
+  }
+  counts[0] = 0;
+  const offsets = new Uint16Array(MAX_BITS + 1);
+  for (let bits = 1; bits < MAX_BITS; bits += 1) {
+    offsets[bits + 1] = offsets[bits]! + counts[bits]!;
+  }
+  const symbols = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol += 1) {
+    if (lengths[symbol]) {
+      symbols[offsets[lengths[symbol]!]!] = symbol;
+      offsets[lengths[symbol]!]! += 1;
+    }
+  }
+  return { counts, symbols };
+};
+
+const FIXED_TABLES = (() => {
+  const lengths = new Uint8Array(288);
+  lengths.fill(8, 0, 144);
+  lengths.fill(9, 144, 256);
+  lengths.fill(7, 256, 280);
+  lengths.fill(8, 280, 288);
+  return { literals: buildTable(lengths), distances: buildTable(new Uint8Array(30).fill(5)) };
+})();
+
+const createReader = (input: Uint8Array, start: number) => {
+  let position = start;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const bits = (count: number) => {
+    while (bitCount < count) {
+      if (position >= input.length) {
+        throw new Error('Compressed data ended unexpectedly.');
+      }
+      bitBuffer |= input[position]! << bitCount;
+      position += 1;
+      bitCount += 8;
+    }
+    const value = bitBuffer & ((1 << count) - 1);
+    bitBuffer >>>= count;
+    bitCount -= count;
+    return value;
+  };
+  return {
+    bits,
+    /** Reads one symbol; Huffman codes are stored most significant bit first. */
+    decode: ({ counts, symbols }: HuffmanTable) => {
+      let code = 0;
+      let first = 0;
+      let index = 0;
+      for (let length = 1; length <= MAX_BITS; length += 1) {
+        code |= bits(1);
+        const count = counts[length]!;
+        if (code - first < count) {
+          return symbols[index + code - first]!;
+        }
+        index += count;
+        first = (first + count) << 1;
+        code <<= 1;
+      }
+      throw new Error('Invalid Huffman code in compressed data.');
+    },
+    /** Drops the bits left in the current byte; stored blocks start byte-aligned. */
+    align: () => {
+      bitBuffer = 0;
+      bitCount = 0;
+    },
+    takeBytes: (count: number) => {
+      if (position + count > input.length) {
+        throw new Error('Compressed data ended unexpectedly.');
+      }
+      const bytes = input.subarray(position, position + count);
+      position += count;
+      return bytes;
+    },
+  };
+};
+
+const createOutput = (expectedSize: number) => {
+  let buffer = new Uint8Array(Math.max(1024, expectedSize));
+  let length = 0;
+  const reserve = (extra: number) => {
+    if (length + extra > buffer.length) {
+      const next = new Uint8Array(Math.max(buffer.length * 2, length + extra));
+      next.set(buffer.subarray(0, length));
+      buffer = next;
+    }
+  };
+  return {
+    push: (value: number) => {
+      reserve(1);
+      buffer[length] = value;
+      length += 1;
+    },
+    append: (bytes: Uint8Array) => {
+      reserve(bytes.length);
+      buffer.set(bytes, length);
+      length += bytes.length;
+    },
+    copy: (distance: number, count: number) => {
+      if (distance > length) {
+        throw new Error('Invalid back-reference in compressed data.');
+      }
+      reserve(count);
+      // byte by byte, because the copy may overlap the bytes it produces
+      for (let index = 0; index < count; index += 1) {
+        buffer[length] = buffer[length - distance]!;
+        length += 1;
+      }
+    },
+    result: () => buffer.slice(0, length),
+  };
+};
+
+/**
+ * Decompresses a zlib stream (RFC 1950/1951), such as Aseprite cel pixels. `expectedSize` only
+ * pre-sizes the output buffer. Throws on malformed data; the Adler-32 trailer is not checked.
+ */
+export const inflateZlib = (input: Uint8Array, expectedSize = 0): Uint8Array => {
+  if (input.length < 2 || (input[0]! & 0x0f) !== 8 || ((input[0]! << 8) | input[1]!) % 31 !== 0) {
+    throw new Error('Not a zlib stream.');
+  }
+  if (input[1]! & 0x20) {
+    throw new Error('zlib preset dictionaries are not supported.');
+  }
+  const reader = createReader(input, 2);
+  const output = createOutput(expectedSize);
+
+  let last = false;
+  while (!last) {
+    last = reader.bits(1) === 1;
+    const type = reader.bits(2);
+    if (type === 0) {
+      reader.align();
+      const header = reader.takeBytes(4);
+      const length = header[0]! | (header[1]! << 8);
+      output.append(reader.takeBytes(length));
+      continue;
+    }
+    let tables = FIXED_TABLES;
+    if (type === 2) {
+      const literalCount = reader.bits(5) + 257;
+      const distanceCount = reader.bits(5) + 1;
+      const codeLengthCount = reader.bits(4) + 4;
+      const codeLengths = new Uint8Array(19);
+      for (let index = 0; index < codeLengthCount; index += 1) {
+        codeLengths[CODE_LENGTH_ORDER[index]!] = reader.bits(3);
+      }
+      const codeLengthTable = buildTable(codeLengths);
+      const lengths = new Uint8Array(literalCount + distanceCount);
+      for (let index = 0; index < lengths.length; ) {
+        const symbol = reader.decode(codeLengthTable);
+        if (symbol < 16) {
+          lengths[index] = symbol;
+          index += 1;
+          continue;
+        }
+        let repeat = 0;
+        let value = 0;
+        if (symbol === 16) {
+          if (index === 0) {
+            throw new Error('Invalid code lengths in compressed data.');
+          }
+          value = lengths[index - 1]!;
+          repeat = 3 + reader.bits(2);
+        } else {
+          repeat = symbol === 17 ? 3 + reader.bits(3) : 11 + reader.bits(7);
+        }
+        if (index + repeat > lengths.length) {
+          throw new Error('Invalid code lengths in compressed data.');
+        }
+        lengths.fill(value, index, index + repeat);
+        index += repeat;
+      }
+      tables = {
+        literals: buildTable(lengths.subarray(0, literalCount)),
+        distances: buildTable(lengths.subarray(literalCount)),
+      };
+    } else if (type !== 1) {
+      throw new Error('Invalid block type in compressed data.');
+    }
+
+    for (;;) {
+      const symbol = reader.decode(tables.literals);
+      if (symbol < 256) {
+        output.push(symbol);
+        continue;
+      }
+      if (symbol === 256) {
+        break;
+      }
+      const lengthIndex = symbol - 257;
+      if (lengthIndex >= LENGTH_BASE.length) {
+        throw new Error('Invalid length in compressed data.');
+      }
+      // the length's extra bits come before the distance code
+      const length = LENGTH_BASE[lengthIndex]! + reader.bits(LENGTH_EXTRA[lengthIndex]!);
+      const distanceIndex = reader.decode(tables.distances);
+      if (distanceIndex >= DISTANCE_BASE.length) {
+        throw new Error('Invalid distance in compressed data.');
+      }
+      const distance = DISTANCE_BASE[distanceIndex]! + reader.bits(DISTANCE_EXTRA[distanceIndex]!);
+      output.copy(distance, length);
+    }
+  }
+  return output.result();
+};
@@ -0,0 +1,199 @@
+/* eslint-disable jsdoc/require-jsdoc */
+
+export interface RectSize {
+  width: number;
+  height: number;
+}
+
+export interface PackRectsOptions {
+  /** Largest sheet side; sheets are powers of two up to this size. Defaults to 2048. */
+  maxSize?: number;
+  /** Empty pixels kept between rects. Defaults to 0. */
+  padding?: number;
+}
+
+export interface PackedRect {
+  /** Index into `sheets`. */
+  sheet: number;
+  x: number;
+  y: number;
+}
+
+export interface PackRectsResult {
+  /** Power-of-two sheet sizes, in the order rects were assigned to them. */
+  sheets: RectSize[];
+  /** Placement of each input rect, in input order. */
+  rects: PackedRect[];
+}
+
+interface FreeRect extends RectSize {
+  x: number;
+  y: number;
+}
+
+const DEFAULT_MAX_SIZE = 2048;
+
+const nextPowerOfTwo = (value: number) => 2 ** Math.ceil(Math.log2(Math.max(1, value)));
+
+const intersects = (a: FreeRect, b: FreeRect) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+const contains = (outer: FreeRect, inner: FreeRect) =>
+  inner.x >= outer.x &&
+  inner.y >= outer.y &&
+  inner.x + inner.width <= outer.x + outer.width &&
+  inner.y + inner.height <= outer.y + outer.height;
+
+/** Cuts `used` out of every free rect, keeping the maximal leftovers on each side. */
+const splitFreeRects = (freeRects: FreeRect[], used: FreeRect) => {
+  const next: FreeRect[] = [];
+  freeRects.forEach((free) => {
+    if (!intersects(free, used)) {
+      next.push(free);
+      return;
+    }
+    if (used.x > free.x) {
+      next.push({ ...free, width: used.x - free.x });
+    }
+    if (used.x + used.width < free.x + free.width) {
+      next.push({
+        ...free,
+        x: used.x + used.width,
+        width: free.x + free.width - used.x - used.width,
+      });
+    }
+    if (used.y > free.y) {
+      next.push({ ...free, height: used.y - free.y });
+    }
+    if (used.y + used.height < free.y + free.height) {
+      next.push({
+        ...free,
+        y: used.y + used.height,
+        height: free.y + free.height - used.y - used.height,
+      });
+    }
+  });
+  return next.filter(
+    (rect, index) =>
+      !next.some(
+        (other, otherIndex) =>
+          otherIndex !== index &&
+          contains(other, rect) &&
+          // identical rects keep the first copy
+          (!contains(rect, other) || otherIndex < index),
+      ),
+  );
+};
+
+/**
+ * Places as many of `order` as fit into one bin, choosing for each rect the free area that
+ * leaves the shortest leftover side (MaxRects best short side fit).
+ */
+const packBin = (sizes: RectSize[], order: number[], width: number, height: number) => {
+  let freeRects: FreeRect[] = [{ x: 0, y: 0, width, height }];
+  const placed = new Map<number, { x: number; y: number }>();
+  const rest: number[] = [];
+  order.forEach((index) => {
+    const size = sizes[index]!;
+    let best: FreeRect | null = null;
+    let bestShort = Infinity;
+    let bestLong = Infinity;
+    for (const free of freeRects) {
+      if (size.width > free.width || size.height > free.height) {
+        continue;
+      }
+      const leftoverX = free.width - size.width;
+      const leftoverY = free.height - size.height;
+      const short = Math.min(leftoverX, leftoverY);
+      const long = Math.max(leftoverX, leftoverY);
+      if (short < bestShort || (short === bestShort && long < bestLong)) {
+        best = free;
+        bestShort = short;
+        bestLong = long;
+      }
+    }
+    if (!best) {
+      rest.push(index);
+      return;
+    }
+    const { x, y } = best;
+    placed.set(index, { x, y });
+    freeRects = splitFreeRects(freeRects, { x, y, ...size });
+  });
+  return { placed, rest };
+};
+
+/** Power-of-two sheet sizes from `min` up to `max`, smallest area first. */
+const candidateSizes = (minWidth: number, minHeight: number, max: number) => {
+  const sizes: RectSize[] = [];
+  for (let width = nextPowerOfTwo(minWidth); width <= max; width *= 2) {
+    for (let height = nextPowerOfTwo(minHeight); height <= max; height *= 2) {
+      sizes.push({ width, height });
+    }
+  }
+  return sizes.sort(
+    (a, b) =>
+      a.width * a.height - b.width * b.height ||
+      Math.max(a.width, a.height) - Math.max(b.width, b.height),
+  );
+};
+
+/**
+ * Packs rects into as few power-of-two sheets as possible. Each sheet is the smallest size that
+ * holds every remaining rect; when even `maxSize` is too small, it is filled and packing
+ * continues on a new sheet. Throws when a single rect is bigger than `maxSize`.
+ */
+export const packRects = (sizes: RectSize[], options: PackRectsOptions = {}): PackRectsResult => {
+  const maxSize = nextPowerOfTwo(options.maxSize ?? DEFAULT_MAX_SIZE);
+  const padding = Math.max(0, Math.floor(options.padding ?? 0));
+  // padding is added to the right and bottom of every rect; the bin grows by the same amount
+  // so rects can still touch the sheet's far edges
+  const padded = sizes.map(({ width, height }) => ({
+    width: width + padding,
+    height: height + padding,
+  }));
+  sizes.forEach(({ width, height }, index) => {
+    if (width > maxSize || height > maxSize) {
+      throw new Error(`Rect ${index} (${width}×${height}) does not fit in a ${maxSize} atlas.`);
+    }
+  });
+
+  const sheets: RectSize[] = [];
+  const rects: PackedRect[] = [];
+  // tall and wide rects first leaves the small ones to fill the gaps
+  let remaining = sizes
+    .map((_, index) => index)
+    .sort(
+      (a, b) =>
+        Math.max(sizes[b]!.width, sizes[b]!.height) - Math.max(sizes[a]!.width, sizes[a]!.height) ||
+        sizes[b]!.width * sizes[b]!.height - sizes[a]!.width * sizes[a]!.height,
+    );
+  while (remaining.length) {
+    const area = remaining.reduce(
+      (sum, index) => sum + sizes[index]!.width * sizes[index]!.height,
+      0,
+    );
+    const minWidth = Math.max(...remaining.map((index) => sizes[index]!.width));
+    const minHeight = Math.max(...remaining.map((index) => sizes[index]!.height));
+    const candidates = candidateSizes(minWidth, minHeight, maxSize).filter(
+      (size, index, list) => size.width * size.height >= area || index === list.length - 1,
+    );
+    // the last candidate is the full `maxSize` sheet, which takes whatever fits
+    let sheet = candidates[0]!;
+    let result = packBin(padded, remaining, sheet.width + padding, sheet.height + padding);
+    for (const candidate of candidates.slice(1)) {
+      if (!result.rest.length) {
+        break;
+      }
+      sheet = candidate;
+      result = packBin(padded, remaining, sheet.width + padding, sheet.height + padding);
+    }
+    const sheetIndex = sheets.length;
+    sheets.push(sheet);
+    result.placed.forEach(({ x, y }, index) => {
+      rects[index] = { sheet: sheetIndex, x, y };
+    });
+    remaining = result.rest;
+  }
+  return { sheets, rects };
+};
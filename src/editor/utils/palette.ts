@@ -0,0 +1,102 @@
+/* eslint-disable jsdoc/require-jsdoc */
+import { AlphaType, ColorType, type SkImage } from '@shopify/react-native-skia';
+import type { SpritePaletteMeta } from '../../spriteTypes';
+
+/** Colors kept per palette, which is also what the built-in palette shader swaps in one pass. */
+export const MAX_PALETTE_COLORS = 32;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export const isPaletteColor = (value: unknown): value is string =>
+  typeof value === 'string' && HEX_COLOR.test(value);
+
+const toHex = (red: number, green: number, blue: number) =>
+  `#${[red, green, blue].map((channel) => channel.toString(16).padStart(2, '0')).join('')}`;
+
+export interface ExtractPaletteOptions {
+  /** Defaults to {@link MAX_PALETTE_COLORS}. */
+  maxColors?: number;
+}
+
+/**
+ * Collects the distinct opaque colors of RGBA8888 pixels, most frequent first. Partly transparent
+ * pixels are skipped: pixel-art palettes are opaque and their stored values may be premultiplied.
+ */
+export const extractPaletteFromPixels = (
+  pixels: ArrayLike<number>,
+  { maxColors = MAX_PALETTE_COLORS }: ExtractPaletteOptions = {},
+): string[] => {
+  const counts = new Map<string, number>();
+  for (let index = 0; index + 3 < pixels.length; index += 4) {
+    if (pixels[index + 3] !== 255) {
+      continue;
+    }
+    const color = toHex(pixels[index]!, pixels[index + 1]!, pixels[index + 2]!);
+    counts.set(color, (counts.get(color) ?? 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, Math.max(0, maxColors))
+    .map(([color]) => color);
+};
+
+/** Reads the image back from Skia and extracts its palette; empty when pixels are unavailable. */
+export const extractPaletteFromImage = (image: SkImage, options?: ExtractPaletteOptions) => {
+  const pixels = image.readPixels(0, 0, {
+    width: image.width(),
+    height: image.height(),
+    colorType: ColorType.RGBA_8888,
+    alphaType: AlphaType.Unpremul,
+  });
+  return pixels instanceof Uint8Array ? extractPaletteFromPixels(pixels, options) : [];
+};
+
+/** Validates `meta.palettes`, dropping malformed colors and variants. */
+export const normalizePaletteMeta = (value: unknown): SpritePaletteMeta | null => {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const { source, variants } = value as { source?: unknown; variants?: unknown };
+  if (!Array.isArray(source) || !source.every(isPaletteColor)) {
+    return null;
+  }
+  const result: SpritePaletteMeta = { source: [...source], variants: {} };
+  if (variants && typeof variants === 'object') {
+    Object.entries(variants as Record<string, unknown>).forEach(([name, colors]) => {
+      if (Array.isArray(colors) && colors.every(isPaletteColor)) {
+        result.variants[name] = [...colors];
+      }
+    });
+  }
+  return result;
+};
+
+/**
+ * Source/target color pairs for `variant`, limited to {@link MAX_PALETTE_COLORS}. Colors the
+ * variant leaves out keep their source value. Null when the variant does not exist.
+ */
+export const resolvePaletteSwap = (meta: unknown, variant: string | null | undefined) => {
+  const palettes = normalizePaletteMeta(meta);
+  const target = variant ? palettes?.variants[variant] : undefined;
+  if (!palettes || !target) {
+    return null;
+  }
+  const source = palettes.source.slice(0, MAX_PALETTE_COLORS);
+  return { source, target: source.map((color, index) => target[index] ?? color) };
+};
+
+/**
+ * Replaces the source palette while keeping each variant's replacement for colors that are still
+ * present. New colors start out unchanged in every variant.
+ */
+export const rebasePaletteVariants = (
+  palettes: SpritePaletteMeta | null,
+  nextSource: string[],
+): SpritePaletteMeta => {
+  const variants: Record<string, string[]> = {};
+  Object.entries(palettes?.variants ?? {}).forEach(([name, colors]) => {
+    const previous = new Map(palettes!.source.map((color, index) => [color, colors[index]]));
+    variants[name] = nextSource.map((color) => previous.get(color) ?? color);
+  });
+  return { source: [...nextSource], variants };
+};
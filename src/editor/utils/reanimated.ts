@@ -0,0 +1,24 @@
+import type * as ReanimatedModule from 'react-native-reanimated';
+
+type Reanimated = typeof ReanimatedModule;
+
+let cached: Reanimated | null = null;
+
+/**
+ * Loads `react-native-reanimated` on first use so it stays an optional peer dependency:
+ * apps that never opt into UI-thread playback do not need it installed.
+ */
+export const getReanimated = (): Reanimated => {
+  if (cached) {
+    return cached;
+  }
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    cached = require('react-native-reanimated') as Reanimated;
+  } catch {
+    throw new Error(
+      'playbackDriver="ui" requires react-native-reanimated. Install it or use the default "js" driver.',
+    );
+  }
+  return cached;
+};
@@ -0,0 +1,255 @@
+/* eslint-disable jsdoc/require-jsdoc */
+import type { SpriteFramesResource } from '../animatedSprite2dTypes';
+import {
+  buildSequence,
+  computeFrameDuration,
+  getImageSourceKey,
+  pickInitialAnimation,
+  resolveFrameIndex,
+  resolveTimelinePlayback,
+  stepTimelineCursor,
+  type FrameRect,
+} from '../hooks/animatedSprite2d/helpers';
+
+export interface SpriteBatchInstance {
+  /** Keeps the instance's playback position when the list is reordered; defaults to its index. */
+  id?: string;
+  /** Canvas position of the frame's center (the rotation pivot). */
+  x: number;
+  y: number;
+  /** Defaults to the resource's autoplay animation. */
+  animation?: string | null;
+  /** Pins a sprite-sheet frame index instead of animating. */
+  frame?: number | null;
+  /** Timeline index playback starts from, e.g. to desynchronise identical instances. */
+  cursor?: number;
+  scale?: number;
+  /** Rotation in radians around the frame's center. */
+  rotation?: number;
+  flipH?: boolean;
+  flipV?: boolean;
+  /** 0–1, multiplied into the sprite's alpha. */
+  opacity?: number;
+}
+
+export interface SpriteBatchPlayhead {
+  animation: string | null;
+  /** `instance.animation`/`instance.cursor` the playhead was seeded from; reseeds on change. */
+  seed: { animation: string | null | undefined; cursor: number | undefined };
+  cursor: number;
+  step: 1 | -1;
+  iteration: number;
+  accumulator: number;
+  finished: boolean;
+}
+
+export type SpriteBatchPlayheads = Map<string, SpriteBatchPlayhead>;
+
+export const getSpriteBatchInstanceKey = (instance: SpriteBatchInstance, index: number) =>
+  instance.id ?? String(index);
+
+const createPlayhead = (
+  frames: SpriteFramesResource,
+  instance: SpriteBatchInstance,
+): SpriteBatchPlayhead => {
+  const animation = pickInitialAnimation(frames, instance.animation);
+  const length = buildSequence(frames, animation).length;
+  const start = typeof instance.cursor === 'number' ? Math.floor(instance.cursor) : 0;
+  return {
+    animation,
+    seed: { animation: instance.animation, cursor: instance.cursor },
+    cursor: Math.max(0, Math.min(Math.max(0, length - 1), Number.isFinite(start) ? start : 0)),
+    step: 1,
+    iteration: 0,
+    accumulator: 0,
+    finished: false,
+  };
+};
+
+/**
+ * Returns the playheads for `instances`, reusing existing ones by key. Playheads whose
+ * instance changed its `animation` or `cursor` start over; removed instances are dropped.
+ */
+export const syncSpriteBatchPlayheads = (
+  frames: SpriteFramesResource,
+  instances: SpriteBatchInstance[],
+  previous: SpriteBatchPlayheads,
+): SpriteBatchPlayheads => {
+  const next: SpriteBatchPlayheads = new Map();
+  instances.forEach((instance, index) => {
+    const key = getSpriteBatchInstanceKey(instance, index);
+    const existing = previous.get(key);
+    if (
+      existing &&
+      existing.seed.animation === instance.animation &&
+      existing.seed.cursor === instance.cursor
+    ) {
+      next.set(key, existing);
+      return;
+    }
+    next.set(key, createPlayhead(frames, instance));
+  });
+  return next;
+};
+
+/**
+ * Advances one playhead by `delta` milliseconds using the same timing and playback modes as
+ * `AnimatedSprite2D`. Returns true when the shown cursor changed.
+ */
+export const advanceSpriteBatchPlayhead = (
+  frames: SpriteFramesResource,
+  playhead: SpriteBatchPlayhead,
+  delta: number,
+  speedScale: number,
+): boolean => {
+  if (playhead.finished) {
+    return false;
+  }
+  let sequence = buildSequence(frames, playhead.animation);
+  if (!sequence.length) {
+    return false;
+  }
+  let playback = resolveTimelinePlayback(frames, playhead.animation, sequence.length, 'forward');
+  let changed = false;
+  playhead.accumulator += delta;
+  for (;;) {
+    const cursor = Math.min(playhead.cursor, sequence.length - 1);
+    const duration = computeFrameDuration(
+      frames.frames[sequence[cursor] ?? 0],
+      playhead.animation,
+      cursor,
+      frames,
+      speedScale,
+    );
+    if (playhead.accumulator < duration) {
+      return changed;
+    }
+    playhead.accumulator -= duration;
+    const next = stepTimelineCursor(
+      { cursor, step: playhead.step, iteration: playhead.iteration },
+      sequence.length,
+      playback.mode,
+      playback.loopCount,
+      playback.loopRange,
+    );
+    playhead.step = next.step;
+    playhead.iteration = next.iteration;
+    if (next.finished) {
+      const following = frames.animationsMeta?.[playhead.animation ?? '']?.next;
+      if (typeof following === 'string' && frames.animations?.[following]?.length) {
+        playhead.animation = following;
+        sequence = buildSequence(frames, following);
+        playback = resolveTimelinePlayback(frames, following, sequence.length, 'forward');
+        playhead.cursor = 0;
+        playhead.step = 1;
+        playhead.iteration = 0;
+        changed = true;
+        continue;
+      }
+      playhead.accumulator = 0;
+      playhead.finished = true;
+      changed = changed || next.cursor !== cursor;
+      playhead.cursor = next.cursor;
+      return changed;
+    }
+    changed = changed || next.cursor !== cursor;
+    playhead.cursor = next.cursor;
+  }
+};
+
+export const resolveSpriteBatchFrameIndex = (
+  frames: SpriteFramesResource,
+  instance: SpriteBatchInstance,
+  playhead: SpriteBatchPlayhead | undefined,
+) => {
+  const pinned = resolveFrameIndex(instance.frame, frames.frames.length);
+  if (pinned !== null) {
+    return pinned;
+  }
+  if (!playhead) {
+    return 0;
+  }
+  const sequence = buildSequence(frames, playhead.animation);
+  return sequence[Math.min(playhead.cursor, sequence.length - 1)] ?? 0;
+};
+
+export interface SpriteBatchTransform {
+  scos: number;
+  ssin: number;
+  tx: number;
+  ty: number;
+}
+
+export interface SpriteBatchDrawGroup {
+  flipH: boolean;
+  flipV: boolean;
+  sprites: FrameRect[];
+  transforms: SpriteBatchTransform[];
+  opacities: number[];
+}
+
+const sanitizeScale = (value: number | undefined) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 1;
+
+const sanitizeOpacity = (value: number | undefined) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.min(1, value)) : 1;
+
+/**
+ * Builds the atlas draw data for every instance. An atlas transform cannot mirror, so
+ * instances are grouped by flip; each group is one draw call under a mirroring transform.
+ * Frames cut from a different image than the first frame are skipped.
+ */
+export const buildSpriteBatchDrawGroups = (
+  frames: SpriteFramesResource,
+  instances: SpriteBatchInstance[],
+  playheads: SpriteBatchPlayheads,
+): SpriteBatchDrawGroup[] => {
+  const atlasKey = getImageSourceKey(frames.frames[0]?.image);
+  const groups = new Map<string, SpriteBatchDrawGroup>();
+  instances.forEach((instance, index) => {
+    const playhead = playheads.get(getSpriteBatchInstanceKey(instance, index));
+    const frame = frames.frames[resolveSpriteBatchFrameIndex(frames, instance, playhead)];
+    if (!frame || atlasKey === null || getImageSourceKey(frame.image) !== atlasKey) {
+      return;
+    }
+    const opacity = sanitizeOpacity(instance.opacity);
+    if (opacity <= 0) {
+      return;
+    }
+    const flipH = Boolean(instance.flipH);
+    const flipV = Boolean(instance.flipV);
+    const groupKey = `${flipH ? 'h' : ''}${flipV ? 'v' : ''}`;
+    let group = groups.get(groupKey);
+    if (!group) {
+      group = { flipH, flipV, sprites: [], transforms: [], opacities: [] };
+      groups.set(groupKey, group);
+    }
+    const scale = sanitizeScale(instance.scale);
+    // mirrored groups are drawn under scale(-1), so positions and rotation flip sign there
+    const mirrorX = flipH ? -1 : 1;
+    const mirrorY = flipV ? -1 : 1;
+    const rotation = (instance.rotation ?? 0) * mirrorX * mirrorY;
+    const centerX = (instance.x + (frame.offset?.x ?? 0) * scale) * mirrorX;
+    const centerY = (instance.y + (frame.offset?.y ?? 0) * scale) * mirrorY;
+    const scos = Math.cos(rotation) * scale;
+    const ssin = Math.sin(rotation) * scale;
+    // the instance position is the center of the untrimmed frame
+    const pivotX = (frame.sourceSize?.width ?? frame.width) / 2 - (frame.trimOffset?.x ?? 0);
+    const pivotY = (frame.sourceSize?.height ?? frame.height) / 2 - (frame.trimOffset?.y ?? 0);
+    const subset = frame.image.subset;
+    group.sprites.push({
+      x: subset?.x ?? 0,
+      y: subset?.y ?? 0,
+      width: frame.width,
+      height: frame.height,
+    });
+    group.transforms.push({
+      scos,
+      ssin,
+      tx: centerX - (scos * pivotX - ssin * pivotY),
+      ty: centerY - (ssin * pivotX + scos * pivotY),
+    });
+    group.opacities.push(opacity);
+  });
+  return Array.from(groups.values());
+};
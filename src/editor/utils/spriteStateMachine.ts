@@ -0,0 +1,197 @@
+/* eslint-disable jsdoc/require-jsdoc */
+import type {
+  SpriteStateMachineCondition,
+  SpriteStateMachineDefinition,
+  SpriteStateMachineOperator,
+  SpriteStateMachineParameterValue,
+  SpriteStateMachineState,
+  SpriteStateMachineTransition,
+} from '../../spriteTypes';
+
+/** Transition `from` value that matches every state except the target itself. */
+export const ANY_STATE = '*';
+
+export type SpriteStateMachineParameters = Record<string, SpriteStateMachineParameterValue>;
+
+export interface SpriteStateMachineStatus {
+  state: string;
+  /** Whether the current state's animation finished since the state was entered. */
+  finished: boolean;
+}
+
+const OPERATORS: SpriteStateMachineOperator[] = ['==', '!=', '>', '>=', '<', '<='];
+
+const isParameterValue = (value: unknown): value is SpriteStateMachineParameterValue =>
+  typeof value === 'boolean' ||
+  typeof value === 'string' ||
+  (typeof value === 'number' && Number.isFinite(value));
+
+const normalizeCondition = (input: unknown): SpriteStateMachineCondition | null => {
+  if (!input || typeof input !== 'object') {
+    return null;
+  }
+  const { parameter, operator, value } = input as Record<string, unknown>;
+  if (typeof parameter !== 'string' || !parameter.length) {
+    return null;
+  }
+  const condition: SpriteStateMachineCondition = { parameter };
+  if (OPERATORS.includes(operator as SpriteStateMachineOperator)) {
+    condition.operator = operator as SpriteStateMachineOperator;
+  }
+  if (isParameterValue(value)) {
+    condition.value = value;
+  }
+  return condition;
+};
+
+/**
+ * Validates an untrusted state machine definition. States whose animation is missing from
+ * `animationNames` (when provided) are dropped along with transitions that reference them.
+ */
+export const normalizeSpriteStateMachine = (
+  input: unknown,
+  animationNames?: Iterable<string>,
+): SpriteStateMachineDefinition | null => {
+  if (!input || typeof input !== 'object') {
+    return null;
+  }
+  const source = input as Record<string, unknown>;
+  const allowedAnimations = animationNames ? new Set(animationNames) : null;
+  const states: Record<string, SpriteStateMachineState> = {};
+  if (source.states && typeof source.states === 'object') {
+    Object.entries(source.states as Record<string, unknown>).forEach(([name, entry]) => {
+      const animation = (entry as { animation?: unknown } | null)?.animation;
+      if (!name.length || name === ANY_STATE || typeof animation !== 'string') {
+        return;
+      }
+      if (allowedAnimations && !allowedAnimations.has(animation)) {
+        return;
+      }
+      states[name] = { animation };
+    });
+  }
+  const stateNames = Object.keys(states);
+  if (!stateNames.length) {
+    return null;
+  }
+  const transitions: SpriteStateMachineTransition[] = [];
+  if (Array.isArray(source.transitions)) {
+    source.transitions.forEach((entry) => {
+      if (!entry || typeof entry !== 'object') {
+        return;
+      }
+      const { from, to, conditions, waitForFinish } = entry as Record<string, unknown>;
+      if (typeof from !== 'string' || typeof to !== 'string' || !states[to]) {
+        return;
+      }
+      if (from !== ANY_STATE && !states[from]) {
+        return;
+      }
+      const transition: SpriteStateMachineTransition = { from, to };
+      if (Array.isArray(conditions)) {
+        const normalized = conditions
+          .map(normalizeCondition)
+          .filter((condition): condition is SpriteStateMachineCondition => condition !== null);
+        if (normalized.length) {
+          transition.conditions = normalized;
+        }
+      }
+      if (waitForFinish === true) {
+        transition.waitForFinish = true;
+      }
+      transitions.push(transition);
+    });
+  }
+  const parameters: SpriteStateMachineParameters = {};
+  if (source.parameters && typeof source.parameters === 'object') {
+    Object.entries(source.parameters as Record<string, unknown>).forEach(([name, value]) => {
+      if (name.length && isParameterValue(value)) {
+        parameters[name] = value;
+      }
+    });
+  }
+  const initialState =
+    typeof source.initialState === 'string' && states[source.initialState]
+      ? source.initialState
+      : stateNames[0]!;
+  const definition: SpriteStateMachineDefinition = { initialState, states, transitions };
+  if (Object.keys(parameters).length) {
+    definition.parameters = parameters;
+  }
+  return definition;
+};
+
+export const evaluateStateMachineCondition = (
+  condition: SpriteStateMachineCondition,
+  parameters: SpriteStateMachineParameters,
+) => {
+  const actual = parameters[condition.parameter];
+  const expected = condition.value ?? true;
+  switch (condition.operator ?? '==') {
+    case '==':
+      return actual === expected;
+    case '!=':
+      return actual !== expected;
+    case '>':
+      return typeof actual === 'number' && typeof expected === 'number' && actual > expected;
+    case '>=':
+      return typeof actual === 'number' && typeof expected === 'number' && actual >= expected;
+    case '<':
+      return typeof actual === 'number' && typeof expected === 'number' && actual < expected;
+    case '<=':
+      return typeof actual === 'number' && typeof expected === 'number' && actual <= expected;
+    default:
+      return false;
+  }
+};
+
+/** Returns the first transition (in definition order) that may fire from `state`. */
+export const resolveStateMachineTransition = (
+  definition: SpriteStateMachineDefinition,
+  state: string,
+  parameters: SpriteStateMachineParameters,
+  finished: boolean,
+): SpriteStateMachineTransition | null => {
+  const transitions = definition.transitions ?? [];
+  for (const transition of transitions) {
+    const matchesSource =
+      transition.from === state || (transition.from === ANY_STATE && transition.to !== state);
+    if (!matchesSource || !definition.states[transition.to]) {
+      continue;
+    }
+    if (transition.waitForFinish && !finished) {
+      continue;
+    }
+    const conditions = transition.conditions ?? [];
+    if (conditions.every((condition) => evaluateStateMachineCondition(condition, parameters))) {
+      return transition;
+    }
+  }
+  return null;
+};
+
+/**
+ * Follows transitions until none applies. Each state is entered at most once per call so
+ * unconditional cycles cannot spin forever.
+ */
+export const settleStateMachine = (
+  definition: SpriteStateMachineDefinition,
+  status: SpriteStateMachineStatus,
+  parameters: SpriteStateMachineParameters,
+): SpriteStateMachineStatus => {
+  let current = status;
+  const visited = new Set([status.state]);
+  for (;;) {
+    const transition = resolveStateMachineTransition(
+      definition,
+      current.state,
+      parameters,
+      current.finished,
+    );
+    if (!transition || visited.has(transition.to)) {
+      return current;
+    }
+    visited.add(transition.to);
+    current = { state: transition.to, finished: false };
+  }
+};
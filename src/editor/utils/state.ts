@@ -1,4 +1,8 @@
-import type { SpriteAnimations, SpriteAnimationsMeta } from '../../spriteTypes';
+import type {
+  SpriteAnimations,
+  SpriteAnimationsMeta,
+  SpriteStateMachineDefinition,
+} from '../../spriteTypes';
 import type { SpriteEditorFrame, SpriteEditorSnapshot, SpriteEditorState } from '../types';
 
 /**
@@ -46,6 +50,31 @@ export const cloneAnimationsMeta = (meta?: SpriteAnimationsMeta) => {
   return next;
 };
 
+/**
+ * Deep-clones a state machine definition.
+ */
+export const cloneStateMachine = (
+  definition?: SpriteStateMachineDefinition,
+): SpriteStateMachineDefinition | undefined => {
+  if (!definition) return undefined;
+  const states: SpriteStateMachineDefinition['states'] = {};
+  Object.entries(definition.states).forEach(([name, state]) => {
+    states[name] = { ...state };
+  });
+  const next: SpriteStateMachineDefinition = {
+    initialState: definition.initialState,
+    states,
+    transitions: (definition.transitions ?? []).map((transition) => ({
+      ...transition,
+      conditions: transition.conditions?.map((condition) => ({ ...condition })),
+    })),
+  };
+  if (definition.parameters) {
+    next.parameters = { ...definition.parameters };
+  }
+  return next;
+};
+
 /**
  * Creates a detachable snapshot from the provided editor state.
  */
@@ -55,6 +84,7 @@ export const cloneSnapshot = (snapshot: SpriteEditorSnapshot): SpriteEditorSnaps
   animationsMeta: cloneAnimationsMeta(snapshot.animationsMeta),
   selected: [...snapshot.selected],
   autoPlayAnimation: snapshot.autoPlayAnimation ?? null,
+  stateMachine: cloneStateMachine(snapshot.stateMachine),
   meta: { ...snapshot.meta },
 });
 
@@ -67,5 +97,6 @@ export const snapshotFromState = (state: SpriteEditorState): SpriteEditorSnapsho
   animationsMeta: cloneAnimationsMeta(state.animationsMeta),
   selected: [...state.selected],
   autoPlayAnimation: state.autoPlayAnimation ?? null,
+  stateMachine: cloneStateMachine(state.stateMachine),
   meta: { ...state.meta },
 });
@@ -2,15 +2,27 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type { PlaybackDirection } from '../spriteTypes';
 import type {
+  AnimatedSpriteAnimationEvent,
   AnimatedSpriteFrameChangeEvent,
+  SpriteClockMode,
   SpriteFramesResource,
+  SpritePlaybackDriver,
+  SpritePlaybackPosition,
 } from '../editor/animatedSprite2dTypes';
 import {
+  buildAnimationEventIndex,
   buildSequence,
+  computeSequenceDurations,
+  computeTimelineElapsed,
+  measureTimeline,
   pickInitialAnimation,
   resolveFrameIndex,
+  resolveTimelinePlayback,
+  resolveTimelineTime,
+  type TimelineStepState,
 } from '../editor/hooks/animatedSprite2d/helpers';
 import { useTicker } from '../editor/hooks/animatedSprite2d/useTicker';
+import { useSpriteClock } from '../SpriteClockProvider';
 
 export interface UseSpriteAnimationTickerOptions {
   frames: SpriteFramesResource;
@@ -19,7 +31,23 @@ export interface UseSpriteAnimationTickerOptions {
   speedScale?: number;
   onAnimationFinished?: (name: string | null) => void;
   onFrameChanged?: (event: AnimatedSpriteFrameChangeEvent) => void;
+  onAnimationEvent?: (event: AnimatedSpriteAnimationEvent) => void;
+  /** Called on every tick while playing, or on every reported cursor of an external driver. */
+  onProgress?: (position: SpritePlaybackPosition) => void;
   direction?: PlaybackDirection;
+  /** Follows `animationsMeta[name].next` when a non-looping animation finishes (default true). */
+  followNextAnimation?: boolean;
+  /**
+   * `'ui'` leaves frame timing to an external driver (see `useUIThreadPlayback`), which reports
+   * back through `reportExternalCursor` and `completeExternalPlayback`. Playback moves to `'js'`
+   * for good once animations are queued, the current one chains into `next`, or a
+   * `SpriteClockProvider` drives the sprite.
+   */
+  driver?: SpritePlaybackDriver;
+  /** `'manual'` leaves timing to `advance(deltaMs)`; ignored by external drivers. */
+  clock?: SpriteClockMode;
+  /** Holds the clock without changing `playing`, e.g. while frame images load. */
+  suspended?: boolean;
 }
 
 export interface SpriteAnimationTickerResult {
@@ -36,6 +64,30 @@ export interface SpriteAnimationTickerResult {
   pause: () => void;
   stop: () => void;
   seekFrame: (frameIndex: number) => void;
+  /** Moves to `ms` after the animation started without changing `playing`. */
+  seekTime: (ms: number) => void;
+  /** Position computed from `computeFrameDuration` at the current speed scale. */
+  getPlaybackPosition: () => SpritePlaybackPosition;
+  /** Steps a `'manual'` clock; see `AnimatedSprite2DHandle.advance`. */
+  advance: (deltaMs: number) => void;
+  queue: (name: string) => void;
+  playSequence: (names: string[]) => void;
+  clearQueue: () => void;
+  /** Driver actually in use; see `UseSpriteAnimationTickerOptions.driver`. */
+  driver: SpritePlaybackDriver;
+  /** Cursor into the direction-adjusted sequence. */
+  effectiveCursor: number;
+  /** Incremented whenever playback is moved externally; external drivers restart from here. */
+  cursorRevision: number;
+  /**
+   * Fires frame and animation events for a cursor reached by an external driver. `step` and
+   * `iteration` describe the driver's travel direction and completed loops.
+   */
+  reportExternalCursor: (effectiveCursor: number, step?: 1 | -1, iteration?: number) => void;
+  /** Finishes the animation for an external driver, chaining into queued or `next` animations. */
+  completeExternalPlayback: (effectiveCursor: number) => void;
+  /** Stores where an external driver stopped without restarting it. */
+  syncExternalCursor: (effectiveCursor: number) => void;
 }
 
 export const useSpriteAnimationTicker = (
@@ -48,7 +100,13 @@ export const useSpriteAnimationTicker = (
     speedScale = 1,
     onAnimationFinished,
     onFrameChanged,
+    onAnimationEvent,
+    onProgress,
     direction = 'forward',
+    followNextAnimation = true,
+    driver: requestedDriver = 'js',
+    clock = 'auto',
+    suspended = false,
   } = options;
 
   const resolveInitialAnimation = useCallback(
@@ -76,15 +134,77 @@ export const useSpriteAnimationTicker = (
     [direction, sequence],
   );
 
-  const { cursor, setCursor, resetAccumulator } = useTicker({
+  const queueRef = useRef<string[]>([]);
+  // The external driver cannot hand over at loop ends, chain without a frame gap or follow a
+  // shared clock, so those cases run on the JS ticker from then on.
+  const sharedClock = useSpriteClock();
+  const [jsFallback, setJsFallback] = useState(false);
+  const chainsIntoNext =
+    followNextAnimation && typeof frames.animationsMeta?.[animationName ?? '']?.next === 'string';
+  const driver: SpritePlaybackDriver =
+    requestedDriver === 'ui' && !jsFallback && !sharedClock && !chainsIntoNext ? 'ui' : 'js';
+
+  useEffect(() => {
+    if (requestedDriver === 'ui' && chainsIntoNext) {
+      setJsFallback(true);
+    }
+  }, [chainsIntoNext, requestedDriver]);
+  // Set once the active animation finished without anything to chain into.
+  const finishedRef = useRef(false);
+
+  const dequeueAnimation = useCallback(() => queueRef.current.shift() ?? null, []);
+
+  const handleAnimationChained = useCallback((name: string) => {
+    finishedRef.current = false;
+    setAnimationNameState(name);
+  }, []);
+
+  const onAnimationFinishedRef = useRef(onAnimationFinished);
+  useEffect(() => {
+    onAnimationFinishedRef.current = onAnimationFinished;
+  }, [onAnimationFinished]);
+
+  // Cursor revision at which the animation last finished; any later seek moves away from the end.
+  const finishedRevisionRef = useRef<number | null>(null);
+  const cursorRevisionRef = useRef(0);
+
+  // Stable so inline callbacks do not restart the ticker loop on every render.
+  const handleAnimationFinished = useCallback((name: string | null) => {
+    finishedRef.current = true;
+    finishedRevisionRef.current = cursorRevisionRef.current;
+    onAnimationFinishedRef.current?.(name);
+  }, []);
+
+  const emitProgressRef = useRef<() => void>(() => undefined);
+  const handleProgress = useCallback(() => emitProgressRef.current(), []);
+
+  const {
+    cursor,
+    cursorRevision,
+    setCursor,
+    syncCursor,
+    resetAccumulator,
+    consumeChainedAnimation,
+    getTimingState,
+    restoreTimingState,
+    advance,
+  } = useTicker({
     frames,
     sequence: effectiveSequence,
     animationName,
-    playing,
+    playing: playing && !suspended && driver !== 'ui',
     speedScale,
     forcedFrameIndex: null,
-    onAnimationFinished,
+    direction,
+    onAnimationFinished: handleAnimationFinished,
+    onAnimationEvent,
+    dequeueAnimation,
+    followNextAnimation,
+    onAnimationChained: handleAnimationChained,
+    onProgress: onProgress ? handleProgress : undefined,
+    clock,
   });
+  cursorRevisionRef.current = cursorRevision;
 
   const timelineCursor = useMemo(() => {
     if (!sequence.length) {
@@ -116,6 +236,19 @@ export const useSpriteAnimationTicker = (
   const lastAnimationRef = useRef<string | null>(animationName);
   const lastDirectionRef = useRef(direction);
   const lastSequenceRef = useRef(sequence);
+  // Timeline cursor requested alongside an animation/direction switch, re-applied after the reset.
+  const pendingTimelineCursorRef = useRef<number | null>(null);
+
+  const toEffectiveCursor = useCallback(
+    (timelineIndex: number) => {
+      if (!sequence.length) {
+        return 0;
+      }
+      const clamped = Math.max(0, Math.min(sequence.length - 1, Math.floor(timelineIndex)));
+      return direction === 'reverse' ? sequence.length - 1 - clamped : clamped;
+    },
+    [direction, sequence.length],
+  );
 
   useEffect(() => {
     const animationChanged = lastAnimationRef.current !== animationName;
@@ -124,22 +257,44 @@ export const useSpriteAnimationTicker = (
     lastAnimationRef.current = animationName;
     lastDirectionRef.current = direction;
     lastSequenceRef.current = sequence;
+    const pendingCursor = pendingTimelineCursorRef.current;
+    pendingTimelineCursorRef.current = null;
+
+    if (animationChanged && consumeChainedAnimation(animationName)) {
+      return;
+    }
+    if (animationChanged || directionChanged || sequenceChanged) {
+      finishedRef.current = false;
+    }
 
     if (animationChanged || directionChanged) {
-      setCursor(0);
+      setCursor(pendingCursor !== null ? toEffectiveCursor(pendingCursor) : 0);
       resetAccumulator();
       return;
     }
     if (sequenceChanged) {
-      const clamped = Math.max(0, Math.min(sequence.length - 1, timelineCursor));
-      setCursor(clamped);
+      setCursor(toEffectiveCursor(timelineCursor));
       resetAccumulator();
     }
-  }, [animationName, direction, sequence, timelineCursor, resetAccumulator, setCursor]);
+  }, [
+    animationName,
+    consumeChainedAnimation,
+    direction,
+    sequence,
+    timelineCursor,
+    resetAccumulator,
+    setCursor,
+    toEffectiveCursor,
+  ]);
+
+  useEffect(() => {
+    pendingTimelineCursorRef.current = null;
+  });
 
   const play = useCallback(
     (name?: string | null) => {
       if (name !== undefined) {
+        finishedRef.current = false;
         setAnimationNameState(name);
         setCursor(0);
         resetAccumulator();
@@ -149,6 +304,37 @@ export const useSpriteAnimationTicker = (
     [resetAccumulator, setCursor],
   );
 
+  const queue = useCallback(
+    (name: string) => {
+      if (playing && finishedRef.current) {
+        play(name);
+        return;
+      }
+      queueRef.current.push(name);
+      setJsFallback(true);
+    },
+    [play, playing],
+  );
+
+  const playSequence = useCallback(
+    (names: string[]) => {
+      const [first, ...rest] = names.filter((name) => typeof name === 'string' && name.length);
+      if (first === undefined) {
+        return;
+      }
+      queueRef.current = rest;
+      if (rest.length) {
+        setJsFallback(true);
+      }
+      play(first);
+    },
+    [play],
+  );
+
+  const clearQueue = useCallback(() => {
+    queueRef.current = [];
+  }, []);
+
   const pause = useCallback(() => {
     setPlayingState(false);
   }, []);
@@ -175,6 +361,146 @@ export const useSpriteAnimationTicker = (
     [direction, frames.frames.length, resetAccumulator, sequence, setCursor],
   );
 
+  // Travel direction and loops last reported by an external driver, valid for one cursor revision
+  const externalTimingRef = useRef<
+    (TimelineStepState & { animationName: string | null; revision: number }) | null
+  >(null);
+
+  // The JS ticker resumes where the external driver last reported, without repeating its events
+  const previousDriverRef = useRef(driver);
+  useEffect(() => {
+    const external = externalTimingRef.current;
+    if (
+      previousDriverRef.current === 'ui' &&
+      driver === 'js' &&
+      external &&
+      external.animationName === animationName &&
+      external.revision === cursorRevisionRef.current
+    ) {
+      syncCursor(external.cursor, external);
+    }
+    previousDriverRef.current = driver;
+  }, [animationName, driver, syncCursor]);
+
+  const getPlaybackPosition = useCallback((): SpritePlaybackPosition => {
+    const snapshot = getTimingState();
+    const external = externalTimingRef.current;
+    const timing =
+      driver !== 'ui'
+        ? snapshot
+        : external && external.revision === cursorRevisionRef.current
+          ? { ...external, accumulator: 0 }
+          : { cursor: snapshot.cursor, step: 1 as const, iteration: 0, accumulator: 0 };
+    const length = snapshot.sequence.length;
+    const durations = computeSequenceDurations(
+      frames,
+      snapshot.animationName,
+      snapshot.sequence,
+      direction,
+      speedScale,
+    );
+    const playback = resolveTimelinePlayback(frames, snapshot.animationName, length, direction);
+    const measure = measureTimeline(durations, playback);
+    const total = measure.end ?? measure.firstPass;
+    const finished =
+      finishedRef.current && finishedRevisionRef.current === cursorRevisionRef.current;
+    const cursor = Math.max(0, Math.min(length - 1, timing.cursor));
+    return {
+      animationName: snapshot.animationName,
+      cursor: direction === 'reverse' ? length - 1 - cursor : cursor,
+      elapsed: finished ? total : computeTimelineElapsed(durations, playback, timing, measure),
+      total,
+      iteration: timing.iteration,
+    };
+  }, [direction, driver, frames, getTimingState, speedScale]);
+
+  const onProgressRef = useRef(onProgress);
+  useEffect(() => {
+    onProgressRef.current = onProgress;
+    emitProgressRef.current = () => {
+      onProgressRef.current?.(getPlaybackPosition());
+    };
+  }, [getPlaybackPosition, onProgress]);
+
+  const seekTime = useCallback(
+    (ms: number) => {
+      const durations = computeSequenceDurations(
+        frames,
+        animationName,
+        effectiveSequence,
+        direction,
+        speedScale,
+      );
+      const playback = resolveTimelinePlayback(
+        frames,
+        animationName,
+        effectiveSequence.length,
+        direction,
+      );
+      const { finished: _finished, ...state } = resolveTimelineTime(durations, playback, ms);
+      restoreTimingState(state);
+    },
+    [animationName, direction, effectiveSequence, frames, restoreTimingState, speedScale],
+  );
+
+  const eventIndex = useMemo(
+    () => buildAnimationEventIndex(frames, animationName),
+    [animationName, frames],
+  );
+
+  const reportExternalCursor = useCallback(
+    (effectiveCursor: number, step: 1 | -1 = 1, iteration = 0) => {
+      if (!effectiveSequence.length) {
+        return;
+      }
+      const clamped = Math.max(0, Math.min(effectiveSequence.length - 1, effectiveCursor));
+      externalTimingRef.current = {
+        cursor: clamped,
+        step,
+        iteration,
+        animationName,
+        revision: cursorRevisionRef.current,
+      };
+      const frameIndex = effectiveSequence[clamped] ?? 0;
+      const timelineIndex =
+        direction === 'reverse' ? effectiveSequence.length - 1 - clamped : clamped;
+      if (frameIndex !== lastFrameRef.current) {
+        lastFrameRef.current = frameIndex;
+        onFrameChanged?.({ animationName, frameIndex });
+      }
+      eventIndex.get(timelineIndex)?.forEach((name) => {
+        onAnimationEvent?.({ animationName, name, frameIndex, timelineIndex });
+      });
+      emitProgressRef.current();
+    },
+    [animationName, direction, effectiveSequence, eventIndex, onAnimationEvent, onFrameChanged],
+  );
+
+  const completeExternalPlayback = useCallback(
+    (effectiveCursor: number) => {
+      handleAnimationFinished(animationName);
+      emitProgressRef.current();
+      const meta = frames.animationsMeta?.[animationName ?? ''];
+      const next =
+        dequeueAnimation() ??
+        (followNextAnimation && typeof meta?.next === 'string' ? meta.next : null);
+      if (next && frames.animations?.[next]?.length) {
+        play(next);
+        return;
+      }
+      syncCursor(effectiveCursor);
+    },
+    [
+      animationName,
+      dequeueAnimation,
+      followNextAnimation,
+      frames,
+      handleAnimationFinished,
+      play,
+      syncCursor,
+    ],
+  );
+
   return {
     animationName,
     setAnimationName: setAnimationNameState,
@@ -183,14 +509,8 @@ export const useSpriteAnimationTicker = (
     sequence,
     timelineCursor,
     setTimelineCursor: (next: number) => {
-      if (!sequence.length) {
-        setCursor(0);
-        resetAccumulator();
-        return;
-      }
-      const clamped = Math.max(0, Math.min(sequence.length - 1, Math.floor(next)));
-      const effectiveIndex = direction === 'reverse' ? sequence.length - 1 - clamped : clamped;
-      setCursor(effectiveIndex);
+      pendingTimelineCursorRef.current = Number.isFinite(next) ? Math.max(0, Math.floor(next)) : 0;
+      setCursor(toEffectiveCursor(pendingTimelineCursorRef.current));
       resetAccumulator();
     },
     resetTimelineAccumulator: resetAccumulator,
@@ -199,5 +519,17 @@ export const useSpriteAnimationTicker = (
     pause,
     stop,
     seekFrame,
+    seekTime,
+    getPlaybackPosition,
+    advance,
+    queue,
+    playSequence,
+    clearQueue,
+    driver,
+    effectiveCursor: cursor,
+    cursorRevision,
+    reportExternalCursor,
+    completeExternalPlayback,
+    syncExternalCursor: syncCursor,
   };
 };
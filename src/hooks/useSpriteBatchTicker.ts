@@ -0,0 +1,90 @@
+/* eslint-disable jsdoc/require-jsdoc */
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { SpriteFramesResource } from '../editor/animatedSprite2dTypes';
+import {
+  advanceSpriteBatchPlayhead,
+  syncSpriteBatchPlayheads,
+  type SpriteBatchInstance,
+  type SpriteBatchPlayheads,
+} from '../editor/utils/spriteBatch';
+import { useSpriteClock } from '../SpriteClockProvider';
+
+export interface UseSpriteBatchTickerOptions {
+  frames: SpriteFramesResource;
+  instances: SpriteBatchInstance[];
+  playing?: boolean;
+  speedScale?: number;
+}
+
+export interface SpriteBatchTickerResult {
+  playheads: SpriteBatchPlayheads;
+  /** Incremented on every frame that moved at least one instance. */
+  revision: number;
+}
+
+/**
+ * Advances every batch instance from one frame callback (or the surrounding
+ * `SpriteClockProvider`), re-rendering once per frame in which any instance moved.
+ */
+export const useSpriteBatchTicker = ({
+  frames,
+  instances,
+  playing = true,
+  speedScale = 1,
+}: UseSpriteBatchTickerOptions): SpriteBatchTickerResult => {
+  const clock = useSpriteClock();
+  const [revision, setRevision] = useState(0);
+  const committedRef = useRef<{ frames: SpriteFramesResource; playheads: SpriteBatchPlayheads }>({
+    frames,
+    playheads: new Map(),
+  });
+
+  const playheads = useMemo(() => {
+    const previous =
+      committedRef.current.frames === frames ? committedRef.current.playheads : new Map();
+    return syncSpriteBatchPlayheads(frames, instances, previous);
+  }, [frames, instances]);
+
+  useEffect(() => {
+    committedRef.current = { frames, playheads };
+  }, [frames, playheads]);
+
+  const hasInstances = playheads.size > 0;
+
+  // the loop reads the committed playheads so inline `instances` arrays do not restart it
+  useEffect(() => {
+    if (!playing || !hasInstances) {
+      return () => undefined;
+    }
+    const requestFrame = clock ? clock.requestFrame : requestAnimationFrame;
+    const cancelFrame = clock ? clock.cancelFrame : cancelAnimationFrame;
+    let lastTs: number | null = null;
+    let handle: number | null = null;
+
+    const tick = (timestamp: number) => {
+      if (lastTs != null) {
+        const delta = timestamp - lastTs;
+        let changed = false;
+        const committed = committedRef.current;
+        committed.playheads.forEach((playhead) => {
+          changed =
+            advanceSpriteBatchPlayhead(committed.frames, playhead, delta, speedScale) || changed;
+        });
+        if (changed) {
+          setRevision((value) => value + 1);
+        }
+      }
+      lastTs = timestamp;
+      handle = requestFrame(tick);
+    };
+
+    handle = requestFrame(tick);
+    return () => {
+      if (handle != null) {
+        cancelFrame(handle);
+      }
+    };
+  }, [clock, hasInstances, playing, speedScale]);
+
+  return { playheads, revision };
+};
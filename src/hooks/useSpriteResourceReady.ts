@@ -0,0 +1,63 @@
+/* eslint-disable jsdoc/require-jsdoc */
+import { useEffect, useRef, useState } from 'react';
+import type { SpriteFramesResource } from '../editor/animatedSprite2dTypes';
+import {
+  SpriteImageCache,
+  isSpriteResourceCached,
+  preloadSpriteResource,
+  retainSpriteResource,
+  type SpriteImageCacheInstance,
+} from '../spriteImageCache';
+
+export interface UseSpriteResourceReadyOptions {
+  cache?: SpriteImageCacheInstance;
+  /** Called once per resource after all of its images finished loading (or failed to). */
+  onReady?: (resource: SpriteFramesResource) => void;
+}
+
+/**
+ * Preloads every frame image of `resource` into the shared cache and reports when loading
+ * settled. Already cached resources are ready on the first render. The images stay retained
+ * while the resource is mounted, so the cache cannot evict them from under a ready sprite.
+ */
+export const useSpriteResourceReady = (
+  resource: SpriteFramesResource | null | undefined,
+  options: UseSpriteResourceReadyOptions = {},
+): boolean => {
+  const { cache = SpriteImageCache, onReady } = options;
+  const [readyResource, setReadyResource] = useState<SpriteFramesResource | null>(null);
+
+  useEffect(() => {
+    if (!resource) {
+      return () => undefined;
+    }
+    const release = retainSpriteResource(resource, cache);
+    if (isSpriteResourceCached(resource, cache)) {
+      setReadyResource(resource);
+      return release;
+    }
+    let cancelled = false;
+    void preloadSpriteResource(resource, cache).then(() => {
+      if (!cancelled) {
+        setReadyResource(resource);
+      }
+    });
+    return () => {
+      cancelled = true;
+      release();
+    };
+  }, [cache, resource]);
+
+  const ready =
+    !!resource && (readyResource === resource || isSpriteResourceCached(resource, cache));
+
+  const notifiedRef = useRef<SpriteFramesResource | null>(null);
+  useEffect(() => {
+    if (ready && resource && notifiedRef.current !== resource) {
+      notifiedRef.current = resource;
+      onReady?.(resource);
+    }
+  }, [onReady, ready, resource]);
+
+  return ready;
+};
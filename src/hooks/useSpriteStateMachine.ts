@@ -0,0 +1,190 @@
+/* eslint-disable jsdoc/require-jsdoc */
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { RefObject } from 'react';
+import type {
+  SpriteStateMachineDefinition,
+  SpriteStateMachineParameterValue,
+} from '../spriteTypes';
+import type { AnimatedSprite2DHandle } from '../editor/animatedSprite2dTypes';
+import {
+  settleStateMachine,
+  type SpriteStateMachineParameters,
+  type SpriteStateMachineStatus,
+} from '../editor/utils/spriteStateMachine';
+
+export interface UseSpriteStateMachineOptions {
+  definition: SpriteStateMachineDefinition | null | undefined;
+  /** Values layered over `definition.parameters` when the machine starts or the definition changes. */
+  parameters?: SpriteStateMachineParameters;
+  /** When set, every state entry calls `play(animation, { fromFrame: 0 })` on the handle. */
+  spriteRef?: RefObject<AnimatedSprite2DHandle | null>;
+  onStateChange?: (state: string, previousState: string | null) => void;
+}
+
+export interface SpriteStateMachineResult {
+  state: string | null;
+  animation: string | null;
+  parameters: SpriteStateMachineParameters;
+  setParameter: (name: string, value: SpriteStateMachineParameterValue) => void;
+  setParameters: (values: SpriteStateMachineParameters) => void;
+  /** Enters `state` directly (re-entering restarts its animation), then follows transitions. */
+  setState: (state: string) => void;
+  /** Marks the current animation as finished so `waitForFinish` transitions can fire. */
+  handleAnimationFinished: (name: string | null) => void;
+  /**
+   * Props to spread onto `AnimatedSprite2D` when driving it declaratively. `restartKey` changes on
+   * every state entry, so re-entering a state replays its animation.
+   */
+  spriteProps: {
+    animation: string | null;
+    restartKey: number;
+    onAnimationFinished: (name: string | null) => void;
+  };
+}
+
+interface MachineState {
+  definition: SpriteStateMachineDefinition | null;
+  status: SpriteStateMachineStatus | null;
+  parameters: SpriteStateMachineParameters;
+  /** Incremented on every state entry so re-entering the same state is observable. */
+  entry: number;
+}
+
+const createMachineState = (
+  definition: SpriteStateMachineDefinition | null,
+  parameters: SpriteStateMachineParameters | undefined,
+  entry: number,
+): MachineState => {
+  const initialParameters = { ...(definition?.parameters ?? {}), ...(parameters ?? {}) };
+  if (!definition || !definition.states[definition.initialState]) {
+    return { definition, status: null, parameters: initialParameters, entry };
+  }
+  const status = settleStateMachine(
+    definition,
+    { state: definition.initialState, finished: false },
+    initialParameters,
+  );
+  return { definition, status, parameters: initialParameters, entry: entry + 1 };
+};
+
+const advance = (
+  machine: MachineState,
+  status: SpriteStateMachineStatus,
+  parameters: SpriteStateMachineParameters,
+  forceEntry = false,
+): MachineState => {
+  if (!machine.definition) {
+    return machine;
+  }
+  const next = settleStateMachine(machine.definition, status, parameters);
+  const entered = forceEntry || next.state !== machine.status?.state;
+  return {
+    definition: machine.definition,
+    status: next,
+    parameters,
+    entry: entered ? machine.entry + 1 : machine.entry,
+  };
+};
+
+export const useSpriteStateMachine = (
+  options: UseSpriteStateMachineOptions,
+): SpriteStateMachineResult => {
+  const { definition = null, parameters: parameterOverrides, spriteRef, onStateChange } = options;
+  const [machine, setMachine] = useState<MachineState>(() =>
+    createMachineState(definition, parameterOverrides, 0),
+  );
+
+  const parameterOverridesRef = useRef(parameterOverrides);
+  useEffect(() => {
+    parameterOverridesRef.current = parameterOverrides;
+  }, [parameterOverrides]);
+
+  useEffect(() => {
+    setMachine((prev) =>
+      prev.definition === definition
+        ? prev
+        : createMachineState(definition, parameterOverridesRef.current, prev.entry),
+    );
+  }, [definition]);
+
+  const setParameters = useCallback((values: SpriteStateMachineParameters) => {
+    setMachine((prev) => {
+      const nextParameters = { ...prev.parameters, ...values };
+      if (!prev.status) {
+        return { ...prev, parameters: nextParameters };
+      }
+      return advance(prev, prev.status, nextParameters);
+    });
+  }, []);
+
+  const setParameter = useCallback(
+    (name: string, value: SpriteStateMachineParameterValue) => {
+      setParameters({ [name]: value });
+    },
+    [setParameters],
+  );
+
+  const setState = useCallback((state: string) => {
+    setMachine((prev) => {
+      if (!prev.definition?.states[state]) {
+        return prev;
+      }
+      return advance(prev, { state, finished: false }, prev.parameters, true);
+    });
+  }, []);
+
+  const handleAnimationFinished = useCallback((name: string | null) => {
+    setMachine((prev) => {
+      if (!prev.definition || !prev.status || prev.status.finished) {
+        return prev;
+      }
+      const current = prev.definition.states[prev.status.state];
+      if (!current || current.animation !== name) {
+        return prev;
+      }
+      return advance(prev, { state: prev.status.state, finished: true }, prev.parameters);
+    });
+  }, []);
+
+  const state = machine.status?.state ?? null;
+  const animation = (state && machine.definition?.states[state]?.animation) || null;
+
+  const onStateChangeRef = useRef(onStateChange);
+  useEffect(() => {
+    onStateChangeRef.current = onStateChange;
+  }, [onStateChange]);
+  const previousStateRef = useRef<string | null>(null);
+  const handledEntryRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (handledEntryRef.current === machine.entry || !state) {
+      return;
+    }
+    const isInitialEntry = handledEntryRef.current === null;
+    handledEntryRef.current = machine.entry;
+    if (animation) {
+      spriteRef?.current?.play(animation, { fromFrame: 0 });
+    }
+    const previousState = previousStateRef.current;
+    previousStateRef.current = state;
+    if (!isInitialEntry) {
+      onStateChangeRef.current?.(state, previousState);
+    }
+  }, [animation, machine.entry, spriteRef, state]);
+
+  const spriteProps = useMemo(
+    () => ({ animation, restartKey: machine.entry, onAnimationFinished: handleAnimationFinished }),
+    [animation, handleAnimationFinished, machine.entry],
+  );
+
+  return {
+    state,
+    animation,
+    parameters: machine.parameters,
+    setParameter,
+    setParameters,
+    setState,
+    handleAnimationFinished,
+    spriteProps,
+  };
+};
@@ -1,5 +1,8 @@
 export * from './spriteTypes';
 export * from './storage/spriteStorage';
+export * from './storage/spriteExport';
+export * from './storage/asepriteImport';
+export * from './storage/spriteAtlas';
 export * from './editor/types';
 export * from './editor/hooks/useSpriteEditor';
 export * from './editor/hooks/useTimelineEditor';
@@ -7,24 +10,61 @@ export * from './editor/hooks/useMetadataManager';
 export * from './editor/hooks/useSpriteStorage';
 export * from './editor/hooks/useEditorIntegration';
 export * from './editor/hooks/animatedSprite2d';
-export { AnimatedSprite2DView, type AnimatedSprite2DViewProps } from './AnimatedSprite2DView';
+export * from './hooks/useSpriteStateMachine';
+export {
+  AnimatedSprite2DView,
+  SpriteFrameNode,
+  type AnimatedSprite2DViewLayout,
+  type AnimatedSprite2DViewProps,
+  type SpriteFrameNodeProps,
+} from './AnimatedSprite2DView';
 export { AnimatedSprite2D } from './AnimatedSprite2D';
+export { SpriteNode, type SpriteNodeProps } from './SpriteNode';
+export { SpriteBatch, type SpriteBatchProps } from './SpriteBatch';
+export * from './SpriteEffectStack';
+export * from './hooks/useSpriteBatchTicker';
+export * from './SpriteClockProvider';
+export * from './spriteImageCache';
+export * from './renderSpriteFrame';
+export * from './renderSpriteAnimation';
+export * from './renderSpriteAtlas';
+export * from './hooks/useSpriteResourceReady';
 export { AnimatedSprite2DPreview } from './editor/components/AnimatedSprite2DPreview';
 export type {
   AnimatedSprite2DHandle,
   AnimatedSprite2DProps,
+  AnimatedSpriteAnimationEvent,
   AnimatedSpriteFrame,
   AnimatedSpriteFrameChangeEvent,
   FrameImageSource,
   FrameImageSubset,
   SpriteAnimationsMap as AnimatedSpriteAnimationsMap,
   SpriteAnimationsMetaMap as AnimatedSpriteAnimationsMetaMap,
+  SpriteBlendMode,
+  SpriteClockMode,
+  SpriteDissolveEffect,
+  SpriteDropShadowEffect,
+  SpriteEffect,
+  SpriteFlashEffect,
   SpriteFramesResource,
+  SpriteOutlineEffect,
+  SpritePaletteEffect,
+  SpritePixelPerfectOptions,
+  SpritePlaybackDriver,
+  SpritePlaybackPosition,
+  SpriteShaderEffect,
 } from './editor/animatedSprite2dTypes';
 export { buildAnimatedSpriteFrames } from './editor/utils/buildAnimatedSpriteFrames';
 export * from './editor/templates/DefaultSpriteTemplate';
 export * from './editor/utils/SpriteEditUtils';
 export * from './editor/utils/cleanSpriteData';
+export * from './editor/utils/spriteStateMachine';
+export * from './editor/utils/spriteBatch';
+export * from './editor/utils/palette';
+export * from './editor/utils/gifEncoder';
+export * from './editor/utils/maxRects';
+export * from './editor/utils/asepriteJson';
+export * from './editor/utils/asepriteFile';
 export { AnimationStudio, type AnimationStudioProps } from './editor/components/AnimationStudio';
 export { IconButton, type IconButtonProps } from './editor/components/IconButton';
 export {
@@ -34,6 +74,14 @@ export {
 } from './editor/components/MacWindow';
 export { SelectableTextInput } from './editor/components/SelectableTextInput';
 export { FileBrowserModal, type FileBrowserModalProps } from './editor/components/FileBrowserModal';
+export {
+  StateMachinePreviewModal,
+  type StateMachinePreviewModalProps,
+} from './editor/components/StateMachinePreviewModal';
+export {
+  PaletteEditorModal,
+  type PaletteEditorModalProps,
+} from './editor/components/PaletteEditorModal';
 export {
   FrameGridSelector,
   type FrameGridSelectorProps,
@@ -47,6 +95,7 @@ export {
   type TimelineSequenceCard,
   type FrameImageInfo,
   type MultiplierFieldHandle,
+  type EventsFieldHandle,
 } from './editor/components/TimelinePanel';
 export { TimelineControls, type TimelineControlsProps } from './editor/components/TimelineControls';
 export { getEditorStrings, type EditorStrings, formatEditorString } from './editor/localization';
@@ -0,0 +1,280 @@
+/* eslint-disable jsdoc/require-jsdoc */
+import {
+  AlphaType,
+  ColorType,
+  ImageFormat,
+  Skia,
+  type Color,
+  type SkFont,
+  type SkImage,
+} from '@shopify/react-native-skia';
+import type { AnimatedSpriteFrame, SpriteFramesResource } from './editor/animatedSprite2dTypes';
+import {
+  buildSequence,
+  computeSceneBounds,
+  computeSequenceDurations,
+  pickInitialAnimation,
+  resolveTimelinePlayback,
+  stepTimelineCursor,
+  type TimelinePlayback,
+} from './editor/hooks/animatedSprite2d/helpers';
+import { encodeGif, type GifFrame } from './editor/utils/gifEncoder';
+import {
+  drawSpriteFrame,
+  loadSpriteFrameImage,
+  renderOffscreen,
+  renderSpriteFrameToImage,
+  type RenderSpriteFrameOptions,
+  type RenderedSpriteFrame,
+  type SpriteFrameRenderFormat,
+} from './renderSpriteFrame';
+import { SpriteImageCache } from './spriteImageCache';
+
+export type RenderSpriteAnimationOptions = Omit<RenderSpriteFrameOptions, 'cursor' | 'format'>;
+
+export interface RenderSpriteGifOptions extends RenderSpriteAnimationOptions {
+  /** Playback speed multiplier applied to every frame duration. Defaults to 1. */
+  speedScale?: number;
+  /** Pixels with a lower alpha become transparent when there is no `background`. */
+  alphaThreshold?: number;
+}
+
+/**
+ * Timeline slots to encode and the GIF repeat count that plays them like the runtime does.
+ * Animations that repeat the whole timeline are written once and repeated by the GIF itself;
+ * finite ones with an intro or a ping-pong return are written out in full and played once.
+ * A GIF can only repeat all of its frames, so endless animations repeat their intro too.
+ */
+const collectGifCursors = (length: number, playback: TimelinePlayback) => {
+  const { mode, loopCount, loopRange } = playback;
+  const pass = Array.from({ length }, (_, cursor) => cursor);
+  if (mode === 'once') {
+    return { cursors: pass, loopCount: 1 };
+  }
+  if (mode === 'loop' && (!loopCount || loopRange.start === 0)) {
+    return { cursors: pass, loopCount };
+  }
+  if (!loopCount) {
+    // endless ping-pong: the intro and one round trip, without repeating either end
+    const back = pass.slice(loopRange.start + 1, loopRange.end).reverse();
+    return { cursors: [...pass.slice(0, loopRange.end + 1), ...back], loopCount: 0 };
+  }
+  const cursors = [0];
+  let state = { cursor: 0, step: 1 as 1 | -1, iteration: 0 };
+  for (;;) {
+    const next = stepTimelineCursor(state, length, mode, loopCount, loopRange);
+    if (next.finished) {
+      return { cursors, loopCount: 1 };
+    }
+    cursors.push(next.cursor);
+    state = next;
+  }
+};
+
+/**
+ * Encodes an animation as a GIF, using the same frame durations and slot order as playback.
+ * `once` and `loopCount` animations stop where playback stops, including the `loopStart` intro
+ * and the closing frame of a ping-pong. Endless ones loop forever and replay their intro on
+ * every loop. Resolves to null when a frame cannot be drawn.
+ */
+export const renderSpriteAnimationToGif = async (
+  resource: SpriteFramesResource,
+  options: RenderSpriteGifOptions = {},
+): Promise<Uint8Array | null> => {
+  const { speedScale = 1, alphaThreshold, ...frameOptions } = options;
+  const animationName = pickInitialAnimation(resource, frameOptions.animation);
+  const sequence = buildSequence(resource, animationName);
+  if (!sequence.length) {
+    return null;
+  }
+  const { cursors, loopCount } = collectGifCursors(
+    sequence.length,
+    resolveTimelinePlayback(resource, animationName, sequence.length, 'forward'),
+  );
+  const durations = computeSequenceDurations(
+    resource,
+    animationName,
+    sequence,
+    'forward',
+    speedScale,
+  );
+
+  // repeated and ping-pong passes show most slots several times, so each slot is drawn once
+  const pixelsByCursor = new Map<number, { pixels: Uint8Array; width: number; height: number }>();
+  const frames: GifFrame[] = [];
+  for (const cursor of cursors) {
+    let rendered = pixelsByCursor.get(cursor);
+    if (!rendered) {
+      const image = await renderSpriteFrameToImage(resource, {
+        ...frameOptions,
+        animation: animationName,
+        cursor,
+      });
+      const width = image?.width() ?? 0;
+      const height = image?.height() ?? 0;
+      const pixels = image?.readPixels(0, 0, {
+        width,
+        height,
+        colorType: ColorType.RGBA_8888,
+        alphaType: AlphaType.Unpremul,
+      });
+      if (!(pixels instanceof Uint8Array)) {
+        return null;
+      }
+      rendered = { pixels, width, height };
+      pixelsByCursor.set(cursor, rendered);
+    }
+    frames.push({ pixels: rendered.pixels, duration: durations[cursor] ?? 0 });
+  }
+
+  // every slot is drawn into a canvas sized to the whole animation
+  const { width, height } = pixelsByCursor.get(0)!;
+  return encodeGif(frames, {
+    width,
+    height,
+    loopCount,
+    alphaThreshold,
+  });
+};
+
+export interface RenderedSpriteStep {
+  /** Timeline slot inside the animation. */
+  cursor: number;
+  /** Sheet frame drawn at that slot. */
+  frameIndex: number;
+  png: Uint8Array;
+}
+
+/**
+ * Renders every timeline slot of an animation as PNG bytes, in timeline order. All images share
+ * the size of the animation's biggest frame. Resolves to null when a frame cannot be drawn.
+ */
+export const renderSpriteAnimationToPngs = async (
+  resource: SpriteFramesResource,
+  options: RenderSpriteAnimationOptions = {},
+): Promise<RenderedSpriteStep[] | null> => {
+  const animationName = pickInitialAnimation(resource, options.animation);
+  const sequence = buildSequence(resource, animationName);
+  const steps: RenderedSpriteStep[] = [];
+  for (let cursor = 0; cursor < sequence.length; cursor += 1) {
+    const png = await renderSpriteFrameToImage(resource, {
+      ...options,
+      animation: animationName,
+      cursor,
+      format: 'png',
+    });
+    if (!png) {
+      return null;
+    }
+    steps.push({ cursor, frameIndex: sequence[cursor]!, png });
+  }
+  return steps.length ? steps : null;
+};
+
+export interface RenderSpriteContactSheetOptions<Format extends SpriteFrameRenderFormat = 'image'>
+  extends Omit<RenderSpriteAnimationOptions, 'animation' | 'background'> {
+  /** Rows to draw, in order; defaults to every animation with frames. */
+  animations?: string[];
+  /** Defaults to white so the labels stay readable; `null` keeps the sheet transparent. */
+  background?: Color | null;
+  /** Gap around rows and cells, in output pixels. Defaults to 8. */
+  padding?: number;
+  /** Font of the row labels; defaults to the platform's default typeface at 12 pt. */
+  font?: SkFont;
+  labelColor?: Color;
+  /** `'png'` resolves to encoded PNG bytes instead of an `SkImage`. */
+  format?: Format;
+}
+
+/**
+ * Lays out every animation as a labeled row of its timeline slots. Cells share the size of the
+ * biggest frame on the sheet and frames are centered in them. Resolves to null when there is
+ * nothing to draw or a frame image is missing.
+ */
+export const renderSpriteContactSheet = async <Format extends SpriteFrameRenderFormat = 'image'>(
+  resource: SpriteFramesResource,
+  options: RenderSpriteContactSheetOptions<Format> = {},
+): Promise<RenderedSpriteFrame<Format> | null> => {
+  const {
+    scale: scaleOption,
+    background = '#ffffff',
+    padding: paddingOption,
+    labelColor = '#000000',
+    flipH,
+    flipV,
+    pixelPerfect,
+    format = 'image',
+    cache = SpriteImageCache,
+    skia = Skia,
+  } = options;
+  const scale =
+    typeof scaleOption === 'number' && Number.isFinite(scaleOption) && scaleOption > 0
+      ? scaleOption
+      : 1;
+  const padding =
+    typeof paddingOption === 'number' && Number.isFinite(paddingOption)
+      ? Math.max(0, paddingOption)
+      : 8;
+  const names = (options.animations ?? Object.keys(resource.animations ?? {})).filter(
+    (name) => resource.animations?.[name]?.length,
+  );
+  // without animations the sheet shows every frame in one unlabeled row
+  const rows = names.length
+    ? names.map((name) => ({ label: name, sequence: buildSequence(resource, name) }))
+    : [{ label: null, sequence: buildSequence(resource, null) }];
+
+  const frameIndices = Array.from(new Set(rows.flatMap((row) => row.sequence)));
+  const frames = new Map<number, { frame: AnimatedSpriteFrame; image: SkImage }>();
+  for (const index of frameIndices) {
+    const frame = resource.frames[index];
+    const image = frame ? await loadSpriteFrameImage(frame, cache) : null;
+    if (!frame || !image) {
+      return null;
+    }
+    frames.set(index, { frame, image });
+  }
+  const bounds = computeSceneBounds(Array.from(frames.values(), (entry) => entry.frame));
+  const cell = { width: bounds.width * scale, height: bounds.height * scale };
+  const font = options.font ?? skia.Font(undefined, 12);
+  const fontSize = font.getSize();
+  const labelHeight = Math.ceil(fontSize * 1.25);
+  const columns = Math.max(...rows.map((row) => row.sequence.length));
+  const rowHeight = (row: (typeof rows)[number]) =>
+    (row.label !== null ? labelHeight : 0) + cell.height + padding;
+  const width = padding + columns * (cell.width + padding);
+  const height = rows.reduce((sum, row) => sum + rowHeight(row), padding);
+  if (!frames.size || cell.width <= 0 || cell.height <= 0) {
+    return null;
+  }
+
+  const snapshot = renderOffscreen(skia, width, height, background, (canvas) => {
+    const labelPaint = skia.Paint();
+    labelPaint.setColor(skia.Color(labelColor));
+    labelPaint.setAntiAlias(true);
+    let top = padding;
+    rows.forEach((row) => {
+      if (row.label !== null) {
+        canvas.drawText(row.label, padding, top + fontSize, labelPaint, font);
+      }
+      const cellTop = top + (row.label !== null ? labelHeight : 0);
+      row.sequence.forEach((frameIndex, column) => {
+        const entry = frames.get(frameIndex)!;
+        const box = { x: padding + column * (cell.width + padding), y: cellTop, ...cell };
+        drawSpriteFrame(skia, canvas, entry.frame, entry.image, box, {
+          scale,
+          flipH,
+          flipV,
+          pixelPerfect,
+        });
+      });
+      top += rowHeight(row);
+    });
+  });
+  if (!snapshot) {
+    return null;
+  }
+  if (format === 'png') {
+    return snapshot.encodeToBytes(ImageFormat.PNG) as RenderedSpriteFrame<Format>;
+  }
+  return snapshot as RenderedSpriteFrame<Format>;
+};
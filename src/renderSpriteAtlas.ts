@@ -0,0 +1,211 @@
+/* eslint-disable jsdoc/require-jsdoc */
+import {
+  AlphaType,
+  ColorType,
+  FilterMode,
+  MipmapMode,
+  Skia,
+  type SkImage,
+} from '@shopify/react-native-skia';
+import { packRects, type PackRectsOptions } from './editor/utils/maxRects';
+import { renderOffscreen } from './renderSpriteFrame';
+import { SpriteImageCache, type SpriteImageCacheInstance } from './spriteImageCache';
+import type { SpriteData, SpriteFrame } from './spriteTypes';
+
+export interface RenderSpriteAtlasOptions extends PackRectsOptions {
+  /**
+   * Crops fully transparent borders off every frame. Trimmed frames keep their original size in
+   * `sourceSize` and their position inside it in `trimOffset`. Defaults to false.
+   */
+  trim?: boolean;
+  /** Where frame images are loaded from; defaults to the shared cache. */
+  cache?: SpriteImageCacheInstance;
+  /** Skia API to draw with, e.g. `JsiSkApi(CanvasKit)` in Node; defaults to the platform's. */
+  skia?: typeof Skia;
+}
+
+export type SpriteAtlasFrame = Omit<SpriteFrame, 'imageUri'> & {
+  /** Index into `RenderedSpriteAtlas.sheets`. */
+  sheet: number;
+};
+
+export interface RenderedSpriteAtlas {
+  sheets: SkImage[];
+  /** Every frame of the input, in order, pointing at its packed rect. */
+  frames: SpriteAtlasFrame[];
+}
+
+interface AtlasRegion {
+  image: SkImage;
+  /** Rect inside `image` that is copied to the atlas. */
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  /** Pixels cropped off the left and top of the frame. */
+  left: number;
+  top: number;
+  trimmed: boolean;
+}
+
+// pixels between packed frames keep linear sampling from bleeding into neighbours
+const DEFAULT_PADDING = 2;
+
+const fullRegion = (image: SkImage, frame: SpriteFrame): AtlasRegion => ({
+  image,
+  x: frame.x,
+  y: frame.y,
+  w: frame.w,
+  h: frame.h,
+  left: 0,
+  top: 0,
+  trimmed: false,
+});
+
+/** Shrinks a frame rect to its non-transparent pixels; fully transparent frames keep one pixel. */
+const trimRegion = (image: SkImage, frame: SpriteFrame): AtlasRegion => {
+  const region = fullRegion(image, frame);
+  const pixels = image.readPixels(frame.x, frame.y, {
+    width: frame.w,
+    height: frame.h,
+    colorType: ColorType.RGBA_8888,
+    alphaType: AlphaType.Unpremul,
+  });
+  if (!(pixels instanceof Uint8Array)) {
+    return region;
+  }
+  let minX = frame.w;
+  let minY = frame.h;
+  let maxX = -1;
+  let maxY = -1;
+  for (let y = 0; y < frame.h; y += 1) {
+    for (let x = 0; x < frame.w; x += 1) {
+      if (pixels[(y * frame.w + x) * 4 + 3]! > 0) {
+        minX = Math.min(minX, x);
+        minY = Math.min(minY, y);
+        maxX = Math.max(maxX, x);
+        maxY = Math.max(maxY, y);
+      }
+    }
+  }
+  if (maxX < 0) {
+    minX = 0;
+    minY = 0;
+    maxX = 0;
+    maxY = 0;
+  }
+  const w = maxX - minX + 1;
+  const h = maxY - minY + 1;
+  return {
+    ...region,
+    x: frame.x + minX,
+    y: frame.y + minY,
+    w,
+    h,
+    left: minX,
+    top: minY,
+    trimmed: w !== frame.w || h !== frame.h,
+  };
+};
+
+/**
+ * Copies every frame of `data` into as few power-of-two sheets as possible, using a MaxRects
+ * packer. Frames sharing the same source rect are packed once. Resolves to null when a frame has
+ * no `imageUri`, an empty size or an image that cannot be loaded, and throws when a frame is
+ * bigger than `maxSize`.
+ */
+export const renderSpriteAtlas = async (
+  data: SpriteData,
+  options: RenderSpriteAtlasOptions = {},
+): Promise<RenderedSpriteAtlas | null> => {
+  const {
+    trim = false,
+    padding = DEFAULT_PADDING,
+    maxSize,
+    cache = SpriteImageCache,
+    skia = Skia,
+  } = options;
+  if (!data.frames.length) {
+    return null;
+  }
+
+  const images = new Map<string, SkImage>();
+  const regions: AtlasRegion[] = [];
+  const regionByKey = new Map<string, number>();
+  const frameRegions: number[] = [];
+  for (const frame of data.frames) {
+    const uri = frame.imageUri;
+    if (!uri || !(frame.w > 0) || !(frame.h > 0)) {
+      return null;
+    }
+    let image = images.get(uri);
+    if (!image) {
+      image = (await cache.load({ type: 'uri', uri })) ?? undefined;
+      if (!image) {
+        return null;
+      }
+      images.set(uri, image);
+    }
+    const key = `${uri}|${frame.x}|${frame.y}|${frame.w}|${frame.h}`;
+    let regionIndex = regionByKey.get(key);
+    if (regionIndex === undefined) {
+      regionIndex = regions.length;
+      regions.push(trim ? trimRegion(image, frame) : fullRegion(image, frame));
+      regionByKey.set(key, regionIndex);
+    }
+    frameRegions.push(regionIndex);
+  }
+
+  const packed = packRects(
+    regions.map((region) => ({ width: region.w, height: region.h })),
+    { maxSize, padding },
+  );
+  const sheets: SkImage[] = [];
+  for (let sheetIndex = 0; sheetIndex < packed.sheets.length; sheetIndex += 1) {
+    const { width, height } = packed.sheets[sheetIndex]!;
+    const sheet = renderOffscreen(skia, width, height, null, (canvas) => {
+      regions.forEach((region, index) => {
+        const placement = packed.rects[index]!;
+        if (placement.sheet !== sheetIndex) {
+          return;
+        }
+        canvas.drawImageRectOptions(
+          region.image,
+          skia.XYWHRect(region.x, region.y, region.w, region.h),
+          skia.XYWHRect(placement.x, placement.y, region.w, region.h),
+          FilterMode.Nearest,
+          MipmapMode.None,
+          null,
+        );
+      });
+    });
+    if (!sheet) {
+      return null;
+    }
+    sheets.push(sheet);
+  }
+
+  const frames = data.frames.map((frame, index): SpriteAtlasFrame => {
+    const { imageUri: _imageUri, ...rest } = frame;
+    const region = regions[frameRegions[index]!]!;
+    const placement = packed.rects[frameRegions[index]!]!;
+    const atlasFrame: SpriteAtlasFrame = {
+      ...rest,
+      x: placement.x,
+      y: placement.y,
+      w: region.w,
+      h: region.h,
+      sheet: placement.sheet,
+    };
+    if (region.trimmed) {
+      // frames that were already trimmed keep their original box
+      atlasFrame.sourceSize = frame.sourceSize ?? { w: frame.w, h: frame.h };
+      atlasFrame.trimOffset = {
+        x: (frame.trimOffset?.x ?? 0) + region.left,
+        y: (frame.trimOffset?.y ?? 0) + region.top,
+      };
+    }
+    return atlasFrame;
+  });
+  return { sheets, frames };
+};
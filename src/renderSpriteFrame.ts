@@ -0,0 +1,185 @@
+/* eslint-disable jsdoc/require-jsdoc */
+import {
+  ClipOp,
+  FilterMode,
+  ImageFormat,
+  MipmapMode,
+  Skia,
+  type Color,
+  type SkCanvas,
+  type SkImage,
+} from '@shopify/react-native-skia';
+import type { AnimatedSpriteFrame, SpriteFramesResource } from './editor/animatedSprite2dTypes';
+import {
+  buildSequence,
+  clamp,
+  computeDrawOrigin,
+  computeFlipTransform,
+  computeFrameLayout,
+  computeSceneBounds,
+  pickInitialAnimation,
+  type FrameRect,
+} from './editor/hooks/animatedSprite2d/helpers';
+import { SpriteImageCache, type SpriteImageCacheInstance } from './spriteImageCache';
+
+export type SpriteFrameRenderFormat = 'image' | 'png';
+
+export interface RenderSpriteFrameOptions<Format extends SpriteFrameRenderFormat = 'image'> {
+  /** Defaults to the same animation `AnimatedSprite2D` would start with. */
+  animation?: string | null;
+  /** Timeline slot inside the animation, clamped to its length. Defaults to 0. */
+  cursor?: number;
+  scale?: number;
+  /** Fills the image before the frame is drawn; transparent when omitted. */
+  background?: Color | null;
+  flipH?: boolean;
+  flipV?: boolean;
+  /** Nearest-neighbour sampling, for scaled-up pixel art. */
+  pixelPerfect?: boolean;
+  /** `'png'` resolves to encoded PNG bytes instead of an `SkImage`. */
+  format?: Format;
+  /** Where `uri`/`require` frame images are loaded from; defaults to the shared cache. */
+  cache?: SpriteImageCacheInstance;
+  /** Skia API to draw with, e.g. `JsiSkApi(CanvasKit)` in Node; defaults to the platform's. */
+  skia?: typeof Skia;
+}
+
+export type RenderedSpriteFrame<Format extends SpriteFrameRenderFormat> = Format extends 'png'
+  ? Uint8Array
+  : SkImage;
+
+export interface SpriteFrameDrawOptions {
+  scale: number;
+  flipH?: boolean;
+  flipV?: boolean;
+  pixelPerfect?: boolean;
+}
+
+/** Resolves a frame's image, loading `uri`/`require` sources through `cache`. */
+export const loadSpriteFrameImage = (
+  frame: AnimatedSpriteFrame,
+  cache: SpriteImageCacheInstance = SpriteImageCache,
+): Promise<SkImage | null> =>
+  frame.image.type === 'skImage' ? Promise.resolve(frame.image.image) : cache.load(frame.image);
+
+/** Draws `frame` centered in `box`, with the subset and flip math of `SpriteFrameNode`. */
+export const drawSpriteFrame = (
+  skia: typeof Skia,
+  canvas: SkCanvas,
+  frame: AnimatedSpriteFrame,
+  frameImage: SkImage,
+  box: FrameRect,
+  { scale, flipH = false, flipV = false, pixelPerfect = false }: SpriteFrameDrawOptions,
+) => {
+  const centered = computeDrawOrigin(frame, box, true, scale);
+  const drawOrigin = { x: box.x + centered.x, y: box.y + centered.y };
+  const { clip, image } = computeFrameLayout(frame, frameImage, drawOrigin, scale);
+  canvas.save();
+  computeFlipTransform(flipH, flipV, box).forEach((step) => {
+    if ('translateX' in step) canvas.translate(step.translateX, 0);
+    else if ('translateY' in step) canvas.translate(0, step.translateY);
+    else if ('scaleX' in step) canvas.scale(step.scaleX, 1);
+    else canvas.scale(1, step.scaleY);
+  });
+  canvas.clipRect(skia.XYWHRect(clip.x, clip.y, clip.width, clip.height), ClipOp.Intersect, true);
+  canvas.drawImageRectOptions(
+    frameImage,
+    skia.XYWHRect(0, 0, frameImage.width(), frameImage.height()),
+    skia.XYWHRect(image.x, image.y, image.width, image.height),
+    pixelPerfect ? FilterMode.Nearest : FilterMode.Linear,
+    MipmapMode.None,
+    null,
+  );
+  canvas.restore();
+};
+
+/**
+ * Runs `draw` on an offscreen surface of the given size and returns a CPU-backed snapshot, or
+ * null when the size is empty or no surface could be created.
+ */
+export const renderOffscreen = (
+  skia: typeof Skia,
+  width: number,
+  height: number,
+  background: Color | null,
+  draw: (canvas: SkCanvas) => void,
+): SkImage | null => {
+  const surfaceWidth = Math.ceil(width);
+  const surfaceHeight = Math.ceil(height);
+  if (surfaceWidth <= 0 || surfaceHeight <= 0) {
+    return null;
+  }
+  const surface =
+    skia.Surface.MakeOffscreen(surfaceWidth, surfaceHeight) ??
+    skia.Surface.Make(surfaceWidth, surfaceHeight);
+  if (!surface) {
+    return null;
+  }
+  const canvas = surface.getCanvas();
+  if (background !== null) {
+    canvas.clear(skia.Color(background));
+  }
+  draw(canvas);
+  surface.flush();
+  // GPU snapshots stay tied to the surface, so they are copied to the CPU before it goes away
+  const snapshot = surface.makeImageSnapshot().makeNonTextureImage();
+  surface.dispose();
+  return snapshot;
+};
+
+/**
+ * Draws one timeline slot of a resource into an offscreen surface, laid out like a centered
+ * `AnimatedSprite2D`: the image is as large as the biggest frame of the animation. Resolves to
+ * null when the frame or its image is missing.
+ */
+export const renderSpriteFrameToImage = async <Format extends SpriteFrameRenderFormat = 'image'>(
+  resource: SpriteFramesResource,
+  options: RenderSpriteFrameOptions<Format> = {},
+): Promise<RenderedSpriteFrame<Format> | null> => {
+  const {
+    animation,
+    cursor = 0,
+    scale: scaleOption,
+    background = null,
+    flipH = false,
+    flipV = false,
+    pixelPerfect = false,
+    format = 'image',
+    cache = SpriteImageCache,
+    skia = Skia,
+  } = options;
+  const scale =
+    typeof scaleOption === 'number' && Number.isFinite(scaleOption) && scaleOption > 0
+      ? scaleOption
+      : 1;
+  const sequence = buildSequence(resource, pickInitialAnimation(resource, animation));
+  if (!sequence.length) {
+    return null;
+  }
+  const slot = Number.isFinite(cursor) ? clamp(Math.floor(cursor), 0, sequence.length - 1) : 0;
+  const frame = resource.frames[sequence[slot]!];
+  if (!frame) {
+    return null;
+  }
+  const frameImage = await loadSpriteFrameImage(frame, cache);
+  if (!frameImage) {
+    return null;
+  }
+
+  const bounds = computeSceneBounds(
+    sequence
+      .map((index) => resource.frames[index])
+      .filter((entry): entry is AnimatedSpriteFrame => Boolean(entry)),
+  );
+  const box = { x: 0, y: 0, width: bounds.width * scale, height: bounds.height * scale };
+  const snapshot = renderOffscreen(skia, box.width, box.height, background, (canvas) => {
+    drawSpriteFrame(skia, canvas, frame, frameImage, box, { scale, flipH, flipV, pixelPerfect });
+  });
+  if (!snapshot) {
+    return null;
+  }
+  if (format === 'png') {
+    return snapshot.encodeToBytes(ImageFormat.PNG) as RenderedSpriteFrame<Format>;
+  }
+  return snapshot as RenderedSpriteFrame<Format>;
+};
@@ -0,0 +1,234 @@
+/* eslint-disable jsdoc/require-jsdoc */
+import { Skia, loadData, type SkImage } from '@shopify/react-native-skia';
+import type { FrameImageSource, SpriteFramesResource } from './editor/animatedSprite2dTypes';
+import { getImageSourceKey } from './editor/hooks/animatedSprite2d/helpers';
+
+/** Sources the cache loads itself; `skImage` sources are already decoded and bypass it. */
+export type CacheableFrameImageSource = Extract<FrameImageSource, { type: 'uri' | 'require' }>;
+
+export interface SpriteImageCacheStats {
+  entries: number;
+  /** Estimated decoded size (width × height × 4) of all cached images. */
+  bytes: number;
+  maxBytes: number;
+}
+
+export interface CreateSpriteImageCacheOptions {
+  /** Budget for decoded images before least recently used ones are evicted. Defaults to 64 MB. */
+  maxBytes?: number;
+  /** Decodes a source; defaults to Skia's `loadData` + `MakeImageFromEncoded`. */
+  loadImage?: (source: CacheableFrameImageSource) => Promise<SkImage | null>;
+}
+
+export interface SpriteImageCacheInstance {
+  /** Returns the cached image and marks it as recently used. */
+  get: (source: FrameImageSource | null | undefined) => SkImage | null;
+  has: (source: FrameImageSource | null | undefined) => boolean;
+  /** Loads (or returns) the image; concurrent calls for one source share a single request. */
+  load: (source: FrameImageSource | null | undefined) => Promise<SkImage | null>;
+  /** Protects the entry from eviction until the returned release function runs. */
+  retain: (source: FrameImageSource | null | undefined) => () => void;
+  /** Called with the cache key of every image added to the cache. */
+  subscribe: (listener: (key: string) => void) => () => void;
+  evict: (source: FrameImageSource | null | undefined) => void;
+  clear: () => void;
+  setMaxBytes: (maxBytes: number) => void;
+  getStats: () => SpriteImageCacheStats;
+}
+
+const DEFAULT_MAX_BYTES = 64 * 1024 * 1024;
+
+/** Cache key of a `uri`/`require` source; `skImage` sources have none. */
+export const getFrameImageCacheKey = (
+  source: FrameImageSource | null | undefined,
+): string | null => {
+  const key = getImageSourceKey(source ?? undefined);
+  return typeof key === 'string' ? key : null;
+};
+
+const defaultLoadImage = (source: CacheableFrameImageSource) =>
+  loadData(source.type === 'uri' ? source.uri : source.assetId, (data) =>
+    Skia.Image.MakeImageFromEncoded(data),
+  );
+
+const estimateBytes = (image: SkImage) => {
+  const width = typeof image.width === 'function' ? image.width() : 0;
+  const height = typeof image.height === 'function' ? image.height() : 0;
+  return Math.max(0, width * height * 4);
+};
+
+const sanitizeMaxBytes = (value: number) =>
+  Number.isFinite(value) && value >= 0 ? value : DEFAULT_MAX_BYTES;
+
+export const createSpriteImageCache = (
+  options: CreateSpriteImageCacheOptions = {},
+): SpriteImageCacheInstance => {
+  const loadImage = options.loadImage ?? defaultLoadImage;
+  let maxBytes = sanitizeMaxBytes(options.maxBytes ?? DEFAULT_MAX_BYTES);
+  // Map iteration order doubles as the LRU order: oldest first
+  const entries = new Map<string, { image: SkImage; bytes: number }>();
+  const pending = new Map<string, Promise<SkImage | null>>();
+  const retained = new Map<string, number>();
+  const listeners = new Set<(key: string) => void>();
+  let totalBytes = 0;
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (entry) {
+      entries.delete(key);
+      totalBytes -= entry.bytes;
+    }
+  };
+
+  const trim = () => {
+    for (const key of Array.from(entries.keys())) {
+      if (totalBytes <= maxBytes) {
+        return;
+      }
+      if (!retained.get(key)) {
+        remove(key);
+      }
+    }
+  };
+
+  const store = (key: string, image: SkImage) => {
+    remove(key);
+    const bytes = estimateBytes(image);
+    entries.set(key, { image, bytes });
+    totalBytes += bytes;
+    trim();
+    listeners.forEach((listener) => listener(key));
+  };
+
+  const get = (source: FrameImageSource | null | undefined) => {
+    const key = getFrameImageCacheKey(source);
+    const entry = key ? entries.get(key) : undefined;
+    if (!key || !entry) {
+      return null;
+    }
+    entries.delete(key);
+    entries.set(key, entry);
+    return entry.image;
+  };
+
+  return {
+    get,
+    has: (source) => {
+      const key = getFrameImageCacheKey(source);
+      return key !== null && entries.has(key);
+    },
+    load: (source) => {
+      if (source?.type === 'skImage') {
+        return Promise.resolve(source.image);
+      }
+      const key = getFrameImageCacheKey(source);
+      if (!key || !source) {
+        return Promise.resolve(null);
+      }
+      const cached = get(source);
+      if (cached) {
+        return Promise.resolve(cached);
+      }
+      const inFlight = pending.get(key);
+      if (inFlight) {
+        return inFlight;
+      }
+      const request = loadImage(source)
+        .catch(() => null)
+        .then((image) => {
+          pending.delete(key);
+          if (image) {
+            store(key, image);
+          }
+          return image;
+        });
+      pending.set(key, request);
+      return request;
+    },
+    retain: (source) => {
+      const key = getFrameImageCacheKey(source);
+      if (!key) {
+        return () => undefined;
+      }
+      retained.set(key, (retained.get(key) ?? 0) + 1);
+      let released = false;
+      return () => {
+        if (released) {
+          return;
+        }
+        released = true;
+        const count = (retained.get(key) ?? 1) - 1;
+        if (count > 0) {
+          retained.set(key, count);
+        } else {
+          retained.delete(key);
+          trim();
+        }
+      };
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    evict: (source) => {
+      const key = getFrameImageCacheKey(source);
+      if (key) {
+        remove(key);
+      }
+    },
+    clear: () => {
+      entries.clear();
+      totalBytes = 0;
+    },
+    setMaxBytes: (value) => {
+      maxBytes = sanitizeMaxBytes(value);
+      trim();
+    },
+    getStats: () => ({ entries: entries.size, bytes: totalBytes, maxBytes }),
+  };
+};
+
+/** Cache shared by every `AnimatedSprite2D`, `SpriteBatch` and preload call. */
+export const SpriteImageCache = createSpriteImageCache();
+
+const collectImageSources = (resource: SpriteFramesResource) => {
+  const sources = new Map<string, FrameImageSource>();
+  resource.frames.forEach((frame) => {
+    const key = getFrameImageCacheKey(frame.image);
+    if (key && !sources.has(key)) {
+      sources.set(key, frame.image);
+    }
+  });
+  return Array.from(sources.values());
+};
+
+/** True when every `uri`/`require` image of the resource is already in the cache. */
+export const isSpriteResourceCached = (
+  resource: SpriteFramesResource,
+  cache: SpriteImageCacheInstance = SpriteImageCache,
+) => collectImageSources(resource).every((source) => cache.has(source));
+
+/** Protects every image of the resource from eviction until the returned function runs. */
+export const retainSpriteResource = (
+  resource: SpriteFramesResource,
+  cache: SpriteImageCacheInstance = SpriteImageCache,
+) => {
+  const releases = collectImageSources(resource).map((source) => cache.retain(source));
+  return () => releases.forEach((release) => release());
+};
+
+/**
+ * Loads every distinct frame image of the resource into the cache. Resolves to false when at
+ * least one image failed to load.
+ */
+export const preloadSpriteResource = async (
+  resource: SpriteFramesResource,
+  cache: SpriteImageCacheInstance = SpriteImageCache,
+): Promise<boolean> => {
+  const images = await Promise.all(
+    collectImageSources(resource).map((source) => cache.load(source)),
+  );
+  return images.every((image) => image !== null);
+};
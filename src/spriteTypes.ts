@@ -7,30 +7,110 @@ export interface SpriteFrame {
   h: number;
   duration?: number;
   imageUri?: string;
+  /** Size of the frame before its transparent borders were trimmed away. */
+  sourceSize?: { w: number; h: number };
+  /** Position of the trimmed rect inside `sourceSize`. */
+  trimOffset?: { x: number; y: number };
 }
 
 export type SpriteAnimations = Record<string, number[]>;
 
+export interface SpriteAnimationEvent {
+  index: number;
+  name: string;
+}
+
+export type SpriteAnimationPlaybackMode = 'loop' | 'once' | 'pingpong';
+
 export interface SpriteAnimationMeta {
   loop?: boolean;
+  playbackMode?: SpriteAnimationPlaybackMode;
+  loopCount?: number;
+  loopStart?: number;
+  next?: string;
   fps?: number;
   multipliers?: number[];
+  events?: SpriteAnimationEvent[];
 }
 
 export type SpriteAnimationsMeta = Record<string, SpriteAnimationMeta>;
 
+/** Palette swap colors, as `#rrggbb` strings. */
+export interface SpritePaletteMeta {
+  /** Colors as they appear in the sheet. */
+  source: string[];
+  /** Named recolors; entry `i` replaces `source[i]`. */
+  variants: Record<string, string[]>;
+}
+
+export interface SpriteRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/** Bounds of a slice from the given frame index onwards. */
+export interface SpriteSliceKey {
+  frame: number;
+  bounds: SpriteRect;
+  /** Nine-patch center, relative to `bounds`. */
+  center?: SpriteRect;
+  /** Pivot point, relative to `bounds`. */
+  pivot?: { x: number; y: number };
+}
+
+/** A named region of the sprite, such as a hitbox, as exported by Aseprite. */
+export interface SpriteSliceMeta {
+  name: string;
+  color?: string;
+  data?: string;
+  keys: SpriteSliceKey[];
+}
+
 export interface SpriteDataMeta {
   displayName?: string;
   origin?: { x: number; y: number };
+  palettes?: SpritePaletteMeta;
+  slices?: SpriteSliceMeta[];
   [key: string]: unknown;
 }
 
+export type SpriteStateMachineParameterValue = boolean | number | string;
+
+export type SpriteStateMachineOperator = '==' | '!=' | '>' | '>=' | '<' | '<=';
+
+export interface SpriteStateMachineCondition {
+  parameter: string;
+  operator?: SpriteStateMachineOperator;
+  value?: SpriteStateMachineParameterValue;
+}
+
+export interface SpriteStateMachineState {
+  animation: string;
+}
+
+export interface SpriteStateMachineTransition {
+  from: string;
+  to: string;
+  conditions?: SpriteStateMachineCondition[];
+  waitForFinish?: boolean;
+}
+
+export interface SpriteStateMachineDefinition {
+  initialState: string;
+  states: Record<string, SpriteStateMachineState>;
+  transitions?: SpriteStateMachineTransition[];
+  parameters?: Record<string, SpriteStateMachineParameterValue>;
+}
+
 export interface SpriteData {
   frames: SpriteFrame[];
   animations?: SpriteAnimations;
   animationsMeta?: SpriteAnimationsMeta;
   meta?: SpriteDataMeta;
   autoPlayAnimation?: string | null;
+  stateMachine?: SpriteStateMachineDefinition;
 }
 
 export type PlaybackDirection = 'forward' | 'reverse';
@@ -0,0 +1,55 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import { AlphaType, ColorType, ImageFormat, Skia } from '@shopify/react-native-skia';
+import { buildAsepriteSheet, parseAsepriteFile } from '../editor/utils/asepriteFile';
+import { importAsepriteJson } from '../editor/utils/asepriteJson';
+import { decodeBase64 } from '../editor/utils/base64';
+import type { SpriteData } from '../spriteTypes';
+import { ensureDir, toFileName, writePng } from './exportFiles';
+import { getSpriteStoragePaths } from './spriteStorage';
+
+/**
+ * Options accepted by importAsepriteFile.
+ */
+export interface AsepriteFileImportOptions {
+  /** Base name of the generated sheet. Defaults to the file name without its extension. */
+  name?: string;
+  /** Skia API to encode the sheet with, e.g. `JsiSkApi(CanvasKit)` in Node; defaults to the platform's. */
+  skia?: typeof Skia;
+}
+
+/**
+ * Reads an `.ase` / `.aseprite` file, flattens its visible layers into a sheet written as
+ * `<name>-sheet-<timestamp>.png` under the storage exports directory, and resolves to sprite data
+ * with one animation per tag. Resolves to null when the sheet cannot be encoded and throws when
+ * the file is not a valid Aseprite file.
+ */
+export const importAsepriteFile = async (
+  uri: string,
+  options: AsepriteFileImportOptions = {},
+): Promise<SpriteData | null> => {
+  const fileName = decodeURIComponent(uri.split('/').pop() ?? '');
+  const { name = fileName.replace(/\.[^.]*$/, '') || 'sprite', skia = Skia } = options;
+  const bytes = decodeBase64(
+    await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 }),
+  );
+  const sheet = buildAsepriteSheet(parseAsepriteFile(bytes));
+  const image = skia.Image.MakeImage(
+    {
+      width: sheet.width,
+      height: sheet.height,
+      colorType: ColorType.RGBA_8888,
+      alphaType: AlphaType.Unpremul,
+    },
+    skia.Data.fromBytes(sheet.pixels),
+    sheet.width * 4,
+  );
+  const png = image?.encodeToBytes(ImageFormat.PNG);
+  if (!png?.length) {
+    return null;
+  }
+  const directory = getSpriteStoragePaths().exports;
+  await ensureDir(directory);
+  const sheetUri = `${directory}${toFileName(name)}-sheet-${Date.now()}.png`;
+  await writePng(sheetUri, png);
+  return importAsepriteJson(sheet.json, sheetUri);
+};
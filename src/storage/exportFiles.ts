@@ -0,0 +1,26 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import { encodeBase64 } from '../editor/utils/base64';
+
+/**
+ * Replaces characters that are unsafe in file names.
+ */
+export const toFileName = (value: string) => value.replace(/[^\w-]+/g, '_');
+
+/**
+ * Creates `path` and its parents unless it already exists.
+ */
+export const ensureDir = async (path: string) => {
+  const info = await FileSystem.getInfoAsync(path);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(path, { intermediates: true });
+  }
+};
+
+/**
+ * Writes encoded PNG bytes to `uri`.
+ */
+export const writePng = async (uri: string, bytes: Uint8Array) => {
+  await FileSystem.writeAsStringAsync(uri, encodeBase64(bytes), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+};
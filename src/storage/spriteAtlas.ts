@@ -0,0 +1,43 @@
+import { ImageFormat } from '@shopify/react-native-skia';
+import { renderSpriteAtlas, type RenderSpriteAtlasOptions } from '../renderSpriteAtlas';
+import type { SpriteData } from '../spriteTypes';
+import { ensureDir, toFileName, writePng } from './exportFiles';
+import { getSpriteStoragePaths } from './spriteStorage';
+
+/**
+ * Options accepted by packSpriteAtlas.
+ */
+export interface SpriteAtlasPackOptions extends RenderSpriteAtlasOptions {
+  /** Base name of the atlas folder. Defaults to `sprite`. */
+  name?: string;
+}
+
+/**
+ * Packs every frame of `data` into power-of-two atlas sheets, writes them as
+ * `<name>-atlas-<timestamp>/sheet_<n>.png` under the storage exports directory and resolves to
+ * a copy of `data` whose frames point at the sheets. Resolves to null when a frame image is
+ * missing.
+ */
+export const packSpriteAtlas = async (
+  data: SpriteData,
+  options: SpriteAtlasPackOptions = {},
+): Promise<SpriteData | null> => {
+  const { name = 'sprite', ...renderOptions } = options;
+  const atlas = await renderSpriteAtlas(data, renderOptions);
+  const sheets = atlas?.sheets.map((sheet) => sheet.encodeToBytes(ImageFormat.PNG));
+  if (!atlas || !sheets?.every((bytes) => bytes.length > 0)) {
+    return null;
+  }
+  const directory = `${getSpriteStoragePaths().exports}${toFileName(name)}-atlas-${Date.now()}/`;
+  await ensureDir(directory);
+  const uris: string[] = [];
+  for (let index = 0; index < sheets.length; index += 1) {
+    const uri = `${directory}sheet_${index}.png`;
+    await writePng(uri, sheets[index]!);
+    uris.push(uri);
+  }
+  return {
+    ...data,
+    frames: atlas.frames.map(({ sheet, ...frame }) => ({ ...frame, imageUri: uris[sheet] })),
+  };
+};
@@ -0,0 +1,106 @@
+import type { SpriteEditorState } from '../editor/types';
+import { buildAnimatedSpriteFrames } from '../editor/utils/buildAnimatedSpriteFrames';
+import {
+  renderSpriteAnimationToPngs,
+  renderSpriteContactSheet,
+  type RenderSpriteAnimationOptions,
+  type RenderSpriteContactSheetOptions,
+} from '../renderSpriteAnimation';
+import { ensureDir, toFileName, writePng } from './exportFiles';
+import { getSpriteStoragePaths } from './spriteStorage';
+
+/**
+ * Options accepted by exportSpritePngSequence.
+ */
+export interface SpritePngSequenceExportOptions
+  extends Omit<RenderSpriteAnimationOptions, 'animation'> {
+  /** Base name of the export folder. Defaults to `sprite`. */
+  name?: string;
+  /** Animations to export; defaults to every animation with frames. */
+  animations?: string[];
+}
+
+/**
+ * Result of a PNG sequence export.
+ */
+export interface SpritePngSequenceExport {
+  /** Folder holding the exported images. */
+  directory: string;
+  /** Written file URIs, grouped by animation in timeline order. */
+  files: string[];
+}
+
+/**
+ * Options accepted by exportSpriteContactSheet.
+ */
+export interface SpriteContactSheetExportOptions
+  extends Omit<RenderSpriteContactSheetOptions, 'format'> {
+  /** Base name of the exported file. Defaults to `sprite`. */
+  name?: string;
+}
+
+/**
+ * Writes every timeline step of the editor's animations as `<animation>_<step>.png` into a new
+ * folder under the storage exports directory. Resolves to null when nothing could be rendered.
+ */
+export const exportSpritePngSequence = async (
+  state: SpriteEditorState,
+  options: SpritePngSequenceExportOptions = {},
+): Promise<SpritePngSequenceExport | null> => {
+  const { name = 'sprite', animations, ...renderOptions } = options;
+  const resource = buildAnimatedSpriteFrames(state);
+  if (!resource) {
+    return null;
+  }
+  const names = (animations ?? Object.keys(resource.animations ?? {})).filter(
+    (animation) => resource.animations?.[animation]?.length,
+  );
+  if (!names.length) {
+    return null;
+  }
+
+  const rendered: { animation: string; steps: Uint8Array[] }[] = [];
+  for (const animation of names) {
+    const steps = await renderSpriteAnimationToPngs(resource, { ...renderOptions, animation });
+    if (!steps) {
+      return null;
+    }
+    rendered.push({ animation, steps: steps.map((step) => step.png) });
+  }
+
+  const directory = `${getSpriteStoragePaths().exports}${toFileName(name)}-${Date.now()}/`;
+  await ensureDir(directory);
+  const files: string[] = [];
+  for (const { animation, steps } of rendered) {
+    for (let step = 0; step < steps.length; step += 1) {
+      const uri = `${directory}${toFileName(animation)}_${String(step).padStart(3, '0')}.png`;
+      await writePng(uri, steps[step]!);
+      files.push(uri);
+    }
+  }
+  return { directory, files };
+};
+
+/**
+ * Writes a contact sheet with one labeled row per animation into the storage exports directory
+ * and resolves to its URI, or null when nothing could be rendered.
+ */
+export const exportSpriteContactSheet = async (
+  state: SpriteEditorState,
+  options: SpriteContactSheetExportOptions = {},
+): Promise<string | null> => {
+  const { name = 'sprite', ...renderOptions } = options;
+  const resource = buildAnimatedSpriteFrames(state);
+  if (!resource) {
+    return null;
+  }
+  const png = await renderSpriteContactSheet(resource, { ...renderOptions, format: 'png' });
+  if (!png) {
+    return null;
+  }
+  const directory = getSpriteStoragePaths().exports;
+  await ensureDir(directory);
+  const uri = `${directory}${toFileName(name)}-contact-sheet-${Date.now()}.png`;
+  await writePng(uri, png);
+  return uri;
+};
@@ -1,5 +1,10 @@
 import * as FileSystem from 'expo-file-system/legacy';
-import type { SpriteAnimations, SpriteAnimationsMeta, SpriteFrame } from '../spriteTypes';
+import type {
+  SpriteAnimations,
+  SpriteAnimationsMeta,
+  SpriteFrame,
+  SpriteStateMachineDefinition,
+} from '../spriteTypes';
 
 /**
  * Metadata describing stored sprite assets.
@@ -40,6 +45,8 @@ export type SpriteSavePayload<TExtra = Record<string, unknown>> = {
   animations?: SpriteAnimations;
   /** Optional animation metadata overrides. */
   animationsMeta?: SpriteAnimationsMeta;
+  /** Optional animation state machine definition. */
+  stateMachine?: SpriteStateMachineDefinition;
   /** Metadata stored alongside the sprite. */
   meta?: Partial<SpriteMetadata>;
 } & TExtra;
@@ -103,6 +110,7 @@ const resolveBaseDir = () => {
 };
 
 const metaDir = () => `${resolveBaseDir()}meta/`;
+const exportsDir = () => `${resolveBaseDir()}exports/`;
 const registryPath = () => `${resolveBaseDir()}registry.json`;
 
 const ensureDir = async (path: string) => {
@@ -315,4 +323,5 @@ export const getSpriteStoragePaths = () => ({
   root: resolveBaseDir(),
   meta: metaDir(),
   registry: registryPath(),
+  exports: exportsDir(),
 });